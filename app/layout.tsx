@@ -1,5 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { CONTENT_SECURITY_POLICY } from "@/lib/pwa";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,6 +19,10 @@ export const metadata: Metadata = {
   description: "Herramienta para buscar procesos en boletines jurídicos",
 };
 
+export const viewport: Viewport = {
+  themeColor: "#2563eb",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -24,10 +30,17 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="es" suppressHydrationWarning>
+      <head>
+        {/* GitHub Pages cannot send headers; development keeps Next's eval-based refresh working */}
+        {process.env.NODE_ENV === "production" && (
+          <meta httpEquiv="Content-Security-Policy" content={CONTENT_SECURITY_POLICY} />
+        )}
+      </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         suppressHydrationWarning
       >
+        <ServiceWorkerRegistration />
         {children}
       </body>
     </html>
@@ -0,0 +1,33 @@
+import type { MetadataRoute } from 'next';
+import { BASE_PATH } from '@/lib/pwa';
+
+// Required for `output: 'export'`: the manifest is written as a static file at build time
+export const dynamic = 'force-static';
+
+export default function manifest(): MetadataRoute.Manifest {
+    return {
+        name: 'Buscador de Procesos',
+        short_name: 'Procesos',
+        description: 'Busca procesos en boletines de estados sin que los archivos salgan del equipo',
+        lang: 'es-CO',
+        start_url: `${BASE_PATH}/`,
+        scope: `${BASE_PATH}/`,
+        display: 'standalone',
+        background_color: '#f9fafb',
+        theme_color: '#2563eb',
+        icons: [
+            { src: `${BASE_PATH}/icons/icon-192.png`, sizes: '192x192', type: 'image/png', purpose: 'any' },
+            { src: `${BASE_PATH}/icons/icon-512.png`, sizes: '512x512', type: 'image/png', purpose: 'any' },
+            { src: `${BASE_PATH}/icons/icon-512.png`, sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+        // "Abrir con" for Excel bulletins once the app is installed; the files arrive through useLaunchFiles
+        file_handlers: [
+            {
+                action: `${BASE_PATH}/`,
+                accept: {
+                    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+                },
+            },
+        ],
+    };
+}
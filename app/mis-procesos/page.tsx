@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+import TrackedCasesDashboard from '@/components/TrackedCasesDashboard';
+
+export const metadata: Metadata = {
+    title: 'Mis procesos · Buscador de Procesos',
+};
+
+export default function TrackedCasesPage() {
+    return (
+        <main className="min-h-screen bg-gray-50 p-8 font-sans text-gray-900">
+            <TrackedCasesDashboard />
+        </main>
+    );
+}
@@ -1,245 +1,453 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import * as XLSX from 'xlsx';
-import { Upload, Search, FileSpreadsheet, Loader2, AlertCircle, FileDown, CheckSquare, Square, Trash2 } from 'lucide-react';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { Search, Loader2, AlertCircle, FileDown, CheckSquare, Square, Trash2, Sheet, History, Bell, BellRing, Briefcase, LayoutList, Table2, FileSearch, FolderOpen, Save } from 'lucide-react';
 import { saveAs } from 'file-saver';
+import { cn } from '@/lib/utils';
+import type { SearchResult } from '@/lib/types';
+import { despachoCode, parseRadicado } from '@/lib/radicado';
+import { isSameFile, type LoadedBulletin } from '@/lib/bulletin/files';
+import { useBulletinClient } from '@/lib/worker/client';
+import { DEFAULT_MATCH_OPTIONS, type MatchOptions } from '@/lib/matcher';
+import type { WorkProgress } from '@/lib/worker/messages';
+import { mergeContinuation, type SheetRegion } from '@/lib/bulletin/region';
+import { applyResultFilters, RESULT_SORTS, resultFacets, resultsAnnouncement, type FacetKey, type ResultFilters, type ResultSort } from '@/lib/results';
+import { formatDate, localISODate, todayISO } from '@/lib/dates';
+import { watchlistStore } from '@/lib/watchlist';
+import { useLocalStore } from '@/lib/storage';
+import { fieldText, unmappedColumns, type ColumnField, type ColumnMapping } from '@/lib/columns';
+import { columnProfilesStore } from '@/lib/columnProfiles';
+import { parseQuery, positiveTerms, QUERY_FIELDS, type QueryField } from '@/lib/query';
+import { CONTEXT_COLUMN, ESTADO_COLUMN } from '@/lib/search';
+import { exportColumnsStore, exportCrossToExcel, exportStatsToExcel, exportToCSV, exportToExcel } from '@/lib/export';
+import { buildCrossReport, buildReport, DEFAULT_REPORT_TEMPLATE, processNotesStore, reportFileName, reportTemplatesStore, type ReportTemplate } from '@/lib/report';
+import { clientListStore, clientTerm, crossClients, type ClientList, type ClientMatch } from '@/lib/clients';
+import { processKey, selectionStore } from '@/lib/selection';
+import { settingsStore } from '@/lib/settings';
+import { dictionaryWordsStore } from '@/lib/dictionaryWords';
+import {
+    bulletinDespachos, bulletinStampId, canFollow, followProcess, followStore, recordBulletin, unfollowProcess,
+    type BulletinDiff, type BulletinStamp,
+} from '@/lib/followed';
+import { trackedCasesStore, trackResults } from '@/lib/tracking';
+import { isTypingTarget, SHORTCUTS } from '@/lib/shortcuts';
+import { useLaunchFiles } from '@/lib/launch';
+import { createSession, readSession, saveSession, searchStateFromQuery, searchStateToQuery, type SearchSession, type SearchState } from '@/lib/session';
+import { sheetStats, type BulletinStats } from '@/lib/stats';
+import { addRecentBulletin, addRecentSearch, recentBulletinsStore, recentSearchesStore, type BulletinRecord } from '@/lib/recent';
+import WatchlistPanel from '@/components/WatchlistPanel';
+import ClientCrossPanel from '@/components/ClientCrossPanel';
+import BulletinFiles from '@/components/BulletinFiles';
+import ProgressBar from '@/components/ProgressBar';
+import ColumnMappingDialog from '@/components/ColumnMappingDialog';
+import ExportDialog from '@/components/ExportDialog';
+import ReportDialog from '@/components/ReportDialog';
+import FollowedPanel from '@/components/FollowedPanel';
+import Highlight from '@/components/Highlight';
+import ResultsListbox from '@/components/ResultsListbox';
+import ResultFacets from '@/components/ResultFacets';
+import RowDetailDrawer from '@/components/RowDetailDrawer';
+import StatsPanel from '@/components/StatsPanel';
+import DictionaryPanel from '@/components/DictionaryPanel';
 
-function cn(...inputs: ClassValue[]) {
-    return twMerge(clsx(inputs));
-}
+const SEARCH_DEBOUNCE_MS = 250;
 
-interface SearchResult {
-    sheetName: string;
-    rowIndex: number;
-    data: any[];
-    id: string; // Unique ID for selection matching
-    context?: string; // Juzgado / Header context
-    stateContext?: string; // Estado / Fecha context (e.g., "ESTADO 18 DEL 10 FEBRERO 2026")
-}
+type ResultListItem =
+    | { kind: 'group'; key: string; term: string; count: number }
+    | { kind: 'result'; key: string; result: SearchResult };
+
+const resultListKey = (item: ResultListItem) => item.key;
+const isResultItem = (item: ResultListItem) => item.kind === 'result';
+
+// The results listbox; options get `${RESULTS_LIST_ID}-<index>` ids for aria-activedescendant
+const RESULTS_LIST_ID = 'results-list';
+
+// Shared by the header and the rows of the compact table view
+const TABLE_COLUMNS = "grid grid-cols-[1.5rem_11rem_minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)_6rem_minmax(0,1.3fr)] gap-3 items-center";
+const MIN_INSTANT_SEARCH_LENGTH = 2;
 
 export default function Home() {
-    const [file, setFile] = useState<File | null>(null);
-    const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+    const [bulletins, setBulletins] = useState<LoadedBulletin[]>([]);
+    const hasBulletins = bulletins.length > 0;
     const [isLoading, setIsLoading] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
     const [results, setResults] = useState<SearchResult[]>([]);
+    const [searchedTerms, setSearchedTerms] = useState<string[]>([]);
     const [hasSearched, setHasSearched] = useState(false);
+    // Words of the last search, to highlight text the matcher's offsets do not cover
+    const highlightTerms = useMemo(() => searchedTerms.flatMap(term => positiveTerms(parseQuery(term))), [searchedTerms]);
+    // Fuzzy matching, field restriction and sort order are remembered between visits
+    const [settings, setSettings] = useLocalStore(settingsStore);
+    const { matchOptions, searchField } = settings;
+    const [dateRange, setDateRange] = useState({ dateFrom: '', dateTo: '' });
+    // Juzgado / estado facet values picked in the results, cleared when the search changes
+    const [facetSelection, setFacetSelection] = useState<Record<FacetKey, string[]>>({ juzgados: [], estados: [] });
+    const resultFilters: ResultFilters = useMemo(
+        () => ({ ...dateRange, ...facetSelection, sort: settings.sort }),
+        [dateRange, facetSelection, settings.sort]
+    );
+    const [recentSearches, setRecentSearches] = useLocalStore(recentSearchesStore);
+    const [recentBulletins, setRecentBulletins] = useLocalStore(recentBulletinsStore);
     const [error, setError] = useState<string | null>(null);
 
-    // Store full objects to persist selection across searches
-    const [selectedItems, setSelectedItems] = useState<Map<string, SearchResult>>(new Map());
+    // Selected processes survive reloads and new bulletins: they are stored locally and keyed by
+    // processKey (radicado + juzgado), so the same process in a later bulletin shows as selected
+    const [selection, setSelection] = useLocalStore(selectionStore);
+    const selectedItems = useMemo(() => new Map(selection.map(r => [processKey(r), r])), [selection]);
+    const setSelectedItems = (items: Map<string, SearchResult>) => setSelection(Array.from(items.values()));
 
-    const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-        const selectedFile = e.target.files?.[0];
-        if (!selectedFile) return;
+    // Session file opened by the user; its processes are the results until the next search
+    const [openedSession, setOpenedSession] = useState<{ fileName: string; session: SearchSession } | null>(null);
 
-        setFile(selectedFile);
-        setIsLoading(true);
-        setError(null);
-        setWorkbook(null);
+    // Saved list of client names / NITs / radicados, matched together in a single pass
+    const [watchlist, setWatchlist] = useLocalStore(watchlistStore);
+
+    // Column mapping dialog for one loaded file, and the mappings saved as named profiles
+    const [mappingFileId, setMappingFileId] = useState<string | null>(null);
+    const [columnProfiles, setColumnProfiles] = useLocalStore(columnProfilesStore);
+    // Header words the user added to the parser's dictionary, used for the files loaded next
+    const [dictionaryWords, setDictionaryWords] = useLocalStore(dictionaryWordsStore);
+
+    // Spreadsheet export of the selection; the chosen columns and their order are remembered
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportColumns, setExportColumns] = useLocalStore(exportColumnsStore);
+
+    // PDF report: saved templates, plus notes typed for the processes of this session
+    const [isReporting, setIsReporting] = useState(false);
+    const [reportTemplates, setReportTemplates] = useLocalStore(reportTemplatesStore);
+    const [processNotes, setProcessNotes] = useLocalStore(processNotesStore);
+
+    // Cases managed in "Mis procesos" (status, lawyer, término), fed from the selection
+    const [trackedCases, setTrackedCases] = useLocalStore(trackedCasesStore);
+    const trackedKeys = useMemo(() => new Set(trackedCases.map(c => c.key)), [trackedCases]);
+    const untrackedSelected = Array.from(selectedItems.keys()).filter(key => !trackedKeys.has(key)).length;
+
+    // Parsing and searching run in a Web Worker; the page only keeps file summaries and results
+    // A crashed worker is replaced by an empty one: the files it had parsed must be loaded again
+    const getClient = useBulletinClient(error => {
+        setBulletins([]);
         setResults([]);
         setHasSearched(false);
-        setSelectedItems(new Map()); // Clear selection on new file
+        setError(`${error.message}. Vuelve a cargar los boletines; si un archivo es muy grande, prueba dividiéndolo.`);
+    });
+    const [progress, setProgress] = useState<WorkProgress | null>(null);
+    const activeSearch = useRef<number | null>(null);
+
+    // Followed processes and their history across bulletins; each new file is compared on load
+    const [followState, setFollowState] = useLocalStore(followStore);
+    const [bulletinDiffs, setBulletinDiffs] = useState<BulletinDiff[]>([]);
+
+    // Looks the followed radicados up in a freshly loaded file and records what changed.
+    // Reads the store directly: several files load in a row and each builds on the last.
+    const checkFollowed = useCallback(async (fileId: string, stamp: BulletinStamp) => {
+        const current = followStore.get();
+        let found: SearchResult[] = [];
+        if (current.processes.length > 0) {
+            const radicados = Array.from(new Set(current.processes.map(p => p.radicado)));
+            found = await getClient().search(radicados, DEFAULT_MATCH_OPTIONS, 'radicado', [fileId]).done ?? [];
+        }
+        const { state, diff } = recordBulletin(followStore.get(), stamp, found);
+        setFollowState(state);
+        if (current.processes.length > 0) setBulletinDiffs(prev => [...prev, diff]);
+    }, [getClient, setFollowState]);
+
+    // Resolves with the bulletins that loaded
+    const handleFiles = useCallback(async (files: File[]) => {
+        const newFiles = files.filter(file => !bulletins.some(b => isSameFile(b, file)));
+        const added: LoadedBulletin[] = [];
+        if (newFiles.length === 0) return added;
+
+        setIsLoading(true);
+        setError(null);
+        // Selections and results of the files already loaded are kept
 
-        const reader = new FileReader();
-        reader.onload = (e) => {
+        const failed: string[] = [];
+        const loaded: BulletinRecord[] = [];
+        for (const file of newFiles) {
+            const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
             try {
-                const data = e.target?.result;
-                const wb = XLSX.read(data, { type: 'binary' });
-                setWorkbook(wb);
+                const summary = await getClient().load(id, file, setProgress, dictionaryWordsStore.get());
+                loaded.push({
+                    fileName: file.name,
+                    size: file.size,
+                    lastModified: file.lastModified,
+                    loadedAt: Date.now(),
+                    sheetCount: summary.sheets.length,
+                    rowCount: summary.rowCount,
+                });
+                const bulletin: LoadedBulletin = {
+                    id,
+                    fileName: file.name,
+                    size: file.size,
+                    lastModified: file.lastModified,
+                    enabled: true,
+                    ...summary,
+                };
+                added.push(bulletin);
+                setBulletins(prev => [...prev, bulletin]);
+                await checkFollowed(id, {
+                    id: bulletinStampId({ fileName: file.name, size: file.size, lastModified: file.lastModified }),
+                    fileName: file.name,
+                    checkedAt: Date.now(),
+                    despachos: bulletinDespachos(summary.juzgados),
+                });
             } catch (err) {
-                console.error("Error parsing Excel file:", err);
-                setError("Error al leer el archivo Excel. Asegúrate de que es un archivo válido.");
-            } finally {
-                setIsLoading(false);
+                console.error(`Error parsing bulletin ${file.name}:`, err);
+                failed.push(file.name);
             }
-        };
-        reader.readAsBinaryString(selectedFile);
-    }, []);
+        }
 
-    const handleSearch = useCallback(() => {
-        if (!workbook || !searchTerm.trim()) return;
+        setRecentBulletins(loaded.reduce(addRecentBulletin, recentBulletins));
+        if (failed.length > 0) {
+            setError(`Error al leer ${failed.join(', ')}. Asegúrate de que son boletines válidos (Excel, CSV, HTML, Word o PDF con texto).`);
+        }
+        setProgress(null);
+        setIsLoading(false);
+        return added;
+    }, [bulletins, getClient, checkFollowed, recentBulletins, setRecentBulletins]);
+
+    // Checks each row of every enabled file against all terms at the same time.
+    // Starting a new search cancels the one still running. Resolves with the rows found, null when cancelled.
+    // A shared link brings its own field and matching options, passed before the settings update.
+    const runSearch = useCallback(async (
+        terms: string[],
+        sources: LoadedBulletin[] = bulletins,
+        field: QueryField | null = searchField,
+        options: MatchOptions = matchOptions,
+    ) => {
+        if (terms.length === 0) return;
+
+        const client = getClient();
+        if (activeSearch.current !== null) client.cancel(activeSearch.current);
 
         setIsLoading(true);
         setHasSearched(true);
+        if (terms.join('\n') !== searchedTerms.join('\n')) setFacetSelection({ juzgados: [], estados: [] });
+        setSearchedTerms(terms);
+        setOpenedSession(null);
         // Note: We intentionally do NOT clear selectedItems here to persist selections
 
-        const term = searchTerm.toLowerCase();
-        const newResults: SearchResult[] = [];
-
-        workbook.SheetNames.forEach(sheetName => {
-            const sheet = workbook.Sheets[sheetName];
-            const jsonData = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: null }) as any[][];
-
-            let currentContext = '';
-            let currentStateContext = '';
-
-            jsonData.forEach((row, rowIndex) => {
-                // Heuristic: Identify "Juzgado" headers
-                const firstCell = row[0];
-                const secondCell = row[1];
-
-                if (firstCell && typeof firstCell === 'string' && (!secondCell || secondCell.toString().trim() === '')) {
-                    // Normalize: remove all spaces to check for keywords
-                    const text = firstCell.toString().toUpperCase().replace(/\s+/g, '');
-                    // Keywords that strongly suggest a court header (e.g. "S E P T I M O   C I V I L")
-                    const isCourtHeader =
-                        text.includes('CIRCUITO') ||
-                        text.includes('MUNICIPAL') ||
-                        text.includes('TRIBUNAL') ||
-                        text.includes('JUZGADO') ||
-                        text.includes('CONSEJO') ||
-                        text.includes('SUPREMA') ||
-                        text.includes('SALA') ||
-                        text.includes('FAMILIA') ||
-                        text.includes('LABORAL') ||
-                        text.includes('ADMINISTRATIVO') ||
-                        text.includes('PROMISCUO') ||
-                        text.includes('CIVIL') ||
-                        text.includes('PEQUEÑAS') ||
-                        text.includes('CAUSAS') ||
-                        text.includes('JUEZ') ||
-                        text.includes('DESPACHO') ||
-                        text.includes('PRIMERO') ||
-                        text.includes('SEGUNDO') ||
-                        text.includes('TERCERO') ||
-                        text.includes('CUARTO') ||
-                        text.includes('QUINTO') ||
-                        text.includes('SEXTO') ||
-                        text.includes('SEPTIMO') ||
-                        text.includes('OCTAVO') ||
-                        text.includes('NOVENO') ||
-                        text.includes('DECIMO');
-
-                    if (isCourtHeader && text.length > 5) {
-                        try {
-                            const raw = firstCell.toString().trim();
-                            // Strategy 1: Double spaces often separate words in spaced text
-                            if (raw.includes('  ')) {
-                                const words = raw.split(/\s{2,}/);
-                                const cleanedWords = words.map((w: string) => w.replace(/\s+/g, ''));
-                                currentContext = cleanedWords.join(' ');
-                            }
-                            // Strategy 2: Single space separation (e.g. "P R I M E R O D E F A M I L I A")
-                            // We attempt to identify this by checking if many single letters are space-separated.
-                            else if (/\s[A-Z]\s/.test(raw) || /^[A-Z](\s[A-Z])+$/.test(raw)) {
-                                // Remove ALL spaces to get "PRIMERODEFAMILIA"
-                                let compressed = raw.replace(/\s+/g, '');
-
-                                // Attempt to insert spaces before known keywords to separate them
-                                // This list must be ordered carefully (longest first usually helps)
-                                const KEYWORDS = [
-                                    'JUZGADO', 'PROMISCUO', 'MUNICIPAL', 'CIRCUITO', 'CIVIL', 'FAMILIA',
-                                    'LABORAL', 'ADMINISTRATIVO', 'TRIBUNAL', 'SUPERIOR', 'SALA', 'PENAL',
-                                    'PEQUEÑAS', 'CAUSAS', 'COMPETENCIA', 'MULTIPLE', 'ORAL', 'EJECUCION',
-                                    'SENTENCIAS', 'RESTITUCION', 'TIERRAS', 'TRANSITO', 'ADOLESCENTES',
-                                    'PRIMERO', 'SEGUNDO', 'TERCERO', 'CUARTO', 'QUINTO', 'SEXTO',
-                                    'SEPTIMO', 'OCTAVO', 'NOVENO', 'DECIMO', 'UNDECIMO', 'DUODECIMO',
-                                    'DE', 'DEL', 'EL', 'LA', 'LOS', 'LAS', 'Y', 'EN'
-                                ];
-
-                                // Sort by length desc
-                                const sortedKeywords = KEYWORDS.sort((a, b) => b.length - a.length);
-
-                                // Replace known keywords with space-padded versions
-                                // We iterate through sorted keywords and replace instances in the compressed string
-                                // NOTE: This is tricky because "DE" matches inside "DEMANDA".
-                                // However, court headers are usually constructed from these words exclusively.
-
-                                // Alternative approach: tokenizing is hard. 
-                                // Let's try to match keywords from the raw string if we can, OR simply rely on the compressed string 
-                                // and accept some merged words if we can't do better.
-                                // BUT, the user specifically complained about "separados".
-                                // "SEXTODEFAMILIA" is better than "S E X T O...".
-
-                                // Let's try to reconstruct spacing by matching keywords in the compressed string.
-                                let reconstructed = compressed;
-                                sortedKeywords.forEach(word => {
-                                    // Only replace if the word exists and we haven't already messed it up?
-                                    // A global replace might be safe enough for these specific strings.
-                                    // Use a temporary placeholder or just spaces?
-                                    // Let's protect "DEMANDA" type collisions?
-                                    // Actually, "DEMANDA" is not a keyword here. "DE" is.
-                                    // "DE" is dangerous.
-                                    if (word.length > 3) {
-                                        const regex = new RegExp(word, 'g');
-                                        reconstructed = reconstructed.replace(regex, ` ${word} `);
-                                    }
-                                });
-                                // Handle short words carefully?
-                                // "DE", "DEL", "Y", "LA"
-                                // Maybe only replace if they are surrounded by known long keywords?
-                                // For now, let's just stick with the "remove all spaces" strategy if it's spaced out text,
-                                // and try to add spaces for big words.
-
-                                currentContext = reconstructed.replace(/\s+/g, ' ').trim();
-
-                            } else {
-                                // Default fallback: use the raw text if it doesn't look like spaced-out letters
-                                currentContext = raw;
-                            }
-
-                            // --- NEW LOGIC START ---
-                            if (currentContext) {
-                                // 1. Normalize to UPPERCASE
-                                let context = currentContext.toUpperCase();
-
-                                // 2. Expand abbreviations
-                                context = context.replace(/^JDO\.?\s*/, 'JUZGADO ');
-                                context = context.replace(/^J\.\s*/, 'JUZGADO ');
-
-                                // 3. Prepend "JUZGADO" if it starts with a number (and doesn't already have JUZGADO)
-                                if (/^\d/.test(context) && !context.startsWith('JUZGADO')) {
-                                    context = 'JUZGADO ' + context;
-                                }
-
-                                currentContext = context;
-                            }
-                            // --- NEW LOGIC END ---
-
-                        } catch (e) {
-                            currentContext = firstCell.trim();
-                        }
-                    }
-
-                    // Heuristic: Identify "Estado" / "Date" headers
-                    // e.g. "ESTADO 18 DEL 10 FEBRERO 2026" or "ESTADOS EDICTOS Y TRASLADOS NO HAN SIDO FIJADOS"
-                    if (firstCell && typeof firstCell === 'string' && (!secondCell || secondCell.toString().trim() === '')) {
-                        const text = firstCell.toString().toUpperCase().trim();
-                        if (text.startsWith('ESTADO') || text.includes('FIJADO') || text.includes('FEBRERO') || text.includes('ENERO') || text.includes('MARZO') || text.includes('ABRIL') || text.includes('MAYO') || text.includes('JUNIO') || text.includes('JULIO') || text.includes('AGOSTO') || text.includes('SEPTIEMBRE') || text.includes('OCTUBRE') || text.includes('NOVIEMBRE') || text.includes('DICIEMBRE')) {
-                            // This is likely a date/state header, NOT a court header
-                            // Prioritize it as state context, but ensure it doesn't overwrite court context if logic overlaps
-                            // Actually, these are usually distinct lines.
-                            if (!isCourtHeader) {
-                                currentStateContext = text;
-                            }
-                        }
-                    }
-                }
-
-                // Search in all columns of the row
-                const rowString = row.map(cell => String(cell || '').toLowerCase()).join(' ');
-                if (rowString.includes(term)) {
-                    newResults.push({
-                        sheetName,
-                        rowIndex: rowIndex + 1, // 1-based index for display
-                        data: row,
-                        id: `${sheetName}-${rowIndex}`,
-                        context: currentContext,
-                        stateContext: currentStateContext
-                    });
-                }
-            });
-        });
+        const fileIds = sources.filter(b => b.enabled).map(b => b.id);
+        const { requestId, done } = client.search(terms, options, field, fileIds, setProgress);
+        activeSearch.current = requestId;
 
-        setResults(newResults);
+        try {
+            const found = await done;
+            if (found) setResults(found);
+            return found;
+        } catch (err) {
+            console.error("Error en la búsqueda:", err);
+            setError("Error al buscar en los boletines. Revisa la consola.");
+            return null;
+        } finally {
+            if (activeSearch.current === requestId) {
+                activeSearch.current = null;
+                setProgress(null);
+                setIsLoading(false);
+            }
+        }
+    }, [bulletins, matchOptions, searchField, searchedTerms, getClient]);
+
+    const cancelSearch = () => {
+        if (activeSearch.current === null) return;
+        getClient().cancel(activeSearch.current);
+        activeSearch.current = null;
+        setProgress(null);
         setIsLoading(false);
-    }, [workbook, searchTerm]);
+    };
+
+    const toggleBulletin = (id: string) => {
+        const updated = bulletins.map(b => b.id === id ? { ...b, enabled: !b.enabled } : b);
+        setBulletins(updated);
+        if (hasSearched) runSearch(searchedTerms, updated);
+    };
+
+    // Drops the file together with its results and selections; other files are untouched
+    const removeBulletin = (id: string) => {
+        getClient().remove(id);
+        setBulletins(prev => prev.filter(b => b.id !== id));
+        setResults(prev => prev.filter(r => r.fileId !== id));
+        setSelectedItems(new Map(Array.from(selectedItems).filter(([, r]) => r.fileId !== id)));
+    };
+
+    // The worker gets the new mapping first, so the search that follows already uses it.
+    // Selected rows keep their data, only where the fields are read from changes.
+    const applyColumns = (id: string, sheetNames: string[], columns: ColumnMapping) => {
+        const client = getClient();
+        sheetNames.forEach(sheetName => client.setColumns(id, sheetName, columns));
+
+        const affects = (r: SearchResult) => r.fileId === id && sheetNames.includes(r.sheetName);
+        const remap = (r: SearchResult): SearchResult => ({
+            ...r,
+            columns,
+            radicado: columns.radicado === undefined ? null : parseRadicado(r.data[columns.radicado]),
+        });
+        const updated = bulletins.map(b => b.id !== id ? b : {
+            ...b,
+            sheets: b.sheets.map(sheet => sheetNames.includes(sheet.name) ? { ...sheet, columns } : sheet),
+        });
+        setBulletins(updated);
+        setSelection(selection.map(r => affects(r) ? remap(r) : r));
+        if (hasSearched) runSearch(searchedTerms, updated);
+    };
+
+    // Results follow the search box as the user types, once the input settles
+    const typingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const handleTermChange = (value: string) => {
+        setSearchTerm(value);
+        if (typingTimer.current) clearTimeout(typingTimer.current);
+        if (!hasBulletins || value.trim().length < MIN_INSTANT_SEARCH_LENGTH) return;
+        typingTimer.current = setTimeout(() => runSearch([value.trim()]), SEARCH_DEBOUNCE_MS);
+    };
+
+    // Only searches confirmed with Enter or the button are remembered, not every pause while typing
+    const handleSearch = useCallback((term: string = searchTerm) => {
+        if (typingTimer.current) clearTimeout(typingTimer.current);
+        if (!term.trim()) return;
+        setSearchTerm(term);
+        setRecentSearches(addRecentSearch(recentSearches, term));
+        runSearch([term.trim()]);
+    }, [runSearch, searchTerm, recentSearches, setRecentSearches]);
+
+    const handleWatchlistSearch = useCallback(() => {
+        runSearch(watchlist.map(e => e.term));
+    }, [runSearch, watchlist]);
+
+    // Search box, filters and settings as a shared link or a session file left them
+    const applySearchState = (state: SearchState) => {
+        setSearchTerm(state.terms.length === 1 ? state.terms[0] : '');
+        setSettings({ ...settings, searchField: state.searchField, matchOptions: state.matchOptions, sort: state.filters.sort });
+        setDateRange({ dateFrom: state.filters.dateFrom, dateTo: state.filters.dateTo });
+    };
+
+    // A shared link only holds the search: it runs once the colleague loads their own copy of the bulletin
+    const openBulletins = async (files: File[]) => {
+        const added = await handleFiles(files);
+        const shared = hasSearched ? null : searchStateFromQuery(window.location.search);
+        if (!shared || added.length === 0) return;
+        applySearchState(shared);
+        runSearch(shared.terms, [...bulletins, ...added], shared.searchField, shared.matchOptions);
+        // After runSearch, which clears the facets of a new search
+        setFacetSelection({ juzgados: shared.filters.juzgados, estados: shared.filters.estados });
+    };
+
+    // Bulletins opened with "Abrir con" from the installed app
+    useLaunchFiles(openBulletins);
+
+    // The address follows the search, so copying it shares what is on screen. Replaced, not
+    // pushed: every debounced search while typing would otherwise be a history entry.
+    useEffect(() => {
+        if (!hasSearched) return;
+        const query = searchStateToQuery({ terms: searchedTerms, searchField, matchOptions, filters: resultFilters });
+        window.history.replaceState(null, '', `${window.location.pathname}${query}`);
+    }, [hasSearched, searchedTerms, searchField, matchOptions, resultFilters]);
+
+    const saveCurrentSession = () => {
+        const search = { terms: searchedTerms, searchField, matchOptions, filters: resultFilters };
+        const fileNames = openedSession?.session.bulletins ?? bulletins.filter(b => b.enabled).map(b => b.fileName);
+        saveSession(createSession(search, fileNames, Array.from(selectedItems.values()), processNotes));
+    };
+
+    // Restores the selection, its notes and the filters without the bulletins: the saved rows
+    // become the results, so they can be reviewed, exported and reported as they were
+    const openSession = async (file: File) => {
+        try {
+            const session = await readSession(file);
+            if (activeSearch.current !== null) cancelSearch();
+            applySearchState(session.search);
+            setFacetSelection({ juzgados: session.search.filters.juzgados, estados: session.search.filters.estados });
+            setSelection(session.processes);
+            setProcessNotes({ ...processNotes, ...session.notes });
+            setResults(session.processes);
+            setSearchedTerms(session.search.terms);
+            setHasSearched(true);
+            setOpenedSession({ fileName: file.name, session });
+            setError(null);
+        } catch (err) {
+            console.error("Error al abrir la sesión:", err);
+            setError(err instanceof Error ? err.message : "Error al abrir la sesión.");
+        }
+    };
+
+    // Client list crossed against the bulletins: one term per client through the same search,
+    // so its rows also show up below grouped by client
+    const [clientList, setClientList] = useLocalStore(clientListStore);
+    const [clientCross, setClientCross] = useState<ClientMatch[] | null>(null);
+
+    const changeClientList = (list: ClientList) => {
+        setClientList(list);
+        setClientCross(null);
+    };
+
+    const handleClientCross = async () => {
+        const terms = Array.from(new Set(clientList.clients.map(clientTerm).filter(Boolean)));
+        // Client terms name their fields and are exact: the search box field and fuzzy setting do not apply
+        const found = await runSearch(terms, bulletins, null, DEFAULT_MATCH_OPTIONS);
+        if (found) setClientCross(crossClients(clientList.clients, found));
+    };
+
+    const exportClientCross = (format: 'xlsx' | 'pdf') => {
+        if (!clientCross) return;
+        try {
+            const fileName = `cruce_de_estados_${todayISO()}.${format}`;
+            if (format === 'xlsx') {
+                exportCrossToExcel(clientCross, exportColumns, fileName);
+            } else {
+                // Firm name and logo of the first saved report template
+                const fileNames = bulletins.filter(b => b.enabled).map(b => b.fileName);
+                saveAs(buildCrossReport(clientCross, reportTemplates[0] ?? DEFAULT_REPORT_TEMPLATE, fileNames), fileName);
+            }
+        } catch (err) {
+            console.error("Error al exportar el cruce:", err);
+            setError("Error al exportar el cruce de clientes. Revisa la consola.");
+        }
+    };
+
+    // Statistics of the enabled files, computed on demand; `key` tells when the files changed since
+    const [bulletinStats, setBulletinStats] = useState<{ key: string; stats: BulletinStats } | null>(null);
+    const enabledIds = bulletins.filter(b => b.enabled).map(b => b.id);
+    const statsKey = enabledIds.join('|');
+
+    const loadStats = async () => {
+        try {
+            const stats = await getClient().stats(enabledIds);
+            setBulletinStats({ key: statsKey, stats });
+        } catch (err) {
+            console.error("Error al calcular las estadísticas:", err);
+            setError("Error al calcular las estadísticas del boletín. Revisa la consola.");
+        }
+    };
+
+    const exportStats = () => {
+        if (!bulletinStats) return;
+        try {
+            exportStatsToExcel(bulletinStats.stats, sheetStats(bulletins), `estadisticas_${todayISO()}.xlsx`);
+        } catch (err) {
+            console.error("Error al exportar las estadísticas:", err);
+            setError("Error al exportar las estadísticas. Revisa la consola.");
+        }
+    };
+
+    // Results after the fixation date range, facets and sort chosen in the results header
+    const visibleResults = useMemo(() => applyResultFilters(results, resultFilters), [results, resultFilters]);
+    const facetCounts = useMemo(() => resultFacets(results, resultFilters), [results, resultFilters]);
+
+    // One group per searched term, keeping terms without hits so "no news" is visible per client
+    const groupedResults = useMemo(() => searchedTerms.map(term => ({
+        term,
+        results: visibleResults.filter(r => r.matches.some(m => m.term === term))
+    })), [visibleResults, searchedTerms]);
+
+    // Rows of the virtualized list: the results, preceded by a heading per term when several
+    // terms were searched (a result matching two terms shows under both)
+    const listItems: ResultListItem[] = useMemo(() => searchedTerms.length > 1
+        ? groupedResults.flatMap(group => [
+            { kind: 'group' as const, key: `group|${group.term}`, term: group.term, count: group.results.length },
+            ...group.results.map(result => ({ kind: 'result' as const, key: `${group.term}|${result.fileId}|${result.id}`, result })),
+        ])
+        : visibleResults.map(result => ({ kind: 'result' as const, key: `${result.fileId}|${result.id}`, result })),
+    [searchedTerms, groupedResults, visibleResults]);
 
     // Trigger search on Enter key
     const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -250,10 +458,11 @@ export default function Home() {
 
     const toggleSelection = (result: SearchResult) => {
         const newSelected = new Map(selectedItems);
-        if (newSelected.has(result.id)) {
-            newSelected.delete(result.id);
+        const key = processKey(result);
+        if (newSelected.has(key)) {
+            newSelected.delete(key);
         } else {
-            newSelected.set(result.id, result);
+            newSelected.set(key, result);
         }
         setSelectedItems(newSelected);
     };
@@ -262,84 +471,387 @@ export default function Home() {
         const newSelected = new Map(selectedItems);
 
         // Check if all currently visible results are selected
-        const allVisibleSelected = results.length > 0 && results.every(r => newSelected.has(r.id));
+        const allVisibleSelected = visibleResults.length > 0 && visibleResults.every(r => newSelected.has(processKey(r)));
 
         if (allVisibleSelected) {
             // Deselect visible results
-            results.forEach(r => newSelected.delete(r.id));
+            visibleResults.forEach(r => newSelected.delete(processKey(r)));
         } else {
             // Select all visible results
-            results.forEach(r => newSelected.set(r.id, r));
+            visibleResults.forEach(r => newSelected.set(processKey(r), r));
         }
         setSelectedItems(newSelected);
     };
 
-    const clearSelection = () => {
-        setSelectedItems(new Map());
+    const followedKeys = useMemo(() => new Set(followState.processes.map(p => p.key)), [followState]);
+
+    const toggleFollow = (result: SearchResult) => {
+        const key = processKey(result);
+        if (followedKeys.has(key)) {
+            setFollowState(unfollowProcess(followState, key));
+            return;
+        }
+        const bulletin = bulletins.find(b => b.id === result.fileId);
+        const id = bulletin ? bulletinStampId(bulletin) : result.fileName;
+        const stamp = followState.bulletins.find(b => b.id === id) ?? { id, fileName: result.fileName, checkedAt: Date.now(), despachos: bulletin ? bulletinDespachos(bulletin.juzgados) : undefined };
+        setFollowState(followProcess(followState, result, stamp));
     };
 
-    const generatePDF = () => {
+    // Row detail: the region is read from the worker after the panel opens
+    const [detail, setDetail] = useState<{ result: SearchResult; region: SheetRegion | null; error: string | null } | null>(null);
+
+    const openDetail = async (result: SearchResult) => {
+        setDetail({ result, region: null, error: null });
         try {
-            console.log("Iniciando generación de PDF...");
-            const doc = new jsPDF({ orientation: 'landscape' });
-            console.log("Documento PDF creado");
+            const region = await getClient().region(result.fileId, result.sheetName, result.rowIndex - 1);
+            setDetail(prev => prev?.result.id === result.id ? { ...prev, region } : prev);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            setDetail(prev => prev?.result.id === result.id ? { ...prev, error: message } : prev);
+        }
+    };
 
-            const selectedResults = Array.from(selectedItems.values());
-            console.log(`Elementos seleccionados: ${selectedResults.length}`);
+    // The continuation rows join the record in the worker too, so later searches return it merged
+    const mergeDetail = () => {
+        if (!detail?.region) return;
+        const { result, region } = detail;
+        getClient().merge(result.fileId, result.sheetName, region.rowIndex, region.continuation);
 
-            if (selectedResults.length === 0) {
-                console.warn("No hay elementos seleccionados");
-                return;
+        const rows = region.rows.filter(row => region.continuation.includes(row.rowIndex)).map(row => row.data);
+        const merged: SearchResult = { ...result, data: mergeContinuation(result.data, rows), mergedRows: region.continuation };
+        const folded = (r: SearchResult) => r.fileId === result.fileId && r.sheetName === result.sheetName && region.continuation.includes(r.rowIndex - 1);
+        const replace = (list: SearchResult[]) => list.flatMap(r => r.id === result.id ? [merged] : folded(r) ? [] : [r]);
+        setResults(replace(results));
+        setSelection(replace(selection));
+        setDetail({ ...detail, result: merged });
+    };
+
+    const clearSelection = () => {
+        setSelectedItems(new Map());
+    };
+
+    const searchInputRef = useRef<HTMLInputElement>(null);
+
+    // Page shortcuts; the results list handles j / k / x itself
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            // Dialogs and fields keep their keys
+            if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target) || document.querySelector('[aria-modal="true"]')) return;
+            switch (e.key) {
+                case '/':
+                    e.preventDefault();
+                    searchInputRef.current?.focus();
+                    searchInputRef.current?.select();
+                    return;
+                case 'e':
+                    if (selectedItems.size > 0) setIsExporting(true);
+                    return;
             }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
 
-            doc.setFontSize(18);
-            doc.text('Reporte de Procesos Seleccionados', 14, 22);
-
-            doc.setFontSize(11);
-            doc.text(`Fecha: ${new Date().toLocaleDateString()}`, 14, 30);
-            doc.text(`Total seleccionados: ${selectedResults.length}`, 14, 36);
-
-            const tableData = selectedResults.map(r => [
-                r.context || 'Sin asignar', // Juzgado / Origen
-                r.stateContext || '-', // Estado / Fecha (New Column)
-                r.data[0] || '-', // Radicado
-                r.data[1] || '-', // Demandante
-                r.data[2] || '-', // Demandado
-                r.data[3] || '-', // Estado / Actuación
-                r.sheetName
-            ]);
-
-            console.log("Datos de tabla preparados", tableData);
-
-            autoTable(doc, {
-                startY: 44,
-                head: [['Juzgado', 'Estado / Fecha', 'Radicado', 'Demandante', 'Demandado', 'Actuación', 'Hoja']],
-                body: tableData,
-                theme: 'grid',
-                headStyles: { fillColor: [37, 99, 235] }, // Blue-600
-                styles: { fontSize: 8, cellPadding: 2 }, // Increased font size slightly for landscape
-                // Removed fixed columnStyles to allow auto-sizing in landscape
-            });
-
-            console.log("Tabla generada, guardando archivo...");
-
-            // Use file-saver for robust saving
-            const pdfBlob = doc.output('blob');
-            saveAs(pdfBlob, 'reporte_procesos.pdf');
-
-            console.log("Archivo guardado (método file-saver)");
+    // Read out by screen readers whenever it changes
+    const announcement = resultsAnnouncement({
+        searching: isLoading,
+        searched: hasSearched,
+        shown: visibleResults.length,
+        total: results.length,
+        selected: selectedItems.size,
+    });
+
+    const generatePDF = (template: ReportTemplate) => {
+        try {
+            const selectedResults = Array.from(selectedItems.values());
+            if (selectedResults.length === 0) return;
+            saveAs(buildReport(selectedResults, template, processNotes), reportFileName(template));
+            setIsReporting(false);
         } catch (err) {
             console.error("Error al generar PDF:", err);
             setError("Error al generar el PDF. Revisa la consola.");
         }
     };
 
+    const exportSelection = (format: 'xlsx' | 'csv') => {
+        try {
+            const selectedResults = Array.from(selectedItems.values());
+            const fileName = `procesos_${todayISO()}.${format}`;
+            if (format === 'xlsx') exportToExcel(selectedResults, exportColumns, fileName);
+            else exportToCSV(selectedResults, exportColumns, fileName);
+            setIsExporting(false);
+        } catch (err) {
+            console.error("Error al exportar:", err);
+            setError("Error al exportar los procesos. Revisa la consola.");
+        }
+    };
+
+    // Cell text with the ranges the matcher returned for that column highlighted.
+    // CONTEXT_COLUMN and ESTADO_COLUMN stand for the juzgado and estado headers.
+    const renderCell = (result: SearchResult, column: number | undefined) => {
+        if (column === undefined) return '-';
+        const text = column === CONTEXT_COLUMN ? result.context ?? ''
+            : column === ESTADO_COLUMN ? result.stateContext ?? ''
+            : String(result.data[column] ?? '');
+        return <Highlight text={text} ranges={result.matches.flatMap(m => m.ranges).filter(r => r.column === column)} />;
+    };
+
+    // Serial dates are formatted, so the matcher's offsets (on the raw number) do not apply:
+    // the searched terms are looked up in the formatted text instead
+    const renderField = (result: SearchResult, field: ColumnField) =>
+        field === 'fechaAuto' && typeof result.data[result.columns.fechaAuto ?? -1] === 'number'
+            ? <Highlight text={fieldText(result.data, result.columns, field)} terms={highlightTerms} />
+            : renderCell(result, result.columns[field]);
+
+    const renderResultCard = (result: SearchResult, active: boolean) => {
+        return (
+            <div
+                className={cn(
+                    "group bg-white p-6 rounded-xl border transition-all cursor-pointer relative",
+                    selectedItems.has(processKey(result))
+                        ? "border-blue-500 shadow-md bg-blue-50/10"
+                        : "border-gray-200 shadow-sm hover:shadow-md hover:border-blue-200",
+                    active && "ring-2 ring-blue-500"
+                )}
+            >
+                <div className="absolute top-6 left-4" aria-hidden="true">
+                    <div className={cn(
+                        "w-5 h-5 rounded border flex items-center justify-center transition-colors",
+                        selectedItems.has(processKey(result)) ? "bg-blue-600 border-blue-600" : "border-gray-300 group-hover:border-blue-400"
+                    )}>
+                        {selectedItems.has(processKey(result)) && <CheckSquare className="w-3.5 h-3.5 text-white" />}
+                    </div>
+                </div>
+
+                <div className="pl-8">
+                    <div className="flex items-center justify-between mb-4 pb-3 border-b border-gray-100">
+                        <div className="flex items-center gap-2 flex-wrap">
+                            {bulletins.length > 1 && (
+                                <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs font-semibold rounded max-w-[200px] truncate" title={result.fileName}>
+                                    {result.fileName}
+                                </span>
+                            )}
+                            <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-semibold rounded uppercase tracking-wide">
+                                Hoja: {result.sheetName}
+                            </span>
+                            {result.context && (
+                                <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs font-semibold rounded uppercase tracking-wide max-w-[200px] truncate" title={result.context}>
+                                    {renderCell(result, CONTEXT_COLUMN)}
+                                </span>
+                            )}
+                            {result.matches.map(match => (
+                                <span
+                                    key={match.term}
+                                    className={cn(
+                                        "px-2 py-1 text-xs font-semibold rounded",
+                                        match.score === 1 ? "bg-green-100 text-green-700" : "bg-orange-100 text-orange-700"
+                                    )}
+                                    title={match.score === 1 ? 'Coincidencia exacta' : 'Coincidencia aproximada'}
+                                >
+                                    {searchedTerms.length > 1 && `${match.term} · `}{Math.round(match.score * 100)}%
+                                </span>
+                            ))}
+                            <span className="text-sm text-gray-500 ml-auto">Fila {result.rowIndex}</span>
+                            {followedKeys.has(processKey(result)) && (
+                                <span title="Proceso seguido">
+                                    <BellRing className="w-4 h-4 text-blue-600" aria-label="Proceso seguido" />
+                                </span>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Prominent State/Date Display */}
+                    {result.stateContext && (
+                        <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 p-2 rounded-lg text-sm font-bold text-center uppercase tracking-wide">
+                            {renderCell(result, ESTADO_COLUMN)}
+                            {result.estado?.fecha && (
+                                <span className="block text-xs font-medium normal-case text-yellow-700">
+                                    {result.estado.numero !== null && `Estado N.º ${result.estado.numero} · `}Fijado el {formatDate(result.estado.fecha)}
+                                </span>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 text-sm">
+                        <div className="space-y-1">
+                            <span className="block text-xs font-medium text-gray-500 uppercase">Radicado / ID</span>
+                            {result.radicado && !result.radicado.warning ? (
+                                <>
+                                    <p className="font-mono text-gray-900 break-all" title={result.radicado.raw}>
+                                        <Highlight
+                                            text={result.radicado.formatted}
+                                            ranges={result.matches.some(m => m.ranges.some(r => r.column === result.columns.radicado))
+                                                ? [{ start: 0, end: result.radicado.formatted.length }]
+                                                : undefined}
+                                            terms={highlightTerms}
+                                        />
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        {result.radicado.complete
+                                            ? `Año ${result.radicado.parts.anio} · Consec. ${result.radicado.parts.consecutivo} · Despacho ${despachoCode(result.radicado.parts)}`
+                                            : `Año ${result.radicado.parts.anio} · Consec. ${result.radicado.parts.consecutivo}`}
+                                    </p>
+                                </>
+                            ) : (
+                                <>
+                                    <p className="font-mono text-gray-900 break-all">{renderField(result, 'radicado')}</p>
+                                    {result.radicado?.warning && (
+                                        <p className="flex items-center gap-1 text-xs text-orange-600">
+                                            <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                                            {result.radicado.warning}
+                                        </p>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                        <div className="space-y-1">
+                            <span className="block text-xs font-medium text-gray-500 uppercase">Demandante</span>
+                            <p className="font-semibold text-gray-900">{renderField(result, 'demandante')}</p>
+                        </div>
+                        <div className="space-y-1">
+                            <span className="block text-xs font-medium text-gray-500 uppercase">Demandado</span>
+                            <p className="font-semibold text-gray-900">{renderField(result, 'demandado')}</p>
+                        </div>
+                        <div className="space-y-1">
+                            <span className="block text-xs font-medium text-gray-500 uppercase">Actuación</span>
+                            <p className="text-gray-600 line-clamp-3 hover:line-clamp-none transition-all">{renderField(result, 'actuacion')}</p>
+                        </div>
+                    </div>
+
+                    {(result.columns.clase !== undefined || result.columns.fechaAuto !== undefined) && (
+                        <div className="mt-3 flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                            {result.columns.clase !== undefined && (
+                                <p><span className="text-xs font-medium text-gray-500 uppercase mr-2">Clase de proceso</span>{renderField(result, 'clase')}</p>
+                            )}
+                            {result.columns.fechaAuto !== undefined && (
+                                <p><span className="text-xs font-medium text-gray-500 uppercase mr-2">Fecha auto</span>{renderField(result, 'fechaAuto')}</p>
+                            )}
+                        </div>
+                    )}
+
+                    {unmappedColumns(result.data, result.columns).length > 0 && (
+                        <div className="mt-4 pt-3 border-t border-gray-50 text-xs text-gray-500">
+                            <span className="font-medium mr-2">Otros datos:</span>
+                            {unmappedColumns(result.data, result.columns).map((column, i) => (
+                                <span key={column}>{i > 0 && ' | '}{renderCell(result, column)}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    // Compact one-line row of the table view; same selection behaviour as the cards
+    const renderResultRow = (result: SearchResult, active: boolean) => {
+        const selected = selectedItems.has(processKey(result));
+        return (
+            <div
+                className={cn(
+                    TABLE_COLUMNS,
+                    "px-3 py-2 text-sm border-b border-gray-100 cursor-pointer",
+                    selected ? "bg-blue-50" : "bg-white hover:bg-gray-50",
+                    active && "ring-2 ring-inset ring-blue-500"
+                )}
+            >
+                <div aria-hidden="true" className={cn(
+                    "w-4 h-4 rounded border flex items-center justify-center",
+                    selected ? "bg-blue-600 border-blue-600" : "border-gray-300"
+                )}>
+                    {selected && <CheckSquare className="w-3 h-3 text-white" />}
+                </div>
+                <span className="font-mono text-xs truncate" title={result.radicado?.formatted}>
+                    {result.radicado && !result.radicado.warning
+                        ? <Highlight text={result.radicado.formatted} terms={highlightTerms} />
+                        : renderField(result, 'radicado')}
+                </span>
+                <span className="truncate">{renderField(result, 'demandante')}</span>
+                <span className="truncate font-medium">{renderField(result, 'demandado')}</span>
+                <span className="truncate text-purple-700 text-xs" title={result.context}>{renderCell(result, CONTEXT_COLUMN)}</span>
+                <span className="text-xs text-gray-600 tabular-nums">{formatDate(result.estado?.fecha) || '-'}</span>
+                <span className="truncate text-xs text-gray-600" title={fieldText(result.data, result.columns, 'actuacion')}>
+                    {renderField(result, 'actuacion')}
+                </span>
+            </div>
+        );
+    };
+
+    const renderListItem = (item: ResultListItem, active: boolean) => item.kind === 'group' ? (
+        <div className={cn("flex items-center gap-3", settings.view === 'cards' ? "pt-2" : "px-3 py-2 bg-gray-50 border-b border-gray-200")}>
+            <h3 className="text-base font-bold text-gray-800">{item.term}</h3>
+            <span className={cn(
+                "px-2 py-0.5 text-xs font-semibold rounded-full",
+                item.count > 0 ? "bg-blue-100 text-blue-700" : "bg-gray-100 text-gray-500"
+            )}>
+                {item.count} resultado{item.count !== 1 && 's'}
+            </span>
+        </div>
+    ) : settings.view === 'cards' ? renderResultCard(item.result, active) : renderResultRow(item.result, active);
+
+    // Toolbar of the result under the keyboard cursor: the options of the listbox hold no controls
+    const renderResultActions = (item: ResultListItem) => {
+        if (item.kind !== 'result') return null;
+        const { result } = item;
+        const followed = followedKeys.has(processKey(result));
+        return (
+            <>
+                <span className="font-mono text-xs text-gray-700 truncate">
+                    {result.radicado?.formatted ?? `Fila ${result.rowIndex}`}
+                </span>
+                <button
+                    onClick={() => openDetail(result)}
+                    className="flex items-center gap-1.5 ml-auto px-2 py-1 text-gray-600 hover:text-blue-600 rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                >
+                    <FileSearch className="w-4 h-4" />
+                    Ver la fila en el boletín
+                </button>
+                {canFollow(result) && (
+                    <button
+                        onClick={() => toggleFollow(result)}
+                        className={cn(
+                            "flex items-center gap-1.5 px-2 py-1 rounded transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500",
+                            followed ? "text-blue-600 hover:text-red-600" : "text-gray-600 hover:text-blue-600"
+                        )}
+                        title={followed ? 'Dejar de seguir' : 'Seguir este proceso en los próximos boletines'}
+                        aria-pressed={followed}
+                    >
+                        {followed ? <BellRing className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                        Seguir
+                    </button>
+                )}
+            </>
+        );
+    };
+
     return (
         <main className="min-h-screen bg-gray-50 p-8 font-sans text-gray-900">
+            <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
             <div className="max-w-6xl mx-auto space-y-8">
 
                 {/* Header */}
-                <div className="text-center space-y-2">
+                <div className="relative text-center space-y-2">
+                    <label className="absolute left-0 top-0 flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-blue-600 bg-white border border-gray-200 rounded-lg hover:bg-blue-50 transition-colors cursor-pointer focus-within:ring-2 focus-within:ring-blue-500">
+                        <FolderOpen className="w-4 h-4" />
+                        Abrir sesión
+                        <input
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) openSession(file);
+                            }}
+                            className="sr-only"
+                        />
+                    </label>
+                    <Link
+                        href="/mis-procesos"
+                        className="absolute right-0 top-0 flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-blue-600 bg-white border border-gray-200 rounded-lg hover:bg-blue-50 transition-colors"
+                    >
+                        <Briefcase className="w-4 h-4" />
+                        Mis procesos
+                        {trackedCases.length > 0 && <span className="text-gray-500">({trackedCases.length})</span>}
+                    </Link>
                     <h1 className="text-4xl font-extrabold tracking-tight text-gray-900 sm:text-5xl">
                         Buscador de Procesos
                     </h1>
@@ -351,39 +863,22 @@ export default function Home() {
                 {/* Upload Section */}
                 <div className={cn(
                     "bg-white p-8 rounded-xl shadow-sm border transition-all duration-300",
-                    workbook ? "border-green-200 shadow-md ring-1 ring-green-100" : "border-gray-100 hover:shadow-md"
+                    hasBulletins ? "border-green-200 shadow-md ring-1 ring-green-100" : "border-gray-100 hover:shadow-md"
                 )}>
-                    <div className={cn(
-                        "flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-10 transition-colors cursor-pointer relative",
-                        workbook ? "border-green-300 bg-green-50/50" : "border-gray-300 hover:bg-gray-50"
-                    )}>
-                        <input
-                            type="file"
-                            accept=".xlsx, .xls"
-                            onChange={handleFileUpload}
-                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                        />
-                        <div className="flex flex-col items-center space-y-4">
-                            <div className={cn(
-                                "p-4 rounded-full transition-colors",
-                                workbook ? "bg-green-100 text-green-600" : "bg-blue-50 text-blue-600"
-                            )}>
-                                {workbook ? <CheckSquare className="w-8 h-8" /> : <FileSpreadsheet className="w-8 h-8" />}
-                            </div>
-                            <div className="text-center space-y-1">
-                                <p className={cn("text-lg font-medium", workbook ? "text-green-800" : "text-gray-700")}>
-                                    {file ? file.name : "Arrastra tu archivo Excel aquí o haz clic para subir"}
-                                </p>
-                                {workbook ? (
-                                    <p className="text-green-600 font-semibold animate-in fade-in slide-in-from-bottom-1">
-                                        ¡Archivo cargado exitosamente! Ya puedes realizar tu búsqueda.
-                                    </p>
-                                ) : (
-                                    <p className="text-sm text-gray-500">Soporta archivos .xlsx y .xls</p>
-                                )}
-                            </div>
+                    <BulletinFiles
+                        bulletins={bulletins}
+                        isLoading={isLoading}
+                        onFiles={openBulletins}
+                        onToggle={toggleBulletin}
+                        onRemove={removeBulletin}
+                        onMapColumns={setMappingFileId}
+                        recent={recentBulletins}
+                    />
+                    {progress?.phase === 'parse' && (
+                        <div className="mt-4">
+                            <ProgressBar progress={progress} />
                         </div>
-                    </div>
+                    )}
                     {error && (
                         <div className="mt-4 flex items-center text-red-600 bg-red-50 p-3 rounded-lg animate-in fade-in">
                             <AlertCircle className="w-5 h-5 mr-2" />
@@ -392,29 +887,136 @@ export default function Home() {
                     )}
                 </div>
 
+                {hasBulletins && (
+                    <StatsPanel
+                        stats={bulletinStats?.stats ?? null}
+                        stale={!!bulletinStats && bulletinStats.key !== statsKey}
+                        sheets={sheetStats(bulletins)}
+                        onRefresh={loadStats}
+                        onExport={exportStats}
+                    />
+                )}
+
+                <DictionaryPanel words={dictionaryWords} onChange={setDictionaryWords} />
+
                 {/* Search Section */}
-                <div className={cn("transition-all duration-500", workbook ? "opacity-100 translate-y-0" : "opacity-50 translate-y-4 pointer-events-none")}>
+                <div className={cn("transition-all duration-500", hasBulletins ? "opacity-100 translate-y-0" : "opacity-50 translate-y-4 pointer-events-none")}>
                     <div className="flex gap-4">
                         <div className="relative flex-1">
                             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
                             <input
+                                ref={searchInputRef}
                                 type="text"
-                                placeholder="Buscar por nombre de empresa o persona (ej: Sobusa, Nancy...)"
+                                aria-label="Buscar en los boletines"
+                                placeholder='Buscar por nombre, NIT o radicado (ej: Sobusa, 2023-00123, demandado:"Banco X" -actuacion:archivo)'
                                 className="w-full pl-10 pr-4 py-3 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-lg shadow-sm"
                                 value={searchTerm}
-                                onChange={(e) => setSearchTerm(e.target.value)}
+                                onChange={(e) => handleTermChange(e.target.value)}
                                 onKeyDown={handleKeyDown}
-                                disabled={!workbook}
+                                disabled={!hasBulletins}
                             />
                         </div>
                         <button
-                            onClick={handleSearch}
-                            disabled={!workbook || !searchTerm.trim() || isLoading}
+                            onClick={() => handleSearch()}
+                            disabled={!hasBulletins || !searchTerm.trim() || isLoading}
                             className="px-8 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 shadow-sm"
                         >
                             {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : "Buscar"}
                         </button>
                     </div>
+                    {progress?.phase === 'search' && (
+                        <div className="mt-3">
+                            <ProgressBar progress={progress} onCancel={cancelSearch} />
+                        </div>
+                    )}
+                    <div className="mt-3 flex items-center gap-4 text-sm text-gray-600">
+                        <label className="flex items-center gap-2">
+                            Buscar en
+                            <select
+                                value={searchField ?? ''}
+                                onChange={(e) => setSettings({ ...settings, searchField: (e.target.value || null) as QueryField | null })}
+                                className="px-2 py-1 rounded border border-gray-200 bg-white"
+                            >
+                                <option value="">Todos los campos</option>
+                                {QUERY_FIELDS.map(({ field, label }) => <option key={field} value={field}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={matchOptions.fuzzy}
+                                onChange={(e) => setSettings({ ...settings, matchOptions: { ...matchOptions, fuzzy: e.target.checked } })}
+                                className="rounded border-gray-300"
+                            />
+                            Búsqueda aproximada (tolera errores de digitación)
+                        </label>
+                        {matchOptions.fuzzy && (
+                            <label className="flex items-center gap-2">
+                                Máximo de letras distintas
+                                <select
+                                    value={matchOptions.maxEdits}
+                                    onChange={(e) => setSettings({ ...settings, matchOptions: { ...matchOptions, maxEdits: Number(e.target.value) } })}
+                                    className="px-2 py-1 rounded border border-gray-200 bg-white"
+                                >
+                                    {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </label>
+                        )}
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500">
+                        Combina términos con <code>OR</code>, <code>NOT</code> o <code>-</code> y paréntesis; limita un término a un campo
+                        con <code>demandante:</code>, <code>demandado:</code>, <code>radicado:</code>, <code>actuacion:</code>, <code>clase:</code>,
+                        {' '}<code>fecha:</code>, <code>juzgado:</code> o <code>estado:</code>. Usa comillas para frases exactas.
+                    </p>
+                    {recentSearches.length > 0 && (
+                        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                            <span className="flex items-center gap-1 text-gray-500">
+                                <History className="w-4 h-4" />
+                                Recientes:
+                            </span>
+                            {recentSearches.map(query => (
+                                <button
+                                    key={query}
+                                    onClick={() => handleSearch(query)}
+                                    className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded hover:bg-blue-50 hover:text-blue-700 transition-colors max-w-[240px] truncate"
+                                    title={query}
+                                >
+                                    {query}
+                                </button>
+                            ))}
+                            <button onClick={() => setRecentSearches([])} className="text-xs text-gray-400 hover:text-red-600">
+                                Borrar historial
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                <FollowedPanel
+                    state={followState}
+                    diffs={bulletinDiffs}
+                    onUnfollow={(key) => setFollowState(unfollowProcess(followState, key))}
+                />
+
+                {/* Watchlist Section */}
+                <div className={cn("transition-all duration-500", hasBulletins ? "opacity-100" : "opacity-50 pointer-events-none")}>
+                    <WatchlistPanel
+                        entries={watchlist}
+                        onChange={setWatchlist}
+                        onSearch={handleWatchlistSearch}
+                        disabled={!hasBulletins || isLoading}
+                    />
+                </div>
+
+                <div className={cn("transition-all duration-500", hasBulletins ? "opacity-100" : "opacity-50 pointer-events-none")}>
+                    <ClientCrossPanel
+                        list={clientList}
+                        onListChange={changeClientList}
+                        report={clientCross}
+                        onCross={handleClientCross}
+                        onExcel={() => exportClientCross('xlsx')}
+                        onPDF={() => exportClientCross('pdf')}
+                        disabled={!hasBulletins || isLoading}
+                    />
                 </div>
 
                 {/* Global Actions Bar - Always visible if items are selected */}
@@ -438,7 +1040,31 @@ export default function Home() {
                                 Limpiar
                             </button>
                             <button
-                                onClick={generatePDF}
+                                onClick={() => setIsExporting(true)}
+                                className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+                            >
+                                <Sheet className="w-4 h-4" />
+                                Excel / CSV
+                            </button>
+                            <button
+                                onClick={saveCurrentSession}
+                                className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+                                title="Archivo con los procesos seleccionados, sus notas y la búsqueda, para abrirlo en otro equipo"
+                            >
+                                <Save className="w-4 h-4" />
+                                Guardar sesión
+                            </button>
+                            <button
+                                onClick={() => setTrackedCases(trackResults(trackedCases, Array.from(selectedItems.values())))}
+                                className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+                                title={untrackedSelected === 0 ? 'Ya están en Mis procesos; agregarlos de nuevo actualiza su estado' : undefined}
+                            >
+                                <Briefcase className="w-4 h-4" />
+                                Agregar a Mis procesos
+                                {untrackedSelected > 0 && untrackedSelected < selectedItems.size && ` (${untrackedSelected} nuevos)`}
+                            </button>
+                            <button
+                                onClick={() => setIsReporting(true)}
                                 className="px-4 py-2 bg-white text-blue-600 text-sm font-bold rounded-lg hover:bg-blue-50 transition-colors flex items-center gap-2 shadow-sm"
                             >
                                 <FileDown className="w-4 h-4" />
@@ -452,15 +1078,40 @@ export default function Home() {
                 {hasSearched && (
                     <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
 
+                        {openedSession && (
+                            <div className="flex items-start gap-3 p-4 rounded-xl bg-blue-50 border border-blue-200 text-sm text-blue-900">
+                                <FolderOpen className="w-5 h-5 shrink-0 text-blue-600" />
+                                <div className="min-w-0">
+                                    <p>
+                                        <span className="font-semibold">{openedSession.fileName}</span>
+                                        {openedSession.session.savedAt && <> · guardada el {formatDate(localISODate(new Date(openedSession.session.savedAt)))}</>}
+                                        {' '}· {openedSession.session.processes.length} proceso{openedSession.session.processes.length !== 1 && 's'}
+                                    </p>
+                                    {openedSession.session.bulletins.length > 0 && (
+                                        <p className="text-blue-700 truncate" title={openedSession.session.bulletins.join(', ')}>
+                                            Boletín{openedSession.session.bulletins.length !== 1 && 'es'}: {openedSession.session.bulletins.join(', ')}
+                                        </p>
+                                    )}
+                                    <p className="text-xs text-blue-700">
+                                        Se muestran los procesos guardados. Carga el boletín y busca de nuevo para ver sus filas vecinas o resultados nuevos.
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Results Header with Actions */}
-                        <div className="flex items-center justify-between bg-white p-4 rounded-xl border border-gray-200 shadow-sm z-10">
+                        <div className="flex flex-wrap items-center justify-between gap-3 bg-white p-4 rounded-xl border border-gray-200 shadow-sm z-10">
                             <div className="flex items-center gap-4">
                                 <button
                                     onClick={toggleSelectAll}
-                                    className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
-                                    disabled={results.length === 0}
+                                    role="checkbox"
+                                    aria-checked={visibleResults.length > 0 && visibleResults.every(r => selectedItems.has(processKey(r)))
+                                        ? true
+                                        : visibleResults.some(r => selectedItems.has(processKey(r))) ? 'mixed' : false}
+                                    className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                                    disabled={visibleResults.length === 0}
                                 >
-                                    {results.length > 0 && results.every(r => selectedItems.has(r.id)) ? (
+                                    {visibleResults.length > 0 && visibleResults.every(r => selectedItems.has(processKey(r))) ? (
                                         <CheckSquare className="w-5 h-5 text-blue-600" />
                                     ) : (
                                         <Square className="w-5 h-5" />
@@ -468,102 +1119,170 @@ export default function Home() {
                                     Seleccionar todo visible
                                 </button>
                                 <div className="h-6 w-px bg-gray-200" />
-                                <h2 className="text-lg font-bold text-gray-800">
-                                    {results.length} resultado{results.length !== 1 && 's'}
+                                <h2 id="results-heading" className="text-lg font-bold text-gray-800">
+                                    {visibleResults.length} resultado{visibleResults.length !== 1 && 's'}
+                                    {visibleResults.length !== results.length && (
+                                        <span className="text-sm font-normal text-gray-500"> de {results.length}</span>
+                                    )}
                                 </h2>
+                                {searchedTerms.length > 1 && (
+                                    <span className="text-sm text-gray-500">
+                                        {groupedResults.filter(g => g.results.length > 0).length} de {searchedTerms.length} términos con coincidencias
+                                    </span>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-3 text-sm text-gray-600">
+                                <label className="flex items-center gap-2">
+                                    Fijación desde
+                                    <input
+                                        type="date"
+                                        value={resultFilters.dateFrom}
+                                        onChange={(e) => setDateRange(prev => ({ ...prev, dateFrom: e.target.value }))}
+                                        className="px-2 py-1 rounded border border-gray-200"
+                                    />
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    hasta
+                                    <input
+                                        type="date"
+                                        value={resultFilters.dateTo}
+                                        onChange={(e) => setDateRange(prev => ({ ...prev, dateTo: e.target.value }))}
+                                        className="px-2 py-1 rounded border border-gray-200"
+                                    />
+                                </label>
+                                <select
+                                    value={resultFilters.sort}
+                                    onChange={(e) => setSettings({ ...settings, sort: e.target.value as ResultSort })}
+                                    className="px-2 py-1 rounded border border-gray-200 bg-white"
+                                >
+                                    {RESULT_SORTS.map(({ sort, label }) => <option key={sort} value={sort}>{label}</option>)}
+                                </select>
+                                <div className="flex rounded border border-gray-200 overflow-hidden">
+                                    <button
+                                        onClick={() => setSettings({ ...settings, view: 'cards' })}
+                                        className={cn("p-1.5", settings.view === 'cards' ? "bg-blue-600 text-white" : "bg-white text-gray-500 hover:text-gray-800")}
+                                        title="Ver como tarjetas"
+                                    >
+                                        <LayoutList className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => setSettings({ ...settings, view: 'table' })}
+                                        className={cn("p-1.5", settings.view === 'table' ? "bg-blue-600 text-white" : "bg-white text-gray-500 hover:text-gray-800")}
+                                        title="Ver como tabla compacta"
+                                    >
+                                        <Table2 className="w-4 h-4" />
+                                    </button>
+                                </div>
                             </div>
                         </div>
 
-                        {results.length === 0 ? (
+                        <p className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                            {SHORTCUTS.map(({ keys, label }) => (
+                                <span key={label}>
+                                    {keys.map((key, i) => (
+                                        <span key={key}>
+                                            {i > 0 && ' / '}
+                                            <kbd className="px-1.5 py-0.5 rounded border border-gray-300 bg-white font-mono text-[11px] text-gray-700">{key}</kbd>
+                                        </span>
+                                    ))}
+                                    {' '}{label}
+                                </span>
+                            ))}
+                        </p>
+
+                        {results.length > 0 && (facetCounts.juzgados.length > 1 || facetCounts.estados.length > 1 || facetSelection.juzgados.length + facetSelection.estados.length > 0) && (
+                            <ResultFacets
+                                facets={facetCounts}
+                                selected={facetSelection}
+                                onChange={(facet, values) => setFacetSelection(prev => ({ ...prev, [facet]: values }))}
+                            />
+                        )}
+
+                        {searchedTerms.length <= 1 && visibleResults.length === 0 ? (
                             <div className="text-center py-12 bg-white rounded-xl border border-gray-200 shadow-sm">
-                                <p className="text-gray-500 text-lg">No se encontraron resultados para "{searchTerm}"</p>
+                                <p className="text-gray-500 text-lg">
+                                    {results.length === 0
+                                        ? <>No se encontraron resultados para &quot;{searchedTerms[0]}&quot;</>
+                                        : 'Ningún resultado coincide con los filtros seleccionados'}
+                                </p>
                             </div>
                         ) : (
-                            <div className="grid gap-4">
-                                {results.map((result, idx) => (
-                                    <div
-                                        key={result.id}
-                                        className={cn(
-                                            "group bg-white p-6 rounded-xl border transition-all cursor-pointer relative",
-                                            selectedItems.has(result.id)
-                                                ? "border-blue-500 shadow-md bg-blue-50/10"
-                                                : "border-gray-200 shadow-sm hover:shadow-md hover:border-blue-200"
-                                        )}
-                                        onClick={() => toggleSelection(result)}
-                                    >
-                                        <div className="absolute top-6 left-4">
-                                            <div className={cn(
-                                                "w-5 h-5 rounded border flex items-center justify-center transition-colors",
-                                                selectedItems.has(result.id) ? "bg-blue-600 border-blue-600" : "border-gray-300 group-hover:border-blue-400"
-                                            )}>
-                                                {selectedItems.has(result.id) && <CheckSquare className="w-3.5 h-3.5 text-white" />}
-                                            </div>
-                                        </div>
-
-                                        <div className="pl-8">
-                                            <div className="flex items-center justify-between mb-4 pb-3 border-b border-gray-100">
-                                                <div className="flex items-center gap-2 flex-wrap">
-                                                    <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-semibold rounded uppercase tracking-wide">
-                                                        Hoja: {result.sheetName}
-                                                    </span>
-                                                    {result.context && (
-                                                        <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs font-semibold rounded uppercase tracking-wide max-w-[200px] truncate" title={result.context}>
-                                                            {result.context}
-                                                        </span>
-                                                    )}
-                                                    <span className="text-sm text-gray-500 ml-auto">Fila {result.rowIndex}</span>
-                                                </div>
-                                            </div>
-
-                                            {/* Prominent State/Date Display */}
-                                            {result.stateContext && (
-                                                <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 p-2 rounded-lg text-sm font-bold text-center uppercase tracking-wide">
-                                                    {result.stateContext}
-                                                </div>
-                                            )}
-
-                                            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 text-sm">
-                                                <div className="space-y-1">
-                                                    <span className="block text-xs font-medium text-gray-500 uppercase">Radicado / ID</span>
-                                                    <p className="font-mono text-gray-900 break-all">{result.data[0] || '-'}</p>
-                                                </div>
-                                                <div className="space-y-1">
-                                                    <span className="block text-xs font-medium text-gray-500 uppercase">Demandante / Parte 1</span>
-                                                    <p className="font-semibold text-gray-900">{result.data[1] || '-'}</p>
-                                                </div>
-                                                <div className="space-y-1">
-                                                    <span className="block text-xs font-medium text-gray-500 uppercase">Demandado / Juzgado</span>
-                                                    <div
-                                                        className="font-semibold text-gray-900"
-                                                        dangerouslySetInnerHTML={{
-                                                            __html: (result.data[2] || '-').toString().replace(
-                                                                new RegExp(`(${searchTerm})`, 'gi'),
-                                                                '<mark class="bg-yellow-200 text-gray-900 px-0.5 rounded">$1</mark>'
-                                                            )
-                                                        }}
-                                                    />
-                                                </div>
-                                                <div className="space-y-1">
-                                                    <span className="block text-xs font-medium text-gray-500 uppercase">Estado / Actuación</span>
-                                                    <p className="text-gray-600 line-clamp-3 hover:line-clamp-none transition-all">{result.data[3] || '-'}</p>
-                                                </div>
-                                            </div>
-
-                                            {result.data.length > 4 && (
-                                                <div className="mt-4 pt-3 border-t border-gray-50 text-xs text-gray-500">
-                                                    <span className="font-medium mr-2">Otros datos:</span>
-                                                    {result.data.slice(4).filter(Boolean).join(' | ')}
-                                                </div>
-                                            )}
-                                        </div>
+                            <ResultsListbox
+                                key={`${settings.view}|${searchedTerms.join('\n')}`}
+                                id={RESULTS_LIST_ID}
+                                labelledBy="results-heading"
+                                items={listItems}
+                                itemKey={resultListKey}
+                                isOption={isResultItem}
+                                isSelected={item => item.kind === 'result' && selectedItems.has(processKey(item.result))}
+                                onToggle={item => { if (item.kind === 'result') toggleSelection(item.result); }}
+                                onOpen={item => { if (item.kind === 'result') openDetail(item.result); }}
+                                renderItem={renderListItem}
+                                renderActions={renderResultActions}
+                                header={settings.view === 'table' && (
+                                    <div className={cn(TABLE_COLUMNS, "px-3 py-2 text-xs font-medium text-gray-500 uppercase bg-gray-50 border-b border-gray-200")}>
+                                        <span />
+                                        <span>Radicado</span>
+                                        <span>Demandante</span>
+                                        <span>Demandado</span>
+                                        <span>Juzgado</span>
+                                        <span>Fijación</span>
+                                        <span>Actuación</span>
                                     </div>
-                                ))}
-                            </div>
+                                )}
+                                estimatedHeight={settings.view === 'cards' ? 260 : 37}
+                                gap={settings.view === 'cards' ? 16 : 0}
+                                frameClassName={cn(settings.view === 'table' && "bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden")}
+                                className="max-h-[80vh] rounded-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                            />
                         )}
                     </div>
                 )}
 
             </div>
+
+            {mappingFileId && bulletins.some(b => b.id === mappingFileId) && (
+                <ColumnMappingDialog
+                    bulletin={bulletins.find(b => b.id === mappingFileId)!}
+                    profiles={columnProfiles}
+                    onProfilesChange={setColumnProfiles}
+                    onApply={(sheetNames, columns) => applyColumns(mappingFileId, sheetNames, columns)}
+                    onClose={() => setMappingFileId(null)}
+                />
+            )}
+
+            {isExporting && selectedItems.size > 0 && (
+                <ExportDialog
+                    count={selectedItems.size}
+                    columns={exportColumns}
+                    onColumnsChange={setExportColumns}
+                    onExcel={() => exportSelection('xlsx')}
+                    onCSV={() => exportSelection('csv')}
+                    onClose={() => setIsExporting(false)}
+                />
+            )}
+
+            {detail && (
+                <RowDetailDrawer
+                    result={detail.result}
+                    region={detail.region}
+                    error={detail.error}
+                    onMerge={mergeDetail}
+                    onClose={() => setDetail(null)}
+                />
+            )}
+
+            {isReporting && selectedItems.size > 0 && (
+                <ReportDialog
+                    results={Array.from(selectedItems.values())}
+                    templates={reportTemplates}
+                    onTemplatesChange={setReportTemplates}
+                    notes={processNotes}
+                    onNotesChange={setProcessNotes}
+                    onGenerate={generatePDF}
+                    onClose={() => setIsReporting(false)}
+                />
+            )}
         </main>
     );
 }
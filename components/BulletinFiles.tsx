@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { FileSpreadsheet, FolderOpen, CheckSquare, Square, Trash2, Loader2, Columns3 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { collectDroppedFiles, isBulletinFile, type LoadedBulletin } from '@/lib/bulletin/files';
+import { BULLETIN_ACCEPT } from '@/lib/bulletin/formats';
+import type { BulletinRecord } from '@/lib/recent';
+import { formatDate, localISODate } from '@/lib/dates';
+
+interface BulletinFilesProps {
+    bulletins: LoadedBulletin[];
+    isLoading: boolean;
+    onFiles: (files: File[]) => void;
+    onToggle: (id: string) => void;
+    onRemove: (id: string) => void;
+    onMapColumns: (id: string) => void;
+    recent?: BulletinRecord[]; // Bulletins of earlier visits, listed while nothing is loaded
+}
+
+export default function BulletinFiles({ bulletins, isLoading, onFiles, onToggle, onRemove, onMapColumns, recent = [] }: BulletinFilesProps) {
+    const [isDragging, setIsDragging] = useState(false);
+    const hasFiles = bulletins.length > 0;
+
+    const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []).filter(f => isBulletinFile(f.name));
+        if (files.length > 0) onFiles(files);
+        e.target.value = ''; // Allow picking the same file again after removing it
+    };
+
+    const handleDrop = async (e: React.DragEvent<HTMLElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const files = await collectDroppedFiles(e.dataTransfer);
+        if (files.length > 0) onFiles(files);
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* The file input stays in the tab order (visually hidden); the whole zone is its label */}
+            <label
+                className={cn(
+                    "flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-10 transition-colors cursor-pointer relative",
+                    "focus-within:ring-2 focus-within:ring-blue-500 focus-within:ring-offset-2",
+                    isDragging ? "border-blue-400 bg-blue-50" : hasFiles ? "border-green-300 bg-green-50/50" : "border-gray-300 hover:bg-gray-50"
+                )}
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+            >
+                <input
+                    type="file"
+                    accept={BULLETIN_ACCEPT}
+                    multiple
+                    onChange={handleInput}
+                    aria-describedby="bulletin-formats"
+                    className="sr-only"
+                />
+                <div className="flex flex-col items-center space-y-4">
+                    <div className={cn(
+                        "p-4 rounded-full transition-colors",
+                        hasFiles ? "bg-green-100 text-green-600" : "bg-blue-50 text-blue-600"
+                    )}>
+                        {isLoading ? <Loader2 className="w-8 h-8 animate-spin" /> : hasFiles ? <CheckSquare className="w-8 h-8" /> : <FileSpreadsheet className="w-8 h-8" />}
+                    </div>
+                    <div className="text-center space-y-1">
+                        <p className={cn("text-lg font-medium", hasFiles ? "text-green-800" : "text-gray-700")}>
+                            Arrastra tus boletines o una carpeta aquí, o haz clic para subir
+                        </p>
+                        <p id="bulletin-formats" className="text-sm text-gray-500">Soporta varios archivos a la vez: Excel, CSV, HTML, Word (.docx) y PDF</p>
+                    </div>
+                </div>
+            </label>
+
+            <label className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 cursor-pointer rounded focus-within:ring-2 focus-within:ring-blue-500">
+                <FolderOpen className="w-4 h-4" />
+                Seleccionar una carpeta
+                <input
+                    type="file"
+                    multiple
+                    onChange={handleInput}
+                    className="sr-only"
+                    // Non-standard attribute, supported by Chromium, Firefox and Safari
+                    {...{ webkitdirectory: '' }}
+                />
+            </label>
+
+            {!hasFiles && recent.length > 0 && (
+                <div className="text-sm text-gray-500 space-y-1">
+                    <p className="font-medium text-gray-600">Últimos boletines cargados (vuelve a subirlos para buscar en ellos):</p>
+                    <ul className="space-y-0.5">
+                        {recent.map(record => (
+                            <li key={`${record.fileName}-${record.loadedAt}`}>
+                                {record.fileName} · {record.rowCount} filas · cargado el {formatDate(localISODate(new Date(record.loadedAt)))}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {hasFiles && (
+                <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                    {bulletins.map(bulletin => (
+                        <li key={bulletin.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                            <button
+                                onClick={() => onToggle(bulletin.id)}
+                                className="text-gray-500 hover:text-gray-900"
+                                title={bulletin.enabled ? 'Excluir de la búsqueda' : 'Incluir en la búsqueda'}
+                            >
+                                {bulletin.enabled ? <CheckSquare className="w-5 h-5 text-blue-600" /> : <Square className="w-5 h-5" />}
+                            </button>
+                            <span className={cn("font-medium truncate", bulletin.enabled ? "text-gray-900" : "text-gray-400 line-through")}>
+                                {bulletin.fileName}
+                            </span>
+                            <span className="text-gray-500 ml-auto whitespace-nowrap">
+                                {bulletin.sheets.length} hoja{bulletin.sheets.length !== 1 && 's'} · {bulletin.rowCount} filas
+                            </span>
+                            <button
+                                onClick={() => onMapColumns(bulletin.id)}
+                                className={cn(
+                                    "hover:text-blue-600",
+                                    bulletin.sheets.some(s => s.rowCount > 0 && !s.detected) ? "text-orange-500" : "text-gray-400"
+                                )}
+                                title={bulletin.sheets.some(s => s.rowCount > 0 && !s.detected)
+                                    ? 'Configurar columnas (hay hojas sin títulos de columna)'
+                                    : 'Configurar columnas'}
+                            >
+                                <Columns3 className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => onRemove(bulletin.id)}
+                                className="text-gray-400 hover:text-red-600"
+                                title="Quitar archivo"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
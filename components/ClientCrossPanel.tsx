@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, FileSpreadsheet, FileText, Trash2, Upload, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fieldText } from '@/lib/columns';
+import { formatDate } from '@/lib/dates';
+import { CLIENT_MATCH_STATUSES, clientMatchLabel, readClientList, type ClientList, type ClientMatch, type ClientMatchStatus } from '@/lib/clients';
+
+interface ClientCrossPanelProps {
+    list: ClientList;
+    onListChange: (list: ClientList) => void;
+    report: ClientMatch[] | null; // Outcome of the last cross, null before the first one
+    onCross: () => void;
+    onExcel: () => void;
+    onPDF: () => void;
+    disabled?: boolean;
+}
+
+const STATUS_CLASSES: Record<ClientMatchStatus, string> = {
+    match: 'bg-green-100 text-green-700',
+    ambiguous: 'bg-orange-100 text-orange-700',
+    none: 'bg-gray-100 text-gray-500',
+};
+
+export default function ClientCrossPanel({ list, onListChange, report, onCross, onExcel, onPDF, disabled }: ClientCrossPanelProps) {
+    const [error, setError] = useState<string | null>(null);
+    const [statusFilter, setStatusFilter] = useState<ClientMatchStatus | null>(null);
+    const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Picking the same file again after editing it still fires onChange
+        if (!file) return;
+        try {
+            const clients = await readClientList(file);
+            if (clients.length === 0) {
+                setError(`No se encontraron clientes en ${file.name}. La hoja debe tener columnas de nombre, NIT / cédula o código.`);
+                return;
+            }
+            setError(null);
+            onListChange({ fileName: file.name, clients });
+        } catch (err) {
+            console.error('Error leyendo la lista de clientes:', err);
+            setError(`No se pudo leer ${file.name}.`);
+        }
+    };
+
+    const toggleExpanded = (id: string) => {
+        const next = new Set(expanded);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setExpanded(next);
+    };
+
+    const shown = report?.filter(m => !statusFilter || m.status === statusFilter) ?? [];
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                    <Users className="w-5 h-5 text-blue-600" />
+                    <h2 className="text-lg font-bold text-gray-800">Cruce de clientes</h2>
+                    <span className="text-sm text-gray-500">({list.clients.length})</span>
+                    {list.fileName && <span className="text-xs text-gray-400 truncate" title={list.fileName}>{list.fileName}</span>}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                    <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer flex items-center gap-1 rounded focus-within:ring-2 focus-within:ring-blue-500">
+                        <Upload className="w-4 h-4" />
+                        {list.clients.length > 0 ? 'Cambiar lista' : 'Cargar lista'}
+                        <input type="file" accept=".xlsx,.xls,.ods,.csv,.txt" onChange={handleFile} className="sr-only" />
+                    </label>
+                    {list.clients.length > 0 && (
+                        <button
+                            onClick={() => onListChange({ fileName: null, clients: [] })}
+                            className="text-sm text-gray-500 hover:text-red-600 transition-colors flex items-center gap-1"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                            Vaciar
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <p className="text-sm text-gray-500">
+                Sube la hoja de clientes (Excel o CSV con nombre, NIT / cédula y código interno). Cada cliente se busca como demandante
+                o demandado por su nombre y en toda la fila por su documento.
+            </p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+                onClick={onCross}
+                disabled={disabled || list.clients.length === 0}
+                className="w-full px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+            >
+                <Users className="w-4 h-4" />
+                Cruzar clientes con los boletines
+            </button>
+
+            {report && (
+                <div className="space-y-3 border-t border-gray-100 pt-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                        {CLIENT_MATCH_STATUSES.map(({ status, label }) => (
+                            <button
+                                key={status}
+                                onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+                                className={cn(
+                                    "px-2 py-1 text-xs font-semibold rounded-full",
+                                    STATUS_CLASSES[status],
+                                    statusFilter === status && "ring-2 ring-offset-1 ring-blue-400"
+                                )}
+                            >
+                                {label}: {report.filter(m => m.status === status).length}
+                            </button>
+                        ))}
+                        <div className="ml-auto flex gap-2">
+                            <button
+                                onClick={onExcel}
+                                className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 flex items-center gap-2"
+                            >
+                                <FileSpreadsheet className="w-4 h-4" />
+                                Excel
+                            </button>
+                            <button
+                                onClick={onPDF}
+                                className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 flex items-center gap-2"
+                            >
+                                <FileText className="w-4 h-4" />
+                                PDF
+                            </button>
+                        </div>
+                    </div>
+
+                    <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                        {shown.map(({ client, status, results, reasons }) => {
+                            const open = expanded.has(client.id);
+                            return (
+                                <li key={client.id} className="py-2 text-sm">
+                                    <button
+                                        onClick={() => toggleExpanded(client.id)}
+                                        disabled={results.length === 0}
+                                        className="w-full flex items-center gap-2 text-left disabled:cursor-default"
+                                    >
+                                        {results.length > 0
+                                            ? open ? <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 shrink-0" />
+                                            : <span className="w-4 shrink-0" />}
+                                        <span className="flex-1 min-w-0">
+                                            <span className="font-medium text-gray-900">{client.name || client.document}</span>
+                                            <span className="text-xs text-gray-500">
+                                                {client.name && client.document && ` · ${client.document}`}
+                                                {client.code && ` · Código ${client.code}`}
+                                            </span>
+                                            {reasons.length > 0 && <span className="block text-xs text-orange-700">{reasons.join(' · ')}</span>}
+                                        </span>
+                                        <span className="text-xs text-gray-500 tabular-nums">{results.length}</span>
+                                        <span className={cn("px-2 py-0.5 text-xs font-semibold rounded-full", STATUS_CLASSES[status])}>
+                                            {clientMatchLabel(status)}
+                                        </span>
+                                    </button>
+                                    {open && (
+                                        <ul className="mt-2 ml-6 space-y-1 text-xs text-gray-600">
+                                            {results.map(r => (
+                                                <li key={r.id} className="flex flex-wrap gap-x-3">
+                                                    <span className="font-mono text-gray-900">{r.radicado?.formatted || fieldText(r.data, r.columns, 'radicado') || '-'}</span>
+                                                    <span>{[fieldText(r.data, r.columns, 'demandante'), fieldText(r.data, r.columns, 'demandado')].filter(Boolean).join(' vs. ')}</span>
+                                                    <span className="text-purple-700">{r.context || 'Sin asignar'}</span>
+                                                    {r.estado?.fecha && <span>Estado {formatDate(r.estado.fecha)}</span>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
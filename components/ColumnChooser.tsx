@@ -0,0 +1,59 @@
+'use client';
+
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { exportLabel, type ExportColumnChoice } from '@/lib/export';
+
+interface ColumnChooserProps {
+    columns: ExportColumnChoice[];
+    onChange: (columns: ExportColumnChoice[]) => void;
+}
+
+// Checkbox per column plus up / down buttons to reorder, shared by the spreadsheet and PDF exports
+export default function ColumnChooser({ columns, onChange }: ColumnChooserProps) {
+    const toggle = (index: number) => {
+        onChange(columns.map((c, i) => i === index ? { ...c, enabled: !c.enabled } : c));
+    };
+
+    const move = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= columns.length) return;
+        const next = [...columns];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    return (
+        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {columns.map((column, index) => (
+                <li key={column.key} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                    <label className="flex items-center gap-2 flex-1 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={column.enabled}
+                            onChange={() => toggle(index)}
+                            className="rounded border-gray-300"
+                        />
+                        <span className={cn(column.enabled ? "text-gray-900" : "text-gray-400")}>{exportLabel(column.key)}</span>
+                    </label>
+                    <button
+                        onClick={() => move(index, -1)}
+                        disabled={index === 0}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        title="Subir"
+                    >
+                        <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => move(index, 1)}
+                        disabled={index === columns.length - 1}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        title="Bajar"
+                    >
+                        <ArrowDown className="w-4 h-4" />
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import { Columns3, Save, Trash2, X } from 'lucide-react';
+import type { LoadedBulletin } from '@/lib/bulletin/files';
+import { COLUMN_FIELDS, columnLetter, fieldText, sameMapping, type ColumnField, type ColumnMapping } from '@/lib/columns';
+import type { ColumnProfile } from '@/lib/columnProfiles';
+
+interface ColumnMappingDialogProps {
+    bulletin: LoadedBulletin;
+    profiles: ColumnProfile[];
+    onProfilesChange: (profiles: ColumnProfile[]) => void;
+    onApply: (sheetNames: string[], mapping: ColumnMapping) => void;
+    onClose: () => void;
+}
+
+export default function ColumnMappingDialog({ bulletin, profiles, onProfilesChange, onApply, onClose }: ColumnMappingDialogProps) {
+    const [sheetName, setSheetName] = useState(bulletin.sheets[0]?.name ?? '');
+    const sheet = bulletin.sheets.find(s => s.name === sheetName);
+    const [draft, setDraft] = useState<ColumnMapping>(sheet?.columns ?? {});
+    const [allSheets, setAllSheets] = useState(false);
+    const [profileName, setProfileName] = useState('');
+
+    const columnCount = Math.max(sheet?.headerRow?.length ?? 0, sheet?.sample?.length ?? 0);
+    const columnTitle = (column: number) => {
+        const title = sheet?.headerRow?.[column] ?? sheet?.sample?.[column];
+        return title === null || title === undefined || title === '' ? columnLetter(column) : `${columnLetter(column)} · ${title}`;
+    };
+
+    const selectSheet = (name: string) => {
+        setSheetName(name);
+        setDraft(bulletin.sheets.find(s => s.name === name)?.columns ?? {});
+    };
+
+    const setField = (field: ColumnField, value: string) => {
+        const next = { ...draft };
+        if (value === '') delete next[field];
+        else next[field] = Number(value);
+        setDraft(next);
+    };
+
+    const saveProfile = () => {
+        const name = profileName.trim();
+        if (!name) return;
+        // Saving under an existing name updates that profile
+        const existing = profiles.find(p => p.name.toLowerCase() === name.toLowerCase());
+        onProfilesChange(existing
+            ? profiles.map(p => p.id === existing.id ? { ...p, mapping: draft } : p)
+            : [...profiles, { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name, mapping: draft }]);
+        setProfileName('');
+    };
+
+    const apply = () => {
+        onApply(allSheets ? bulletin.sheets.map(s => s.name) : [sheetName], draft);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-30 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="column-mapping-title"
+                className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Columns3 className="w-5 h-5 text-blue-600" />
+                        <h2 id="column-mapping-title" className="text-lg font-bold text-gray-800">Columnas de {bulletin.fileName}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-3 text-sm text-gray-600">
+                    <label className="flex items-center gap-2">
+                        Hoja
+                        <select
+                            value={sheetName}
+                            onChange={(e) => selectSheet(e.target.value)}
+                            className="px-2 py-1 rounded border border-gray-200 bg-white"
+                        >
+                            {bulletin.sheets.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+                        </select>
+                    </label>
+                    <span className="text-xs text-gray-500">
+                        {sheet?.detected ? 'Títulos de columna detectados' : 'Sin fila de títulos: se usa el orden por defecto'}
+                    </span>
+                    {sheet?.detected && !sameMapping(draft, sheet.detected) && (
+                        <button onClick={() => setDraft(sheet.detected!)} className="ml-auto text-xs text-blue-600 hover:text-blue-800">
+                            Restaurar detección
+                        </button>
+                    )}
+                </div>
+
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                            <th className="pb-2">Campo</th>
+                            <th className="pb-2">Columna</th>
+                            <th className="pb-2">Primera fila</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {COLUMN_FIELDS.map(({ field, label }) => (
+                            <tr key={field}>
+                                <td className="py-2 font-medium text-gray-800">{label}</td>
+                                <td className="py-2">
+                                    <select
+                                        value={draft[field] ?? ''}
+                                        onChange={(e) => setField(field, e.target.value)}
+                                        className="w-full max-w-[220px] px-2 py-1 rounded border border-gray-200 bg-white truncate"
+                                    >
+                                        <option value="">— No aparece —</option>
+                                        {Array.from({ length: columnCount }, (_, column) => (
+                                            <option key={column} value={column}>{columnTitle(column)}</option>
+                                        ))}
+                                    </select>
+                                </td>
+                                <td className="py-2 text-gray-500 truncate max-w-[200px]">
+                                    {sheet?.sample ? fieldText(sheet.sample, draft, field) || '-' : '-'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <div className="space-y-2 border-t border-gray-100 pt-4">
+                    <h3 className="text-sm font-bold text-gray-700">Perfiles guardados</h3>
+                    {profiles.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {profiles.map(profile => (
+                                <span key={profile.id} className="inline-flex items-center gap-1 px-2 py-1 bg-blue-50 text-blue-700 text-xs font-semibold rounded">
+                                    <button onClick={() => setDraft(profile.mapping)} title="Usar este perfil">
+                                        {profile.name}
+                                    </button>
+                                    <button
+                                        onClick={() => onProfilesChange(profiles.filter(p => p.id !== profile.id))}
+                                        className="hover:text-red-600"
+                                        title="Eliminar perfil"
+                                    >
+                                        <Trash2 className="w-3 h-3" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            placeholder="Nombre del perfil (ej: Juzgados civiles de Cali)"
+                            value={profileName}
+                            onChange={(e) => setProfileName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') saveProfile(); }}
+                            className="flex-1 px-3 py-1.5 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                            onClick={saveProfile}
+                            disabled={!profileName.trim()}
+                            className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                        >
+                            <Save className="w-4 h-4" />
+                            Guardar perfil
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-between border-t border-gray-100 pt-4">
+                    {bulletin.sheets.length > 1 ? (
+                        <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={allSheets}
+                                onChange={(e) => setAllSheets(e.target.checked)}
+                                className="rounded border-gray-300"
+                            />
+                            Aplicar a todas las hojas del archivo
+                        </label>
+                    ) : <span />}
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900">
+                            Cancelar
+                        </button>
+                        <button
+                            onClick={apply}
+                            className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700"
+                        >
+                            Aplicar
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { BookOpen, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import type { BulletinDictionary } from '@/lib/bulletin/dictionary';
+
+interface DictionaryPanelProps {
+    words: Partial<BulletinDictionary>; // Added on top of dictionary.json
+    onChange: (words: Partial<BulletinDictionary>) => void;
+}
+
+type WordList = 'strong' | 'weak' | 'estadoKeywords';
+
+const LISTS: { key: WordList; label: string; hint: string }[] = [
+    { key: 'strong', label: 'Palabras que identifican un juzgado', hint: 'Basta una para tomar la fila como nombre del despacho (ej: COMISARÍA).' },
+    { key: 'weak', label: 'Palabras de apoyo', hint: 'Se necesitan dos en la misma fila (ej: AGRARIO, CONSTITUCIONAL).' },
+    { key: 'estadoKeywords', label: 'Palabras de los encabezados de estado', hint: 'Marcan la fila con el número y la fecha del estado (ej: PUBLICADO).' },
+];
+
+const listOf = (words: Partial<BulletinDictionary>, key: WordList) =>
+    key === 'estadoKeywords' ? words.estadoKeywords ?? [] : words.courtKeywords?.[key] ?? [];
+
+// One word or phrase per line (commas work too), uppercased like the defaults
+const parseWords = (text: string) => Array.from(new Set(text.split(/[\n,]/).map(w => w.trim().toUpperCase()).filter(Boolean)));
+
+// Mounted when the panel opens, so the drafts start from the stored words rather than the static render
+function DictionaryEditor({ words, onChange }: DictionaryPanelProps) {
+    const [drafts, setDrafts] = useState<Record<WordList, string>>(() => ({
+        strong: listOf(words, 'strong').join('\n'),
+        weak: listOf(words, 'weak').join('\n'),
+        estadoKeywords: listOf(words, 'estadoKeywords').join('\n'),
+    }));
+
+    // Court words are also looked for in letter-spaced titles
+    const save = () => {
+        const strong = parseWords(drafts.strong);
+        const weak = parseWords(drafts.weak);
+        onChange({ courtKeywords: { strong, weak }, spacingWords: [...strong, ...weak], estadoKeywords: parseWords(drafts.estadoKeywords) });
+    };
+
+    const reset = () => {
+        setDrafts({ strong: '', weak: '', estadoKeywords: '' });
+        onChange({});
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+                Agrega palabras para los boletines que el buscador no entiende bien. Se usan junto con las de siempre en los
+                archivos que cargues desde ahora; quita y vuelve a cargar un archivo para releerlo.
+            </p>
+            <div className="grid gap-4 md:grid-cols-3">
+                {LISTS.map(({ key, label, hint }) => (
+                    <label key={key} className="space-y-1 text-sm">
+                        <span className="font-medium text-gray-700">{label}</span>
+                        <textarea
+                            value={drafts[key]}
+                            onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+                            onBlur={save}
+                            rows={5}
+                            placeholder="Una por línea"
+                            className="w-full px-3 py-2 rounded-lg border border-gray-200 font-mono text-xs uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <span className="block text-xs text-gray-500">{hint}</span>
+                    </label>
+                ))}
+            </div>
+            <button onClick={reset} className="text-sm text-gray-500 hover:text-red-600 transition-colors flex items-center gap-1">
+                <RotateCcw className="w-4 h-4" />
+                Quitar las palabras agregadas
+            </button>
+        </div>
+    );
+}
+
+/**
+ * Extra header words for the parser, kept in this browser. New despachos or spellings are
+ * added here instead of in dictionary.json, so they need no new version of the app.
+ */
+export default function DictionaryPanel({ words, onChange }: DictionaryPanelProps) {
+    const [open, setOpen] = useState(false);
+    const count = LISTS.reduce((sum, { key }) => sum + listOf(words, key).length, 0);
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-5">
+            <button onClick={() => setOpen(!open)} aria-expanded={open} className="flex items-center gap-2 text-left rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500">
+                {open ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                <BookOpen className="w-5 h-5 text-blue-600" />
+                <h2 className="text-lg font-bold text-gray-800">Diccionario de encabezados</h2>
+                {count > 0 && <span className="text-sm text-gray-500">({count} palabra{count !== 1 && 's'} agregada{count !== 1 && 's'})</span>}
+            </button>
+            {open && <DictionaryEditor words={words} onChange={onChange} />}
+        </div>
+    );
+}
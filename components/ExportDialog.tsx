@@ -0,0 +1,69 @@
+'use client';
+
+import { FileSpreadsheet, FileText, Sheet, X } from 'lucide-react';
+import { DEFAULT_EXPORT_COLUMNS, type ExportColumnChoice } from '@/lib/export';
+import ColumnChooser from '@/components/ColumnChooser';
+
+interface ExportDialogProps {
+    count: number;
+    columns: ExportColumnChoice[];
+    onColumnsChange: (columns: ExportColumnChoice[]) => void;
+    onExcel: () => void;
+    onCSV: () => void;
+    onClose: () => void;
+}
+
+export default function ExportDialog({ count, columns, onColumnsChange, onExcel, onCSV, onClose }: ExportDialogProps) {
+    const enabledCount = columns.filter(c => c.enabled).length;
+
+    return (
+        <div className="fixed inset-0 z-30 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="export-title"
+                className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 space-y-5"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Sheet className="w-5 h-5 text-blue-600" />
+                        <h2 id="export-title" className="text-lg font-bold text-gray-800">Exportar {count} proceso{count !== 1 && 's'}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-sm font-bold text-gray-700">Columnas y orden</h3>
+                        <button onClick={() => onColumnsChange(DEFAULT_EXPORT_COLUMNS)} className="text-xs text-blue-600 hover:text-blue-800">
+                            Restablecer
+                        </button>
+                    </div>
+                    <ColumnChooser columns={columns} onChange={onColumnsChange} />
+                </div>
+
+                <div className="flex justify-end gap-3 border-t border-gray-100 pt-4">
+                    <button
+                        onClick={onCSV}
+                        disabled={enabledCount === 0}
+                        className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                        <FileText className="w-4 h-4" />
+                        CSV
+                    </button>
+                    <button
+                        onClick={onExcel}
+                        disabled={enabledCount === 0}
+                        className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                        <FileSpreadsheet className="w-4 h-4" />
+                        Excel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { Bell, BellOff, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDate, localISODate } from '@/lib/dates';
+import type { BulletinDiff, ChangeKind, FollowedProcess, FollowState, ProcessAppearance } from '@/lib/followed';
+
+interface FollowedPanelProps {
+    state: FollowState;
+    diffs: BulletinDiff[]; // Comparisons made for the bulletins loaded in this session
+    onUnfollow: (key: string) => void;
+}
+
+const CHANGE_LABELS: Record<Exclude<ChangeKind, 'unchanged'>, { title: string; className: string }> = {
+    appeared: { title: 'Nuevas apariciones', className: 'bg-green-100 text-green-700' },
+    changed: { title: 'Actuación cambió', className: 'bg-orange-100 text-orange-700' },
+    disappeared: { title: 'Ya no aparecen', className: 'bg-gray-100 text-gray-600' },
+};
+
+const estadoLabel = (entry: ProcessAppearance) =>
+    [entry.estadoNumero !== null && `Estado ${entry.estadoNumero}`, entry.estadoFecha && formatDate(entry.estadoFecha)].filter(Boolean).join(' · ') ||
+    `Cargado el ${formatDate(localISODate(new Date(entry.checkedAt)))}`;
+
+function Timeline({ process }: { process: FollowedProcess }) {
+    return (
+        <ol className="mt-2 ml-6 border-l border-gray-200 space-y-2">
+            {[...process.history].reverse().map(entry => (
+                <li key={entry.bulletinId} className="pl-3 text-xs">
+                    <span className="font-semibold text-gray-700">{estadoLabel(entry)}</span>
+                    <span className="text-gray-400"> · {entry.fileName}</span>
+                    <p className="text-gray-600">{entry.actuacion || 'Sin actuación registrada'}</p>
+                </li>
+            ))}
+        </ol>
+    );
+}
+
+export default function FollowedPanel({ state, diffs, onUnfollow }: FollowedPanelProps) {
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const latest = diffs[diffs.length - 1];
+
+    if (state.processes.length === 0) return null;
+
+    const processRow = (process: FollowedProcess, detail?: React.ReactNode) => (
+        <li key={process.key} className="py-2">
+            <div className="flex items-center gap-2 text-sm">
+                <button
+                    onClick={() => setExpanded(expanded === process.key ? null : process.key)}
+                    className="text-gray-400 hover:text-gray-700"
+                    title="Ver historial"
+                >
+                    {expanded === process.key ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <span className="font-mono text-gray-900">{process.radicado}</span>
+                <span className="text-gray-600 truncate">{process.parties}</span>
+                <span className="text-xs text-purple-700 truncate max-w-[200px]" title={process.juzgado}>{process.juzgado}</span>
+                <button onClick={() => onUnfollow(process.key)} className="ml-auto text-gray-400 hover:text-red-600" title="Dejar de seguir">
+                    <BellOff className="w-4 h-4" />
+                </button>
+            </div>
+            {detail && <div className="ml-6 text-xs text-gray-600">{detail}</div>}
+            {expanded === process.key && <Timeline process={process} />}
+        </li>
+    );
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+            <div className="flex items-center gap-2">
+                <Bell className="w-5 h-5 text-blue-600" />
+                <h2 className="text-lg font-bold text-gray-800">Procesos seguidos</h2>
+                <span className="text-sm text-gray-500">({state.processes.length})</span>
+            </div>
+
+            {latest && (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                        Novedades en <span className="font-medium">{latest.bulletin.fileName}</span>
+                        {latest.previous.length > 0
+                            ? <> frente a <span className="font-medium">{latest.previous.map(b => b.fileName).join(', ')}</span></>
+                            : ' (primer boletín revisado de estos juzgados)'}
+                        {' · '}{latest.changes.filter(c => c.kind === 'unchanged').length} sin cambios
+                    </p>
+                    {(Object.keys(CHANGE_LABELS) as (keyof typeof CHANGE_LABELS)[]).map(kind => {
+                        const changes = latest.changes.filter(c => c.kind === kind);
+                        if (changes.length === 0) return null;
+                        return (
+                            <section key={kind}>
+                                <h3 className="flex items-center gap-2 text-sm font-bold text-gray-700">
+                                    {CHANGE_LABELS[kind].title}
+                                    <span className={cn("px-2 py-0.5 text-xs font-semibold rounded-full", CHANGE_LABELS[kind].className)}>{changes.length}</span>
+                                </h3>
+                                <ul className="divide-y divide-gray-100">
+                                    {changes.map(change => processRow(change.process, kind === 'changed'
+                                        ? <>{change.previous?.actuacion || '-'} → <span className="font-medium text-gray-800">{change.current?.actuacion || '-'}</span></>
+                                        : kind === 'appeared'
+                                            ? <span className="font-medium text-gray-800">{change.current?.actuacion || '-'}</span>
+                                            : <>Última actuación: {change.previous?.actuacion || '-'}</>
+                                    ))}
+                                </ul>
+                            </section>
+                        );
+                    })}
+                </div>
+            )}
+
+            <details className="text-sm">
+                <summary className="cursor-pointer text-gray-600 hover:text-gray-900">Todos los procesos seguidos</summary>
+                <ul className="divide-y divide-gray-100 mt-2">
+                    {state.processes.map(process => processRow(process))}
+                </ul>
+            </details>
+        </div>
+    );
+}
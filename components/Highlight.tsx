@@ -0,0 +1,31 @@
+'use client';
+
+import { useMemo } from 'react';
+import { mergeRanges, termRanges, type TextRange } from '@/lib/highlight';
+
+interface HighlightProps {
+    text: string;
+    ranges?: TextRange[]; // Offsets the matcher already found (fuzzy matches included)
+    terms?: string[]; // Also marked wherever they occur, for text the matcher did not see
+    fallback?: string; // Shown when the text is empty
+}
+
+// Text with its matches wrapped in <mark>. Everything is rendered as React text, never as HTML,
+// so cell contents from an uploaded file cannot inject markup.
+export default function Highlight({ text, ranges, terms, fallback = '-' }: HighlightProps) {
+    const parts = useMemo(() => {
+        const marks = mergeRanges([...(ranges ?? []), ...termRanges(text, terms ?? [])]);
+        const nodes: React.ReactNode[] = [];
+        let cursor = 0;
+        marks.forEach(({ start, end }) => {
+            if (start > cursor) nodes.push(text.slice(cursor, start));
+            nodes.push(<mark key={start} className="bg-yellow-200 text-gray-900 px-0.5 rounded">{text.slice(start, end)}</mark>);
+            cursor = end;
+        });
+        if (cursor < text.length) nodes.push(text.slice(cursor));
+        return nodes;
+    }, [text, ranges, terms]);
+
+    if (!text) return <>{fallback}</>;
+    return <>{parts}</>;
+}
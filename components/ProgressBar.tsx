@@ -0,0 +1,36 @@
+'use client';
+
+import { X } from 'lucide-react';
+import type { WorkProgress } from '@/lib/worker/messages';
+
+interface ProgressBarProps {
+    progress: WorkProgress;
+    onCancel?: () => void;
+}
+
+export default function ProgressBar({ progress, onCancel }: ProgressBarProps) {
+    const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+    const label = progress.phase === 'parse'
+        ? `Leyendo ${progress.fileName} · ${progress.sheetName} (${progress.done + 1} de ${progress.total})`
+        : `Buscando en ${progress.fileName} · hoja ${progress.sheetName} · fila ${progress.done.toLocaleString('es-CO')} de ${progress.total.toLocaleString('es-CO')}`;
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+                <span className="truncate">{label}</span>
+                {onCancel && (
+                    <button
+                        onClick={onCancel}
+                        className="flex items-center gap-1 text-gray-500 hover:text-red-600 transition-colors shrink-0 ml-3"
+                    >
+                        <X className="w-4 h-4" />
+                        Cancelar
+                    </button>
+                )}
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all duration-200" style={{ width: `${percent}%` }} />
+            </div>
+        </div>
+    );
+}
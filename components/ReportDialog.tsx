@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { FileDown, ImagePlus, Save, Trash2, X } from 'lucide-react';
+import type { SearchResult } from '@/lib/types';
+import { fieldText } from '@/lib/columns';
+import { processKey } from '@/lib/selection';
+import { DEFAULT_REPORT_TEMPLATE, type ProcessNotes, type ReportTemplate } from '@/lib/report';
+import ColumnChooser from '@/components/ColumnChooser';
+
+interface ReportDialogProps {
+    results: SearchResult[];
+    templates: ReportTemplate[];
+    onTemplatesChange: (templates: ReportTemplate[]) => void;
+    notes: ProcessNotes;
+    onNotesChange: (notes: ProcessNotes) => void;
+    onGenerate: (template: ReportTemplate) => void;
+    onClose: () => void;
+}
+
+// Logos live in localStorage with the template, so they have to stay small
+const MAX_LOGO_BYTES = 300 * 1024;
+
+export default function ReportDialog({ results, templates, onTemplatesChange, notes, onNotesChange, onGenerate, onClose }: ReportDialogProps) {
+    const [draft, setDraft] = useState<ReportTemplate>(templates[0] ?? DEFAULT_REPORT_TEMPLATE);
+    const [logoError, setLogoError] = useState<string | null>(null);
+    const isSaved = templates.some(t => t.id === draft.id);
+
+    const update = (changes: Partial<ReportTemplate>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const selectTemplate = (id: string) => {
+        setDraft(templates.find(t => t.id === id) ?? DEFAULT_REPORT_TEMPLATE);
+    };
+
+    const saveTemplate = () => {
+        if (!draft.name.trim()) return;
+        if (isSaved) {
+            onTemplatesChange(templates.map(t => t.id === draft.id ? draft : t));
+        } else {
+            const saved = { ...draft, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}` };
+            onTemplatesChange([...templates, saved]);
+            setDraft(saved);
+        }
+    };
+
+    const deleteTemplate = () => {
+        onTemplatesChange(templates.filter(t => t.id !== draft.id));
+        setDraft({ ...draft, id: DEFAULT_REPORT_TEMPLATE.id });
+    };
+
+    const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (file.size > MAX_LOGO_BYTES) {
+            setLogoError('El logo debe pesar menos de 300 KB.');
+            return;
+        }
+        setLogoError(null);
+        const reader = new FileReader();
+        reader.onload = () => update({ logo: reader.result as string });
+        reader.readAsDataURL(file);
+    };
+
+    const inputClass = "w-full px-3 py-1.5 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+    return (
+        <div className="fixed inset-0 z-30 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="report-title"
+                className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 space-y-5"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <FileDown className="w-5 h-5 text-blue-600" />
+                        <h2 id="report-title" className="text-lg font-bold text-gray-800">Reporte PDF de {results.length} proceso{results.length !== 1 && 's'}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap items-end gap-3 text-sm">
+                    <label className="space-y-1">
+                        <span className="block text-xs font-medium text-gray-500 uppercase">Plantilla</span>
+                        <select
+                            value={isSaved ? draft.id : ''}
+                            onChange={(e) => selectTemplate(e.target.value)}
+                            className="px-2 py-1.5 rounded-lg border border-gray-200 bg-white"
+                        >
+                            <option value="">Nueva plantilla</option>
+                            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                    </label>
+                    <label className="space-y-1 flex-1 min-w-[180px]">
+                        <span className="block text-xs font-medium text-gray-500 uppercase">Nombre de la plantilla</span>
+                        <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                    </label>
+                    <button
+                        onClick={saveTemplate}
+                        disabled={!draft.name.trim()}
+                        className="px-3 py-1.5 bg-gray-100 text-gray-700 font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                        <Save className="w-4 h-4" />
+                        {isSaved ? 'Guardar cambios' : 'Guardar plantilla'}
+                    </button>
+                    {isSaved && (
+                        <button onClick={deleteTemplate} className="px-2 py-1.5 text-gray-400 hover:text-red-600" title="Eliminar plantilla">
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    )}
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2 text-sm">
+                    <label className="space-y-1">
+                        <span className="block text-xs font-medium text-gray-500 uppercase">Firma</span>
+                        <input type="text" value={draft.firmName} onChange={(e) => update({ firmName: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="block text-xs font-medium text-gray-500 uppercase">Cliente</span>
+                        <input type="text" value={draft.clientName} onChange={(e) => update({ clientName: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="block text-xs font-medium text-gray-500 uppercase">Título</span>
+                        <input type="text" value={draft.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+                    </label>
+                    <div className="space-y-1">
+                        <span className="block text-xs font-medium text-gray-500 uppercase">Logo</span>
+                        <div className="flex items-center gap-3">
+                            {draft.logo && (
+                                // eslint-disable-next-line @next/next/no-img-element -- data URL preview, nothing to optimize
+                                <img src={draft.logo} alt="Logo de la firma" className="h-9 max-w-[120px] object-contain border border-gray-100 rounded" />
+                            )}
+                            <label className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 cursor-pointer">
+                                <ImagePlus className="w-4 h-4" />
+                                {draft.logo ? 'Cambiar' : 'Subir PNG o JPG'}
+                                <input type="file" accept="image/png, image/jpeg" onChange={handleLogo} className="hidden" />
+                            </label>
+                            {draft.logo && (
+                                <button onClick={() => update({ logo: null })} className="text-gray-400 hover:text-red-600" title="Quitar logo">
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                        {logoError && <p className="text-xs text-red-600">{logoError}</p>}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-600">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={draft.groupByJuzgado}
+                            onChange={(e) => update({ groupByJuzgado: e.target.checked })}
+                            className="rounded border-gray-300"
+                        />
+                        Agrupar por juzgado
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={draft.subtotals}
+                            disabled={!draft.groupByJuzgado}
+                            onChange={(e) => update({ subtotals: e.target.checked })}
+                            className="rounded border-gray-300"
+                        />
+                        Subtotales por juzgado
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={draft.includeNotes}
+                            onChange={(e) => update({ includeNotes: e.target.checked })}
+                            className="rounded border-gray-300"
+                        />
+                        Incluir notas
+                    </label>
+                </div>
+
+                <div className="space-y-2">
+                    <h3 className="text-sm font-bold text-gray-700">Columnas y orden</h3>
+                    <ColumnChooser columns={draft.columns} onChange={(columns) => update({ columns })} />
+                </div>
+
+                {draft.includeNotes && (
+                    <div className="space-y-2">
+                        <h3 className="text-sm font-bold text-gray-700">Notas por proceso</h3>
+                        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-64 overflow-y-auto">
+                            {results.map(result => (
+                                <li key={processKey(result)} className="flex items-center gap-3 px-3 py-2 text-sm">
+                                    <span className="w-1/2 truncate text-gray-700" title={result.context}>
+                                        <span className="font-mono">{result.radicado?.formatted || fieldText(result.data, result.columns, 'radicado') || `Fila ${result.rowIndex}`}</span>
+                                        {' · '}{fieldText(result.data, result.columns, 'demandado')}
+                                    </span>
+                                    <input
+                                        type="text"
+                                        placeholder="Nota opcional"
+                                        value={notes[processKey(result)] ?? ''}
+                                        onChange={(e) => onNotesChange({ ...notes, [processKey(result)]: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-3 border-t border-gray-100 pt-4">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900">
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={() => onGenerate(draft)}
+                        disabled={!draft.columns.some(c => c.enabled)}
+                        className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                        <FileDown className="w-4 h-4" />
+                        Generar PDF
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { Filter } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { FacetCount, FacetKey } from '@/lib/results';
+
+interface ResultFacetsProps {
+    facets: Record<FacetKey, FacetCount[]>;
+    selected: Record<FacetKey, string[]>;
+    onChange: (facet: FacetKey, values: string[]) => void;
+}
+
+const FACETS: { facet: FacetKey; title: string; empty: string }[] = [
+    { facet: 'juzgados', title: 'Juzgado', empty: 'Sin asignar' },
+    { facet: 'estados', title: 'Estado', empty: 'Sin estado' },
+];
+
+// Values listed before "Ver todos"
+const COLLAPSED_COUNT = 8;
+
+export default function ResultFacets({ facets, selected, onChange }: ResultFacetsProps) {
+    const [expanded, setExpanded] = useState<Record<FacetKey, boolean>>({ juzgados: false, estados: false });
+    const activeCount = selected.juzgados.length + selected.estados.length;
+
+    const toggle = (facet: FacetKey, value: string) => {
+        const values = selected[facet];
+        onChange(facet, values.includes(value) ? values.filter(v => v !== value) : [...values, value]);
+    };
+
+    return (
+        <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm space-y-3">
+            <div className="flex items-center gap-2">
+                <Filter className="w-4 h-4 text-blue-600" />
+                <h3 className="text-sm font-bold text-gray-700">Filtrar resultados</h3>
+                {activeCount > 0 && (
+                    <button
+                        onClick={() => FACETS.forEach(({ facet }) => onChange(facet, []))}
+                        className="ml-auto text-xs text-blue-600 hover:text-blue-800"
+                    >
+                        Quitar filtros ({activeCount})
+                    </button>
+                )}
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+                {FACETS.map(({ facet, title, empty }) => {
+                    const values = facets[facet];
+                    const shown = expanded[facet] ? values : values.slice(0, COLLAPSED_COUNT);
+                    return (
+                        <fieldset key={facet} className="space-y-1 min-w-0">
+                            <legend className="text-xs font-medium text-gray-500 uppercase mb-1">{title}</legend>
+                            <div className="max-h-60 overflow-y-auto space-y-0.5">
+                                {shown.map(({ value, count }) => (
+                                    <label
+                                        key={value}
+                                        className={cn(
+                                            "flex items-center gap-2 px-2 py-1 rounded text-sm cursor-pointer hover:bg-gray-50",
+                                            count === 0 && "text-gray-400"
+                                        )}
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={selected[facet].includes(value)}
+                                            onChange={() => toggle(facet, value)}
+                                            className="rounded border-gray-300"
+                                        />
+                                        <span className={cn("flex-1 truncate", !value && "italic")} title={value || empty}>{value || empty}</span>
+                                        <span className="text-xs text-gray-500 tabular-nums">{count}</span>
+                                    </label>
+                                ))}
+                            </div>
+                            {values.length > COLLAPSED_COUNT && (
+                                <button
+                                    onClick={() => setExpanded(prev => ({ ...prev, [facet]: !prev[facet] }))}
+                                    className="text-xs text-blue-600 hover:text-blue-800"
+                                >
+                                    {expanded[facet] ? 'Ver menos' : `Ver todos (${values.length})`}
+                                </button>
+                            )}
+                        </fieldset>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,128 @@
+// @vitest-environment jsdom
+import { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, within } from '@testing-library/react';
+import ResultsListbox from './ResultsListbox';
+import { resultsAnnouncement } from '@/lib/results';
+
+type Item = { kind: 'group'; key: string; term: string } | { kind: 'result'; key: string; name: string };
+
+// Two terms with their results, as a watchlist search lists them
+const ITEMS: Item[] = [
+    { kind: 'group', key: 'g:sobusa', term: 'sobusa' },
+    { kind: 'result', key: 'r1', name: 'SOBUSA S.A.S.' },
+    { kind: 'result', key: 'r2', name: 'COOPERATIVA FINANCIERA ANDINA' },
+    { kind: 'group', key: 'g:perez', term: 'pérez' },
+    { kind: 'result', key: 'r3', name: 'CARLOS PÉREZ GÓMEZ' },
+];
+
+// The listbox with the selection and status line the results page keeps around it
+function Results({ onOpen }: { onOpen: (item: Item) => void }) {
+    const [selected, setSelected] = useState<Set<string>>(() => new Set());
+    const toggle = (item: Item) => setSelected(prev => {
+        const next = new Set(prev);
+        if (!next.delete(item.key)) next.add(item.key);
+        return next;
+    });
+    return (
+        <>
+            <p role="status">{resultsAnnouncement({ searching: false, searched: true, shown: 3, total: 3, selected: selected.size })}</p>
+            <h2 id="results-heading">Resultados</h2>
+            <input type="search" aria-label="Buscar" />
+            <ResultsListbox
+                id="results-list"
+                labelledBy="results-heading"
+                items={ITEMS}
+                itemKey={item => item.key}
+                isOption={item => item.kind === 'result'}
+                isSelected={item => selected.has(item.key)}
+                onToggle={toggle}
+                onOpen={onOpen}
+                renderItem={item => item.kind === 'result' ? <span>{item.name}</span> : <h3>{item.term}</h3>}
+                renderActions={item => <button onClick={() => onOpen(item)}>Ver la fila en el boletín</button>}
+                estimatedHeight={40}
+            />
+        </>
+    );
+}
+
+const listbox = () => screen.getByRole('listbox');
+const active = () => {
+    const id = listbox().getAttribute('aria-activedescendant');
+    return id ? document.getElementById(id)?.textContent : null;
+};
+
+describe('ResultsListbox', () => {
+    beforeEach(() => {
+        // jsdom does not lay anything out; the list keeps its estimated heights
+        vi.stubGlobal('ResizeObserver', class {
+            observe() {}
+            disconnect() {}
+        });
+    });
+    afterEach(() => {
+        cleanup();
+        vi.unstubAllGlobals();
+    });
+
+    it('moves the active option with the arrows, Home and End, skipping group headings', () => {
+        render(<Results onOpen={() => {}} />);
+        expect(listbox().getAttribute('aria-activedescendant')).toBeNull();
+
+        fireEvent.focus(listbox());
+        expect(listbox().getAttribute('aria-activedescendant')).toBe('results-list-1');
+        fireEvent.keyDown(listbox(), { key: 'ArrowDown' });
+        expect(active()).toBe('COOPERATIVA FINANCIERA ANDINA');
+        fireEvent.keyDown(listbox(), { key: 'ArrowDown' });
+        expect(listbox().getAttribute('aria-activedescendant')).toBe('results-list-4');
+        fireEvent.keyDown(listbox(), { key: 'ArrowDown' });
+        expect(active()).toBe('CARLOS PÉREZ GÓMEZ');
+        fireEvent.keyDown(listbox(), { key: 'Home' });
+        expect(active()).toBe('SOBUSA S.A.S.');
+        fireEvent.keyDown(listbox(), { key: 'End' });
+        expect(active()).toBe('CARLOS PÉREZ GÓMEZ');
+        fireEvent.keyDown(listbox(), { key: 'ArrowUp' });
+        expect(active()).toBe('COOPERATIVA FINANCIERA ANDINA');
+    });
+
+    it('takes j / k from anywhere but a text field, and focuses the list', () => {
+        render(<Results onOpen={() => {}} />);
+        fireEvent.keyDown(screen.getByRole('searchbox'), { key: 'j' });
+        expect(listbox().getAttribute('aria-activedescendant')).toBeNull();
+
+        fireEvent.keyDown(document.body, { key: 'j' });
+        fireEvent.keyDown(document.body, { key: 'j' });
+        expect(active()).toBe('COOPERATIVA FINANCIERA ANDINA');
+        expect(document.activeElement).toBe(listbox());
+        fireEvent.keyDown(document.body, { key: 'k' });
+        expect(active()).toBe('SOBUSA S.A.S.');
+    });
+
+    it('selects with Space and x, and the status line reads out the count', () => {
+        render(<Results onOpen={() => {}} />);
+        expect(screen.getByRole('status').textContent).toBe('3 resultados, 0 seleccionados');
+
+        fireEvent.focus(listbox());
+        fireEvent.keyDown(listbox(), { key: ' ' });
+        expect(screen.getByRole('option', { name: 'SOBUSA S.A.S.' }).getAttribute('aria-selected')).toBe('true');
+        expect(screen.getByRole('status').textContent).toBe('3 resultados, 1 seleccionado');
+
+        fireEvent.keyDown(document.body, { key: 'x' });
+        expect(screen.getByRole('status').textContent).toBe('3 resultados, 0 seleccionados');
+    });
+
+    it('keeps the actions out of the options, in a toolbar for the active one', () => {
+        const onOpen = vi.fn();
+        render(<Results onOpen={onOpen} />);
+        expect(within(listbox()).queryAllByRole('button')).toEqual([]);
+        expect(within(screen.getByRole('toolbar')).queryByRole('button')).toBeNull();
+
+        fireEvent.click(screen.getByRole('option', { name: 'CARLOS PÉREZ GÓMEZ' }));
+        fireEvent.click(within(screen.getByRole('toolbar')).getByRole('button', { name: 'Ver la fila en el boletín' }));
+        expect(onOpen).toHaveBeenLastCalledWith(ITEMS[4]);
+
+        fireEvent.keyDown(listbox(), { key: 'ArrowUp' });
+        fireEvent.keyDown(listbox(), { key: 'Enter' });
+        expect(onOpen).toHaveBeenLastCalledWith(ITEMS[2]);
+    });
+});
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import VirtualList from './VirtualList';
+import { isTypingTarget } from '@/lib/shortcuts';
+
+interface ResultsListboxProps<T> {
+    id: string; // Options get `${id}-<index>` ids for aria-activedescendant
+    labelledBy: string;
+    items: T[];
+    itemKey: (item: T) => string;
+    isOption: (item: T) => boolean; // Other items (group headings) are shown but skipped by the cursor
+    isSelected: (item: T) => boolean;
+    onToggle: (item: T) => void; // Space, x or a click
+    onOpen: (item: T) => void; // Enter
+    renderItem: (item: T, active: boolean) => React.ReactNode; // Content only: no buttons or links inside options
+    renderActions: (item: T) => React.ReactNode; // Controls of the active option, shown in the toolbar
+    header?: React.ReactNode; // Column titles above the options
+    estimatedHeight: number;
+    gap?: number;
+    frameClassName?: string; // Wraps the header and the list
+    className?: string; // Of the scroll container
+}
+
+/**
+ * Multi-select listbox of results with a keyboard cursor. The cursor is the option screen
+ * readers announce through aria-activedescendant; it moves with the arrows, Home and End while
+ * the list has focus, and with j / k from anywhere on the page. Options only hold text: the
+ * actions of the active one sit in a toolbar before the list, where they can be tabbed to.
+ */
+export default function ResultsListbox<T>({
+    id, labelledBy, items, itemKey, isOption, isSelected, onToggle, onOpen, renderItem, renderActions,
+    header, estimatedHeight, gap, frameClassName, className,
+}: ResultsListboxProps<T>) {
+    const [activeKey, setActiveKey] = useState<string | null>(null);
+    const activeIndex = activeKey === null ? -1 : items.findIndex(item => itemKey(item) === activeKey);
+    const activeItem = activeIndex >= 0 ? items[activeIndex] : null;
+    const positions = useMemo(() => {
+        const map = new Map<string, number>();
+        items.forEach(item => { if (isOption(item)) map.set(itemKey(item), map.size + 1); });
+        return map;
+    }, [items, itemKey, isOption]);
+
+    // Next option in `direction` from the cursor, skipping group headings; focuses the list so
+    // the new option is read out
+    const moveActive = (direction: 1 | -1, from = activeIndex) => {
+        for (let i = from + direction; i >= 0 && i < items.length; i += direction) {
+            if (isOption(items[i])) {
+                setActiveKey(itemKey(items[i]));
+                document.getElementById(id)?.focus();
+                return;
+            }
+        }
+    };
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            // Dialogs and fields keep their keys; the list handles its own
+            if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target) || document.querySelector('[aria-modal="true"]')) return;
+            switch (e.key) {
+                case 'j':
+                    moveActive(1);
+                    return;
+                case 'k':
+                    moveActive(-1);
+                    return;
+                case 'x':
+                    if (activeItem) onToggle(activeItem);
+                    return;
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
+
+    // Listbox keys while the list has focus; j / k / x also arrive here through the window
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        switch (e.key) {
+            case 'ArrowDown':
+                e.preventDefault();
+                moveActive(1);
+                return;
+            case 'ArrowUp':
+                e.preventDefault();
+                moveActive(-1);
+                return;
+            case 'Home':
+                e.preventDefault();
+                moveActive(1, -1);
+                return;
+            case 'End':
+                e.preventDefault();
+                moveActive(-1, items.length);
+                return;
+            case ' ':
+                e.preventDefault();
+                if (activeItem) onToggle(activeItem);
+                return;
+            case 'Enter':
+                if (activeItem) onOpen(activeItem);
+                return;
+        }
+    };
+
+    const renderOption = (item: T, index: number) => isOption(item) ? (
+        <div
+            id={`${id}-${index}`}
+            role="option"
+            aria-selected={isSelected(item)}
+            aria-posinset={positions.get(itemKey(item))}
+            aria-setsize={positions.size}
+            // Clicking also moves the keyboard cursor there
+            onClick={() => {
+                setActiveKey(itemKey(item));
+                onToggle(item);
+            }}
+        >
+            {renderItem(item, index === activeIndex)}
+        </div>
+    ) : (
+        <div role="presentation">{renderItem(item, false)}</div>
+    );
+
+    return (
+        <div className="space-y-3">
+            <div
+                role="toolbar"
+                aria-label="Acciones del resultado activo"
+                aria-controls={id}
+                className="flex items-center gap-3 min-h-9 px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-lg"
+            >
+                {activeItem
+                    ? renderActions(activeItem)
+                    : <span className="text-gray-500">Elige un resultado con j / k o con un clic para ver sus acciones</span>}
+            </div>
+            <div className={frameClassName}>
+                {header}
+                <VirtualList
+                    items={items}
+                    itemKey={itemKey}
+                    renderItem={renderOption}
+                    estimatedHeight={estimatedHeight}
+                    gap={gap}
+                    className={className}
+                    activeIndex={activeIndex}
+                    containerProps={{
+                        id,
+                        role: 'listbox',
+                        tabIndex: 0,
+                        'aria-multiselectable': true,
+                        'aria-labelledby': labelledBy,
+                        'aria-activedescendant': activeIndex >= 0 ? `${id}-${activeIndex}` : undefined,
+                        onKeyDown: handleKeyDown,
+                        // Tabbing in starts at the first result
+                        onFocus: () => { if (activeIndex < 0) moveActive(1); },
+                    }}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { Fragment } from 'react';
+import { Combine, FileSearch, Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CellValue, SearchResult } from '@/lib/types';
+import { COLUMN_FIELDS, columnLetter } from '@/lib/columns';
+import { formatDate } from '@/lib/dates';
+import type { RegionRow, SheetRegion } from '@/lib/bulletin/region';
+
+interface RowDetailDrawerProps {
+    result: SearchResult;
+    region: SheetRegion | null; // null while it loads
+    error: string | null;
+    onMerge: () => void;
+    onClose: () => void;
+}
+
+const cellText = (cell: CellValue | undefined) => cell === null || cell === undefined ? '' : String(cell).trim();
+
+const KIND_LABELS: Partial<Record<RegionRow['kind'], string>> = {
+    court: 'Juzgado',
+    estado: 'Estado',
+    columns: 'Títulos',
+};
+
+function rowClass(row: RegionRow, region: SheetRegion) {
+    if (row.rowIndex === region.rowIndex) return "bg-blue-50 ring-2 ring-inset ring-blue-400 font-medium";
+    if (row.rowIndex === region.courtRow) return "bg-purple-100 text-purple-800 font-semibold";
+    if (row.rowIndex === region.estadoRow) return "bg-yellow-100 text-yellow-800 font-semibold";
+    if (region.continuation.includes(row.rowIndex)) return "bg-blue-50/50";
+    if (row.kind === 'court' || row.kind === 'estado') return "bg-gray-50 text-gray-500 font-semibold";
+    if (row.kind === 'columns') return "bg-gray-50 text-gray-500 uppercase text-[11px]";
+    return row.kind === 'empty' ? "text-gray-300" : "text-gray-600";
+}
+
+/**
+ * Side panel with the whole record of a result and the rows around it as the bulletin has them,
+ * so a row can be checked against its juzgado and estado headers without opening the file.
+ */
+export default function RowDetailDrawer({ result, region, error, onMerge, onClose }: RowDetailDrawerProps) {
+    const fieldOf = (column: number) => COLUMN_FIELDS.find(({ field }) => result.columns[field] === column)?.label;
+    const recordColumns = result.data
+        .map((cell, column) => ({ column, text: cellText(cell) }))
+        .filter(({ column, text }) => text || fieldOf(column));
+
+    // Trailing columns that are empty in every shown row are left out
+    const width = region
+        ? Math.max(1, ...region.rows.map(row => row.data.reduce<number>((last, cell, i) => cellText(cell) ? i + 1 : last, 0)))
+        : 0;
+    const pendingContinuation = region && !result.mergedRows ? region.continuation.length : 0;
+
+    return (
+        <div className="fixed inset-0 z-30 bg-black/40 flex justify-end" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="row-detail-title"
+                className="bg-white h-full w-full max-w-3xl overflow-y-auto shadow-xl p-6 space-y-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                            <FileSearch className="w-5 h-5 text-blue-600" />
+                            <h2 id="row-detail-title" className="text-lg font-bold text-gray-800">Fila {result.rowIndex}</h2>
+                        </div>
+                        <p className="text-sm text-gray-500 truncate">{result.fileName} · Hoja {result.sheetName}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Cerrar">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <section className="space-y-2">
+                    <h3 className="text-sm font-bold text-gray-700">Registro completo</h3>
+                    <dl className="grid grid-cols-[2.5rem_9rem_minmax(0,1fr)] gap-x-3 gap-y-1 text-sm">
+                        <dt className="col-span-2 text-xs font-medium text-gray-500 uppercase">Juzgado</dt>
+                        <dd className="text-purple-700">{result.context || 'Sin asignar'}</dd>
+                        <dt className="col-span-2 text-xs font-medium text-gray-500 uppercase">Estado</dt>
+                        <dd className="text-yellow-800">
+                            {result.stateContext || 'Sin estado'}
+                            {result.estado?.fecha && <span className="text-gray-500"> · Fijado el {formatDate(result.estado.fecha)}</span>}
+                        </dd>
+                        {recordColumns.map(({ column, text }) => (
+                            <Fragment key={column}>
+                                <dt className="font-mono text-xs text-gray-400">{columnLetter(column)}</dt>
+                                <dt className="text-xs font-medium text-gray-500 uppercase">{fieldOf(column) ?? 'Otro dato'}</dt>
+                                <dd className="text-gray-900 whitespace-pre-wrap break-words">{text || '-'}</dd>
+                            </Fragment>
+                        ))}
+                    </dl>
+                    {result.mergedRows && (
+                        <p className="text-xs text-blue-700">
+                            Incluye {result.mergedRows.length} fila{result.mergedRows.length !== 1 && 's'} de continuación ({result.mergedRows.map(i => i + 1).join(', ')}).
+                        </p>
+                    )}
+                </section>
+
+                {pendingContinuation > 0 && (
+                    <div className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800">
+                        <p className="flex-1 min-w-[240px]">
+                            {pendingContinuation === 1 ? 'La fila siguiente no tiene radicado y parece continuar' : `Las ${pendingContinuation} filas siguientes no tienen radicado y parecen continuar`} este registro.
+                        </p>
+                        <button
+                            onClick={onMerge}
+                            className="px-3 py-1.5 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 flex items-center gap-2"
+                        >
+                            <Combine className="w-4 h-4" />
+                            Unir al registro
+                        </button>
+                    </div>
+                )}
+
+                <section className="space-y-2">
+                    <h3 className="text-sm font-bold text-gray-700">En el boletín</h3>
+                    {error ? (
+                        <p className="text-sm text-red-600">{error}</p>
+                    ) : !region ? (
+                        <p className="flex items-center gap-2 text-sm text-gray-500">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            Cargando la hoja…
+                        </p>
+                    ) : (
+                        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                            <table className="w-full text-xs">
+                                <thead className="bg-gray-50 text-gray-400">
+                                    <tr>
+                                        <th className="px-2 py-1 w-12" />
+                                        {Array.from({ length: width }, (_, column) => (
+                                            <th key={column} className="px-2 py-1 font-mono font-normal text-left">{columnLetter(column)}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {region.rows.map((row, i) => {
+                                        const gap = i > 0 && row.rowIndex > region.rows[i - 1].rowIndex + 1;
+                                        // Court and estado headers are one long cell: let it run across the row
+                                        const spans = row.kind === 'court' || row.kind === 'estado';
+                                        const tag = row.rowIndex === region.rowIndex ? 'Resultado'
+                                            : region.continuation.includes(row.rowIndex) ? 'Continúa'
+                                            : KIND_LABELS[row.kind];
+                                        return (
+                                            <Fragment key={row.rowIndex}>
+                                                {gap && (
+                                                    <tr>
+                                                        <td colSpan={width + 1} className="px-2 text-center text-gray-300">…</td>
+                                                    </tr>
+                                                )}
+                                                <tr className={cn("border-t border-gray-100 align-top", rowClass(row, region))}>
+                                                    <td className="px-2 py-1 text-right font-mono text-gray-400 whitespace-nowrap" title={tag}>
+                                                        {row.rowIndex + 1}
+                                                        {tag && <span className="block text-[10px] font-sans normal-case">{tag}</span>}
+                                                    </td>
+                                                    {spans ? (
+                                                        <td colSpan={width} className="px-2 py-1">{cellText(row.data[0])}</td>
+                                                    ) : (
+                                                        Array.from({ length: width }, (_, column) => (
+                                                            <td key={column} className="px-2 py-1 max-w-[16rem] truncate" title={cellText(row.data[column])}>
+                                                                {cellText(row.data[column])}
+                                                            </td>
+                                                        ))
+                                                    )}
+                                                </tr>
+                                            </Fragment>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    <p className="text-xs text-gray-400">
+                        <span className="inline-block w-2.5 h-2.5 mr-1 rounded-sm bg-purple-100 align-middle" />Juzgado del registro
+                        <span className="inline-block w-2.5 h-2.5 ml-4 mr-1 rounded-sm bg-yellow-100 align-middle" />Estado del registro
+                        <span className="inline-block w-2.5 h-2.5 ml-4 mr-1 rounded-sm bg-gray-100 align-middle" />Otros encabezados
+                    </p>
+                </section>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect } from 'react';
+import { BASE_PATH, BUILD_ID } from '@/lib/pwa';
+
+/**
+ * Registers public/sw.js in the production build so the installed app opens offline. The
+ * build id in its URL makes each deploy install a new worker with a cache of its own. The
+ * scripts and styles of this first visit were fetched before the worker existed, so their URLs
+ * are handed to it to be cached too.
+ */
+export default function ServiceWorkerRegistration() {
+    useEffect(() => {
+        if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+        navigator.serviceWorker.register(`${BASE_PATH}/sw.js?v=${BUILD_ID}`, { scope: `${BASE_PATH}/` })
+            .then(() => navigator.serviceWorker.ready)
+            .then(registration => {
+                const urls = performance.getEntriesByType('resource')
+                    .map(entry => entry.name)
+                    .filter(url => url.startsWith(location.origin));
+                registration.active?.postMessage({ type: 'cache-urls', urls });
+            })
+            .catch(error => console.error('No se pudo registrar el service worker:', error));
+    }, []);
+
+    return null;
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, BarChart3, ChevronDown, ChevronRight, FileSpreadsheet, Loader2, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDate } from '@/lib/dates';
+import type { BulletinStats, SheetStat, StatCount } from '@/lib/stats';
+
+interface StatsPanelProps {
+    stats: BulletinStats | null; // null until first computed
+    stale: boolean; // Files were added, removed or toggled since
+    sheets: SheetStat[];
+    onRefresh: () => void;
+    onExport: () => void;
+}
+
+interface BarListProps<T extends StatCount> {
+    title: string;
+    items: T[];
+    label: (item: T) => string;
+    barClass: string;
+    extra?: (item: T) => React.ReactNode; // Shown before the count
+}
+
+// Bars listed before "Ver todos"
+const COLLAPSED_BARS = 10;
+
+// Horizontal bar chart; bars are relative to the largest count of the list
+function BarList<T extends StatCount>({ title, items, label, barClass, extra }: BarListProps<T>) {
+    const [expanded, setExpanded] = useState(false);
+    const max = Math.max(1, ...items.map(item => item.count));
+    const shown = expanded ? items : items.slice(0, COLLAPSED_BARS);
+
+    return (
+        <section className="space-y-2 min-w-0">
+            <h3 className="text-sm font-bold text-gray-700">{title}</h3>
+            <ul className="space-y-1.5">
+                {shown.map(item => (
+                    <li key={item.label} className="text-xs">
+                        <div className="flex items-baseline gap-2">
+                            <span className={cn("flex-1 truncate text-gray-700", !item.label && "italic text-gray-500")} title={label(item)}>{label(item)}</span>
+                            {extra?.(item)}
+                            <span className="tabular-nums font-semibold text-gray-900">{item.count}</span>
+                        </div>
+                        <div className="h-1.5 mt-0.5 rounded-full bg-gray-100" aria-hidden="true">
+                            <div className={cn("h-full rounded-full", barClass)} style={{ width: `${(item.count / max) * 100}%` }} />
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            {items.length > COLLAPSED_BARS && (
+                <button onClick={() => setExpanded(!expanded)} className="text-xs text-blue-600 hover:text-blue-800">
+                    {expanded ? 'Ver menos' : `Ver todos (${items.length})`}
+                </button>
+            )}
+        </section>
+    );
+}
+
+/**
+ * Overview of everything the parser read from the enabled bulletins: rows per juzgado and per
+ * estado date, the sheets, rows left without a court and the most frequent parties. Useful to
+ * check a new bulletin layout was understood before trusting the search.
+ */
+export default function StatsPanel({ stats, stale, sheets, onRefresh, onExport }: StatsPanelProps) {
+    const [open, setOpen] = useState(false);
+
+    const toggle = () => {
+        if (!open && (!stats || stale)) onRefresh();
+        setOpen(!open);
+    };
+
+    const juzgadoCount = stats?.byJuzgado.filter(j => j.label).length ?? 0;
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-5">
+            <div className="flex items-center justify-between gap-3">
+                <button onClick={toggle} aria-expanded={open} className="flex items-center gap-2 text-left rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500">
+                    {open ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                    <BarChart3 className="w-5 h-5 text-blue-600" />
+                    <h2 className="text-lg font-bold text-gray-800">Estadísticas del boletín</h2>
+                </button>
+                {open && stats && (
+                    <div className="flex items-center gap-3">
+                        {stale && (
+                            <button onClick={onRefresh} className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1">
+                                <RefreshCw className="w-4 h-4" />
+                                Actualizar
+                            </button>
+                        )}
+                        <button
+                            onClick={onExport}
+                            className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 flex items-center gap-2"
+                        >
+                            <FileSpreadsheet className="w-4 h-4" />
+                            Exportar
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {open && !stats && (
+                <p className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Calculando…
+                </p>
+            )}
+
+            {open && stats && (
+                <>
+                    {stale && <p className="text-xs text-orange-700">Los archivos cambiaron desde el último cálculo.</p>}
+                    <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        {[
+                            { label: 'Filas', value: stats.rowCount },
+                            { label: 'Juzgados', value: juzgadoCount },
+                            { label: 'Fechas de estado', value: stats.byEstadoDate.filter(e => e.label).length },
+                            { label: 'Hojas', value: sheets.length },
+                        ].map(({ label, value }) => (
+                            <div key={label} className="p-3 rounded-lg bg-gray-50">
+                                <dt className="text-xs font-medium text-gray-500 uppercase">{label}</dt>
+                                <dd className="text-2xl font-bold text-gray-900 tabular-nums">{value}</dd>
+                            </div>
+                        ))}
+                    </dl>
+
+                    {stats.unattributed > 0 && (
+                        <p className="flex items-center gap-2 p-3 rounded-lg bg-orange-50 border border-orange-200 text-sm text-orange-800">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {stats.unattributed} fila{stats.unattributed !== 1 && 's'} antes de cualquier encabezado de juzgado (&quot;Sin asignar&quot;).
+                            Revisa si el boletín escribe los juzgados de otra forma.
+                        </p>
+                    )}
+
+                    <div className="grid gap-6 md:grid-cols-2">
+                        <BarList
+                            title="Filas por juzgado"
+                            items={stats.byJuzgado}
+                            label={item => item.label || 'Sin asignar'}
+                            barClass="bg-purple-400"
+                        />
+                        <BarList
+                            title="Filas por fecha de estado"
+                            items={stats.byEstadoDate}
+                            label={item => formatDate(item.label) || 'Sin fecha'}
+                            barClass="bg-yellow-400"
+                        />
+                        <BarList
+                            title="Partes más frecuentes"
+                            items={stats.topParties}
+                            label={item => item.label}
+                            barClass="bg-blue-400"
+                            extra={party => <span className="text-gray-400">{party.demandante} dte. · {party.demandado} ddo.</span>}
+                        />
+                        <section className="space-y-2 min-w-0">
+                            <h3 className="text-sm font-bold text-gray-700">Hojas detectadas</h3>
+                            <table className="w-full text-xs">
+                                <thead className="text-gray-500 text-left">
+                                    <tr>
+                                        <th className="py-1 font-medium">Hoja</th>
+                                        <th className="py-1 font-medium text-right">Filas</th>
+                                        <th className="py-1 font-medium pl-3">Columnas</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {sheets.map(sheet => (
+                                        <tr key={`${sheet.fileName}|${sheet.sheetName}`}>
+                                            <td className="py-1 max-w-0 w-full truncate" title={`${sheet.fileName} · ${sheet.sheetName}`}>
+                                                {sheet.sheetName}
+                                                <span className="text-gray-400"> · {sheet.fileName}</span>
+                                            </td>
+                                            <td className="py-1 text-right tabular-nums">{sheet.rowCount}</td>
+                                            <td className={cn("py-1 pl-3 whitespace-nowrap", sheet.detectedColumns ? "text-green-700" : "text-orange-700")}>
+                                                {sheet.detectedColumns ? 'Detectadas' : 'Por defecto'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </section>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
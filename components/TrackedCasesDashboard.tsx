@@ -0,0 +1,241 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Briefcase, CalendarClock, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fieldText } from '@/lib/columns';
+import { formatDate, todayISO } from '@/lib/dates';
+import { useLocalStore } from '@/lib/storage';
+import {
+    applyCaseFilters, CASE_STATUSES, DEFAULT_CASE_FILTERS, trackedCasesStore, trackingSettingsStore,
+    type CaseFilters, type CaseRow, type CaseSort, type CaseStatus, type DeadlineFilter, type TrackedCase,
+} from '@/lib/tracking';
+
+const STATUS_CLASSES: Record<CaseStatus, string> = {
+    'pendiente': 'bg-yellow-50 text-yellow-800 border-yellow-200',
+    'en-tramite': 'bg-blue-50 text-blue-700 border-blue-200',
+    'en-espera': 'bg-gray-50 text-gray-700 border-gray-200',
+    'terminado': 'bg-green-50 text-green-700 border-green-200',
+};
+
+const DEADLINE_FILTERS: { value: DeadlineFilter; label: string }[] = [
+    { value: 'all', label: 'Todos' },
+    { value: 'overdue', label: 'Vencidos' },
+    { value: 'upcoming', label: 'Próximos a vencer' },
+    { value: 'no-date', label: 'Sin fecha de estado' },
+];
+
+const SORTS: { value: CaseSort; label: string }[] = [
+    { value: 'deadline-asc', label: 'Vencimiento más próximo' },
+    { value: 'deadline-desc', label: 'Vencimiento más lejano' },
+    { value: 'juzgado', label: 'Juzgado' },
+    { value: 'added', label: 'Agregados recientemente' },
+];
+
+// "Vencido hace 2 días", "Vence hoy", "Vence en 5 días"
+function deadlineBadge({ trackedCase, daysLeft }: CaseRow) {
+    if (daysLeft === null) return { text: 'Sin estado', className: 'bg-gray-100 text-gray-500' };
+    if (trackedCase.status === 'terminado') return { text: 'Terminado', className: 'bg-gray-100 text-gray-500' };
+    if (daysLeft < 0) return { text: `Vencido hace ${-daysLeft} día${daysLeft !== -1 ? 's' : ''}`, className: 'bg-red-100 text-red-700' };
+    if (daysLeft === 0) return { text: 'Vence hoy', className: 'bg-orange-100 text-orange-700' };
+    return {
+        text: `Vence en ${daysLeft} día${daysLeft !== 1 ? 's' : ''}`,
+        className: daysLeft <= 3 ? 'bg-amber-100 text-amber-800' : 'bg-blue-50 text-blue-700',
+    };
+}
+
+export default function TrackedCasesDashboard() {
+    const [cases, setCases] = useLocalStore(trackedCasesStore);
+    const [settings, setSettings] = useLocalStore(trackingSettingsStore);
+    const [filters, setFilters] = useState<CaseFilters>(DEFAULT_CASE_FILTERS);
+
+    const today = todayISO();
+    const rows = useMemo(() => applyCaseFilters(cases, filters, settings, today), [cases, filters, settings, today]);
+    const lawyers = useMemo(() => Array.from(new Set(cases.map(c => c.lawyer.trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b, 'es')), [cases]);
+    const overdueCount = useMemo(
+        () => applyCaseFilters(cases, { ...DEFAULT_CASE_FILTERS, deadline: 'overdue' }, settings, today).length,
+        [cases, settings, today]
+    );
+
+    const updateCase = (key: string, changes: Partial<TrackedCase>) =>
+        setCases(cases.map(c => c.key === key ? { ...c, ...changes } : c));
+    const updateFilters = (changes: Partial<CaseFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+    const inputClass = "px-2 py-1 rounded border border-gray-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-6">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <Briefcase className="w-7 h-7 text-blue-600" />
+                    <h1 className="text-3xl font-extrabold tracking-tight text-gray-900">Mis procesos</h1>
+                    <span className="text-gray-500">({cases.length})</span>
+                    {overdueCount > 0 && (
+                        <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-700">
+                            {overdueCount} vencido{overdueCount !== 1 && 's'}
+                        </span>
+                    )}
+                </div>
+                <Link href="/" className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800">
+                    <ArrowLeft className="w-4 h-4" />
+                    Volver al buscador
+                </Link>
+            </div>
+
+            <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex flex-wrap items-center gap-x-6 gap-y-3 text-sm text-gray-600">
+                <label className="flex items-center gap-2">
+                    <CalendarClock className="w-4 h-4 text-blue-600" />
+                    Término por defecto
+                    <input
+                        type="number"
+                        min={0}
+                        max={60}
+                        value={settings.termDays}
+                        onChange={(e) => setSettings({ ...settings, termDays: Math.max(0, Number(e.target.value) || 0) })}
+                        className={cn(inputClass, "w-16")}
+                    />
+                    días hábiles desde la fijación del estado
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.judicialVacancy}
+                        onChange={(e) => setSettings({ ...settings, judicialVacancy: e.target.checked })}
+                        className="rounded border-gray-300"
+                    />
+                    Descontar vacancia judicial (Semana Santa y 20 dic. – 10 ene.)
+                </label>
+                <span className="text-xs text-gray-400">Los festivos de Colombia y los fines de semana nunca cuentan.</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                <select
+                    value={filters.status}
+                    onChange={(e) => updateFilters({ status: e.target.value as CaseFilters['status'] })}
+                    className={inputClass}
+                >
+                    <option value="open">Abiertos</option>
+                    <option value="all">Todos los estados</option>
+                    {CASE_STATUSES.map(({ status, label }) => <option key={status} value={status}>{label}</option>)}
+                </select>
+                <select value={filters.lawyer} onChange={(e) => updateFilters({ lawyer: e.target.value })} className={inputClass}>
+                    <option value="">Todos los abogados</option>
+                    {lawyers.map(lawyer => <option key={lawyer} value={lawyer}>{lawyer}</option>)}
+                </select>
+                <select
+                    value={filters.deadline}
+                    onChange={(e) => updateFilters({ deadline: e.target.value as DeadlineFilter })}
+                    className={inputClass}
+                >
+                    {DEADLINE_FILTERS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                {filters.deadline === 'upcoming' && (
+                    <label className="flex items-center gap-2">
+                        en los próximos
+                        <input
+                            type="number"
+                            min={0}
+                            value={filters.withinDays}
+                            onChange={(e) => updateFilters({ withinDays: Math.max(0, Number(e.target.value) || 0) })}
+                            className={cn(inputClass, "w-16")}
+                        />
+                        días
+                    </label>
+                )}
+                <label className="flex items-center gap-2 ml-auto">
+                    Ordenar por
+                    <select value={filters.sort} onChange={(e) => updateFilters({ sort: e.target.value as CaseSort })} className={inputClass}>
+                        {SORTS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                </label>
+            </div>
+
+            {cases.length === 0 ? (
+                <div className="text-center py-12 bg-white rounded-xl border border-dashed border-gray-300 text-gray-500">
+                    Selecciona procesos en el buscador y usa <span className="font-medium">Agregar a Mis procesos</span> para hacerles seguimiento.
+                </div>
+            ) : rows.length === 0 ? (
+                <div className="text-center py-12 bg-white rounded-xl border border-dashed border-gray-300 text-gray-500">
+                    Ningún proceso coincide con los filtros.
+                </div>
+            ) : (
+                <ul className="space-y-3">
+                    {rows.map(row => {
+                        const { trackedCase, term } = row;
+                        const { result } = trackedCase;
+                        const badge = deadlineBadge(row);
+                        return (
+                            <li key={trackedCase.key} className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm space-y-3">
+                                <div className="flex flex-wrap items-start gap-x-4 gap-y-1">
+                                    <div className="flex-1 min-w-[240px] space-y-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-mono text-gray-900">{result.radicado?.formatted || fieldText(result.data, result.columns, 'radicado') || '-'}</span>
+                                            <span className={cn("px-2 py-0.5 text-xs font-semibold rounded-full", badge.className)}>{badge.text}</span>
+                                        </div>
+                                        <p className="text-sm text-gray-700">
+                                            {[fieldText(result.data, result.columns, 'demandante'), fieldText(result.data, result.columns, 'demandado')].filter(Boolean).join(' vs. ') || '-'}
+                                        </p>
+                                        <p className="text-xs text-purple-700">{result.context || 'Sin juzgado'}</p>
+                                        <p className="text-xs text-gray-500">{fieldText(result.data, result.columns, 'actuacion')}</p>
+                                    </div>
+                                    <div className="text-sm text-gray-600 space-y-1 text-right">
+                                        <p>Estado: <span className="font-medium">{result.estado?.fecha ? formatDate(result.estado.fecha) : '-'}</span></p>
+                                        <p>Término: <span className="font-semibold text-gray-900">{term ? formatDate(term) : '-'}</span></p>
+                                    </div>
+                                    <button
+                                        onClick={() => setCases(cases.filter(c => c.key !== trackedCase.key))}
+                                        className="text-gray-400 hover:text-red-600"
+                                        title="Quitar de Mis procesos"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                                    <select
+                                        value={trackedCase.status}
+                                        onChange={(e) => updateCase(trackedCase.key, { status: e.target.value as CaseStatus })}
+                                        className={cn("px-2 py-1 rounded border text-sm font-medium", STATUS_CLASSES[trackedCase.status])}
+                                    >
+                                        {CASE_STATUSES.map(({ status, label }) => <option key={status} value={status}>{label}</option>)}
+                                    </select>
+                                    <input
+                                        type="text"
+                                        list="tracked-lawyers"
+                                        placeholder="Abogado asignado"
+                                        value={trackedCase.lawyer}
+                                        onChange={(e) => updateCase(trackedCase.key, { lawyer: e.target.value })}
+                                        className={cn(inputClass, "w-48")}
+                                    />
+                                    <label className="flex items-center gap-2">
+                                        Término
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={60}
+                                            placeholder={String(settings.termDays)}
+                                            value={trackedCase.termDays ?? ''}
+                                            onChange={(e) => updateCase(trackedCase.key, { termDays: e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0) })}
+                                            className={cn(inputClass, "w-16")}
+                                        />
+                                        días hábiles
+                                    </label>
+                                </div>
+                                <textarea
+                                    rows={2}
+                                    placeholder="Notas internas"
+                                    value={trackedCase.notes}
+                                    onChange={(e) => updateCase(trackedCase.key, { notes: e.target.value })}
+                                    className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm resize-y focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            <datalist id="tracked-lawyers">
+                {lawyers.map(lawyer => <option key={lawyer} value={lawyer} />)}
+            </datalist>
+        </div>
+    );
+}
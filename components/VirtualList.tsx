@@ -0,0 +1,114 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+interface VirtualListProps<T> {
+    items: T[];
+    itemKey: (item: T) => string;
+    renderItem: (item: T, index: number) => React.ReactNode;
+    estimatedHeight: number; // Used for items that have not been rendered yet
+    gap?: number; // Space between items, in px
+    overscan?: number; // Extra px rendered above and below the viewport
+    className?: string; // Sizes the scroll container (it needs a max height)
+    activeIndex?: number; // Item kept in view, e.g. the keyboard cursor; -1 for none
+    containerProps?: React.HTMLAttributes<HTMLDivElement>; // Role, ARIA and key handlers of the scroll container
+}
+
+interface MeasuredItemProps {
+    id: string;
+    top: number;
+    onResize: (id: string, height: number) => void;
+    children: React.ReactNode;
+}
+
+function MeasuredItem({ id, top, onResize, children }: MeasuredItemProps) {
+    const ref = useCallback((node: HTMLDivElement | null) => {
+        if (!node) return;
+        const observer = new ResizeObserver(() => onResize(id, node.offsetHeight));
+        observer.observe(node);
+        return () => observer.disconnect();
+    }, [id, onResize]);
+
+    return (
+        <div ref={ref} className="absolute left-0 right-0" style={{ top }}>
+            {children}
+        </div>
+    );
+}
+
+/**
+ * Scrollable list that only mounts the items near the viewport. Items can have any height:
+ * each one is measured once rendered and the estimate is used until then, so thousands of
+ * result cards cost about as much as a screenful.
+ */
+export default function VirtualList<T>({
+    items, itemKey, renderItem, estimatedHeight, gap = 0, overscan = 800, className, activeIndex = -1, containerProps,
+}: VirtualListProps<T>) {
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(800);
+    const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+    const nodeRef = useRef<HTMLDivElement | null>(null);
+    const scrolledTo = useRef(-1);
+
+    const containerRef = useCallback((node: HTMLDivElement | null) => {
+        nodeRef.current = node;
+        if (!node) return;
+        const observer = new ResizeObserver(() => setViewportHeight(node.clientHeight));
+        observer.observe(node);
+        return () => observer.disconnect();
+    }, []);
+
+    const handleResize = useCallback((id: string, height: number) => {
+        setHeights(prev => prev.get(id) === height ? prev : new Map(prev).set(id, height));
+    }, []);
+
+    const layout = useMemo(() => {
+        const keys = items.map(itemKey);
+        const tops: number[] = [];
+        let y = 0;
+        keys.forEach(key => {
+            tops.push(y);
+            y += (heights.get(key) ?? estimatedHeight) + gap;
+        });
+        return { keys, tops, total: Math.max(y - gap, 0) };
+    }, [items, itemKey, heights, estimatedHeight, gap]);
+
+    // Scrolls only when the active item changes, so scrolling away from it with the mouse sticks
+    useEffect(() => {
+        const node = nodeRef.current;
+        if (!node || activeIndex === scrolledTo.current) return;
+        scrolledTo.current = activeIndex;
+        if (activeIndex < 0 || activeIndex >= layout.tops.length) return;
+        const top = layout.tops[activeIndex];
+        const bottom = top + (heights.get(layout.keys[activeIndex]) ?? estimatedHeight);
+        if (top < node.scrollTop) node.scrollTop = top;
+        else if (bottom > node.scrollTop + node.clientHeight) node.scrollTop = bottom - node.clientHeight;
+    }, [activeIndex, layout, heights, estimatedHeight]);
+
+    // First item whose top is past `y` (binary search over the sorted tops)
+    const indexAfter = (y: number) => {
+        let low = 0;
+        let high = layout.tops.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (layout.tops[mid] <= y) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    };
+    const first = Math.max(indexAfter(scrollTop - overscan) - 1, 0);
+    const last = Math.min(indexAfter(scrollTop + viewportHeight + overscan), items.length);
+
+    return (
+        <div {...containerProps} ref={containerRef} className={cn("overflow-y-auto", className)} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+            <div className="relative" style={{ height: layout.total }}>
+                {items.slice(first, last).map((item, i) => (
+                    <MeasuredItem key={layout.keys[first + i]} id={layout.keys[first + i]} top={layout.tops[first + i]} onResize={handleResize}>
+                        {renderItem(item, first + i)}
+                    </MeasuredItem>
+                ))}
+            </div>
+        </div>
+    );
+}
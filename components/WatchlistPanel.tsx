@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { ListChecks, Plus, X, Trash2, Search } from 'lucide-react';
+import { addWatchlistTerms, type WatchlistEntry } from '@/lib/watchlist';
+
+interface WatchlistPanelProps {
+    entries: WatchlistEntry[];
+    onChange: (entries: WatchlistEntry[]) => void;
+    onSearch: () => void;
+    disabled?: boolean;
+}
+
+export default function WatchlistPanel({ entries, onChange, onSearch, disabled }: WatchlistPanelProps) {
+    const [draft, setDraft] = useState('');
+
+    const handleAdd = () => {
+        if (!draft.trim()) return;
+        onChange(addWatchlistTerms(entries, draft));
+        setDraft('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        // Enter adds, Shift+Enter keeps typing on a new line
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleAdd();
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <ListChecks className="w-5 h-5 text-blue-600" />
+                    <h2 className="text-lg font-bold text-gray-800">Lista de seguimiento</h2>
+                    <span className="text-sm text-gray-500">({entries.length})</span>
+                </div>
+                {entries.length > 0 && (
+                    <button
+                        onClick={() => onChange([])}
+                        className="text-sm text-gray-500 hover:text-red-600 transition-colors flex items-center gap-1"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                        Vaciar
+                    </button>
+                )}
+            </div>
+
+            <div className="flex gap-3">
+                <textarea
+                    rows={2}
+                    placeholder="Nombres, NIT o radicados (uno por línea o separados por ;)"
+                    className="flex-1 px-3 py-2 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm resize-y"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                />
+                <button
+                    onClick={handleAdd}
+                    disabled={!draft.trim()}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 self-start"
+                >
+                    <Plus className="w-4 h-4" />
+                    Agregar
+                </button>
+            </div>
+
+            {entries.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {entries.map(entry => (
+                        <span
+                            key={entry.id}
+                            className="inline-flex items-center gap-1 px-2 py-1 bg-blue-50 text-blue-700 text-xs font-semibold rounded"
+                        >
+                            {entry.term}
+                            <button
+                                onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                                className="hover:text-red-600"
+                                title="Quitar de la lista"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <button
+                onClick={onSearch}
+                disabled={disabled || entries.length === 0}
+                className="w-full px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+            >
+                <Search className="w-4 h-4" />
+                Buscar toda la lista
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,66 @@
+import type { CellValue } from '../../types';
+import { textCell } from './text';
+
+/**
+ * Builds raw rows from the tables and paragraphs of a document, in reading order. Table rows
+ * keep one value per cell (a cell spanning several columns is padded with empty ones, so the
+ * columns stay aligned) and every paragraph outside a table becomes a single-cell row.
+ */
+export function createRowCollector() {
+    const rows: CellValue[][] = [];
+    let row: CellValue[] | null = null;
+    let cell: string | null = null;
+    let span = 1;
+    let paragraph = '';
+
+    const flushParagraph = () => {
+        const value = textCell(paragraph);
+        if (value !== null) rows.push([value]);
+        paragraph = '';
+    };
+
+    const endCell = () => {
+        if (cell === null) return;
+        (row ??= []).push(textCell(cell), ...Array<CellValue>(span - 1).fill(null));
+        cell = null;
+        span = 1;
+    };
+
+    const endRow = () => {
+        endCell();
+        if (row?.some(value => value !== null)) rows.push(row);
+        row = null;
+    };
+
+    return {
+        text: (value: string) => {
+            if (cell !== null) cell += value;
+            else paragraph += value;
+        },
+        // End of a paragraph or a line break: a space inside a cell, a new row outside tables
+        breakLine: () => {
+            if (cell !== null) cell += ' ';
+            else flushParagraph();
+        },
+        startRow: () => {
+            endRow();
+            flushParagraph();
+            row = [];
+        },
+        endRow,
+        startCell: (columns = 1) => {
+            endCell();
+            cell = '';
+            span = Math.max(1, columns);
+        },
+        setSpan: (columns: number) => {
+            span = Math.max(1, columns);
+        },
+        endCell,
+        finish: () => {
+            endRow();
+            flushParagraph();
+            return rows;
+        },
+    };
+}
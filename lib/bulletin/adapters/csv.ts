@@ -0,0 +1,61 @@
+import type { InputAdapter } from './types';
+import { baseName, decodeText, textCell } from './text';
+
+// Semicolon first: with a comma as decimal separator, Colombian exports use ";"
+const DELIMITERS = [';', ',', '\t', '|'];
+
+// Delimiter found most often outside quotes in the first lines
+function detectDelimiter(text: string) {
+    const sample = text.slice(0, 5000).replace(/"[^"]*"/g, '');
+    const counts = DELIMITERS.map(d => sample.split(d).length - 1);
+    const best = counts.indexOf(Math.max(...counts));
+    return counts[best] > 0 ? DELIMITERS[best] : ',';
+}
+
+// RFC 4180: quoted fields may hold delimiters, line breaks and "" for a quote
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+export const csvAdapter: InputAdapter = {
+    async read(buffer, fileName, onProgress) {
+        const name = baseName(fileName);
+        await onProgress('documento', 0, 1);
+        return [{ name, rows: parseCsv(decodeText(buffer)).map(row => row.map(textCell)) }];
+    },
+};
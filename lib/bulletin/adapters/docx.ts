@@ -0,0 +1,83 @@
+import * as XLSX from 'xlsx';
+import type { CellValue } from '../../types';
+import type { InputAdapter } from './types';
+import { createRowCollector } from './collector';
+import { baseName, decodeEntities, decodeText } from './text';
+
+// The WordprocessingML elements that matter for rows: paragraphs, tables, rows, cells, runs of
+// text, tabs and breaks, and the horizontal span of a merged cell
+const TOKEN = /<(\/?)(w:p|w:tbl|w:tr|w:tc|w:t|w:tab|w:br|w:cr|w:gridSpan)\b([^>]*?)(\/?)>|([^<]+)/g;
+
+function wordRows(xml: string): CellValue[][] {
+    const collector = createRowCollector();
+    let inText = false;
+    for (const match of xml.matchAll(TOKEN)) {
+        const [, slash, tag, attributes, selfClosing, text] = match;
+        if (text !== undefined) {
+            if (inText) collector.text(decodeEntities(text));
+            continue;
+        }
+        const closing = slash === '/';
+        switch (tag) {
+            case 'w:p':
+                if (closing || selfClosing) collector.breakLine();
+                break;
+            case 'w:tbl':
+                if (closing) collector.endRow();
+                break;
+            case 'w:tr':
+                if (closing) collector.endRow();
+                else collector.startRow();
+                break;
+            case 'w:tc':
+                if (closing) collector.endCell();
+                else collector.startCell();
+                break;
+            case 'w:gridSpan':
+                collector.setSpan(Number(/w:val="(\d+)"/.exec(attributes)?.[1] ?? 1));
+                break;
+            case 'w:t':
+                inText = !closing && !selfClosing;
+                break;
+            default: // Tab and breaks
+                collector.text(' ');
+        }
+    }
+    return collector.finish();
+}
+
+// Reads one part of the .docx package (a zip), null when it is missing. Paths start at the
+// root of the package: "/word/document.xml".
+function readPart(zip: { FullPaths: string[] }, path: string): string | null {
+    const entry = XLSX.CFB.find(zip, path);
+    return entry?.content ? decodeText(entry.content as Uint8Array) : null;
+}
+
+/**
+ * Word bulletins: the tables and paragraphs of the document body, in order. Juzgados often put
+ * their name and the estado in the page header, so the text of the headers comes first.
+ */
+export const docxAdapter: InputAdapter = {
+    async read(buffer, fileName, onProgress) {
+        const name = baseName(fileName);
+        await onProgress('documento', 0, 1);
+        const zip = XLSX.CFB.read(new Uint8Array(buffer), { type: 'array' });
+        const body = readPart(zip, '/word/document.xml');
+        if (body === null) throw new Error(`${fileName} no es un documento de Word (.docx) válido`);
+
+        const headerRows: CellValue[][] = [];
+        const seen = new Set<string>();
+        // FullPaths are "Root Entry/word/header1.xml"
+        (zip.FullPaths as string[])
+            .map(path => path.slice(path.indexOf('/')))
+            .filter(path => /^\/word\/header\d*\.xml$/.test(path))
+            .sort()
+            .forEach(path => wordRows(readPart(zip, path) ?? '').forEach(row => {
+                const key = row.join('|');
+                if (!seen.has(key)) headerRows.push(row);
+                seen.add(key);
+            }));
+
+        return [{ name, rows: [...headerRows, ...wordRows(body)] }];
+    },
+};
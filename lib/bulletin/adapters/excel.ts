@@ -0,0 +1,18 @@
+import * as XLSX from 'xlsx';
+import type { CellValue } from '../../types';
+import type { RawSheet } from '../parser';
+import type { InputAdapter } from './types';
+
+// .xlsx, .xls and .ods, one raw sheet per worksheet
+export const excelAdapter: InputAdapter = {
+    async read(buffer, fileName, onProgress) {
+        const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array' });
+        const sheets: RawSheet[] = [];
+        for (let i = 0; i < workbook.SheetNames.length; i++) {
+            const name = workbook.SheetNames[i];
+            await onProgress(`hoja ${name}`, i, workbook.SheetNames.length);
+            sheets.push({ name, rows: XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, defval: null }) as CellValue[][] });
+        }
+        return sheets;
+    },
+};
@@ -0,0 +1,49 @@
+import type { InputAdapter } from './types';
+import { createRowCollector } from './collector';
+import { baseName, decodeEntities, decodeText } from './text';
+
+// Comments, doctype and elements whose text is not part of the page, a tag, or text between
+// tags. Web Workers have no DOMParser, so the markup is walked with this instead.
+const TOKEN = /<!--[\s\S]*?-->|<[!?][^>]*>|<(script|style|head)\b[\s\S]*?<\/\1\s*>|<(\/?)([a-z][a-z0-9]*)\b([^>]*)>|([^<]+)/gi;
+
+// Tags that start a new line of text
+const BLOCK_TAGS = new Set([
+    'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'ul', 'ol', 'caption', 'center', 'pre',
+    'blockquote', 'dt', 'dd', 'section', 'article', 'header', 'footer', 'br', 'hr', 'table',
+]);
+
+// Tables exported as web pages (and Excel "Guardar como HTML"): one raw sheet for the whole page
+export function htmlRows(html: string) {
+    const collector = createRowCollector();
+    for (const match of html.matchAll(TOKEN)) {
+        const [, , slash, rawTag, attributes, text] = match;
+        if (text !== undefined) {
+            collector.text(decodeEntities(text));
+            continue;
+        }
+        if (!rawTag) continue; // Comment or skipped element
+
+        const tag = rawTag.toLowerCase();
+        const closing = slash === '/';
+        if (tag === 'tr') {
+            if (closing) collector.endRow();
+            else collector.startRow();
+        } else if (tag === 'td' || tag === 'th') {
+            if (closing) collector.endCell();
+            else collector.startCell(Number(/colspan\s*=\s*["']?(\d+)/i.exec(attributes)?.[1] ?? 1));
+        } else if (tag === 'table' && closing) {
+            collector.endRow();
+        } else if (BLOCK_TAGS.has(tag)) {
+            collector.breakLine();
+        }
+    }
+    return collector.finish();
+}
+
+export const htmlAdapter: InputAdapter = {
+    async read(buffer, fileName, onProgress) {
+        const name = baseName(fileName);
+        await onProgress('documento', 0, 1);
+        return [{ name, rows: htmlRows(decodeText(buffer)) }];
+    },
+};
@@ -0,0 +1,63 @@
+import { readFileSync } from 'node:fs';
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { adapterFor } from './index';
+import { csvAdapter } from './csv';
+import { parseBulletin } from '../parser';
+
+const FIXTURES = 'fixtures/bulletins';
+
+const arrayBuffer = ({ buffer, byteOffset, byteLength }: Buffer) => buffer.slice(byteOffset, byteOffset + byteLength) as ArrayBuffer;
+
+const fixture = (fileName: string) => arrayBuffer(readFileSync(`${FIXTURES}/${fileName}`));
+
+// There is no Excel fixture: the CSV rows are written to a workbook, as Excel would save them
+async function workbookFixture() {
+    const [sheet] = await csvAdapter.read(fixture('estado-ejemplo.csv'), 'estado-ejemplo.csv', () => {});
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.rows), 'Estados');
+    return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+}
+
+// What fixtures/bulletins/README.md says every format gives
+const EXPECTED = [
+    {
+        court: 'JUZGADO PRIMERO CIVIL MUNICIPAL DE BOGOTÁ',
+        estados: [{ estado: { numero: 23, fecha: '2026-02-10' }, radicados: ['11001400300120230012300', '11001400300120240004500'] }],
+    },
+    {
+        court: 'JUZGADO SEGUNDO CIVIL MUNICIPAL DE BOGOTÁ',
+        estados: [{ estado: { numero: 18, fecha: '2026-02-10' }, radicados: ['11001400300220220078900', '11001400300220250001200'] }],
+    },
+];
+
+// Text exports saved as .txt are read as CSV
+const source = (extension: string) =>
+    extension === 'xlsx' ? workbookFixture() : fixture(`estado-ejemplo.${extension === 'txt' ? 'csv' : extension}`);
+
+describe.each(['csv', 'txt', 'html', 'docx', 'pdf', 'xlsx'])('%s adapter', extension => {
+    const fileName = `estado-ejemplo.${extension}`;
+    const read = async () => {
+        const buffer = await source(extension);
+        return parseBulletin(await adapterFor(fileName).read(buffer, fileName, () => {}));
+    };
+
+    it('finds both courts with their estado and rows', async () => {
+        const { sheets } = await read();
+        const courts = sheets.flatMap(sheet => sheet.courts).filter(court => court.name || court.estados.some(e => e.rows.length > 0));
+        expect(courts.map(court => ({
+            court: court.name,
+            estados: court.estados.map(e => ({ estado: e.estado, radicados: e.rows.map(row => String(row.data[0])) })),
+        }))).toEqual(EXPECTED);
+    });
+
+    it('maps the columns from the titles', async () => {
+        const { sheets } = await read();
+        expect(sheets.map(sheet => sheet.columns)).toEqual([{ radicado: 0, demandante: 1, demandado: 2, actuacion: 3, fechaAuto: 4 }]);
+
+        const rows = sheets[0].courts.flatMap(court => court.estados.flatMap(e => e.rows.map(row => row.data)));
+        expect(rows[0]).toEqual(['11001400300120230012300', 'BANCO DE BOGOTÁ S.A.', 'CARLOS PÉREZ GÓMEZ', 'AUTO LIBRA MANDAMIENTO DE PAGO', '09/02/2026']);
+        // The empty demandante stays a cell, so the demandado does not shift left
+        expect(rows[3]).toEqual(['11001400300220250001200', null, 'SEGUROS DEL ESTADO S.A.', 'AUTO FIJA FECHA DE AUDIENCIA ART. 372 C.G.P.', '05/02/2026']);
+    });
+});
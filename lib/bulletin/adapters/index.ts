@@ -0,0 +1,21 @@
+import { bulletinFormat, type BulletinFormat } from '../formats';
+import type { InputAdapter } from './types';
+import { excelAdapter } from './excel';
+import { csvAdapter } from './csv';
+import { htmlAdapter } from './html';
+import { docxAdapter } from './docx';
+import { pdfAdapter } from './pdf';
+
+export type { AdapterProgress, InputAdapter } from './types';
+
+// Readers per format. Adding a format takes an entry in BULLETIN_FORMATS and an adapter here.
+const ADAPTERS: Record<BulletinFormat, InputAdapter> = {
+    excel: excelAdapter,
+    csv: csvAdapter,
+    html: htmlAdapter,
+    docx: docxAdapter,
+    pdf: pdfAdapter,
+};
+
+// Unknown extensions are read as Excel, which is what every bulletin used to be
+export const adapterFor = (fileName: string) => ADAPTERS[bulletinFormat(fileName) ?? 'excel'];
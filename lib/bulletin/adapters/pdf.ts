@@ -0,0 +1,152 @@
+import type { CellValue } from '../../types';
+import type { InputAdapter } from './types';
+import { baseName, textCell } from './text';
+
+// A run of text on a page, in PDF units (1/72 in), y growing upwards
+interface TextPiece {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    size: number; // Font height
+}
+
+// A line of a page split into cells at the wide gaps between pieces
+interface Line {
+    cells: { text: string; x: number; end: number }[];
+}
+
+// Gaps wider than this share of the font size separate two cells; word spaces are ~0.3
+const CELL_GAP = 0.8;
+// Cell starts closer than this are the same column
+const COLUMN_TOLERANCE = 12;
+
+function pageLines(pieces: TextPiece[]): Line[] {
+    const sorted = [...pieces].sort((a, b) => b.y - a.y || a.x - b.x);
+    const rows: TextPiece[][] = [];
+    sorted.forEach(piece => {
+        const row = rows[rows.length - 1];
+        if (row && Math.abs(row[0].y - piece.y) <= Math.max(2, row[0].size * 0.4)) row.push(piece);
+        else rows.push([piece]);
+    });
+
+    return rows.map(row => {
+        row.sort((a, b) => a.x - b.x);
+        const cells: Line['cells'] = [];
+        row.forEach(piece => {
+            const last = cells[cells.length - 1];
+            const gap = last ? piece.x - last.end : Infinity;
+            if (last && gap <= piece.size * CELL_GAP) {
+                last.text += gap > piece.size * 0.15 ? ` ${piece.text}` : piece.text;
+                last.end = Math.max(last.end, piece.x + piece.width);
+            } else {
+                cells.push({ text: piece.text, x: piece.x, end: piece.x + piece.width });
+            }
+        });
+        return { cells };
+    });
+}
+
+// Left edges of the columns of a table: cell starts shared by enough of its lines
+function columnStarts(lines: Line[]): number[] {
+    const starts = lines.flatMap(line => line.cells.map(cell => cell.x)).sort((a, b) => a - b);
+    const clusters: { x: number; count: number }[] = [];
+    starts.forEach(x => {
+        const last = clusters[clusters.length - 1];
+        if (last && x - last.x <= COLUMN_TOLERANCE) last.count++;
+        else clusters.push({ x, count: 1 });
+    });
+    const minCount = Math.max(1, Math.ceil(lines.length * 0.2));
+    return clusters.filter(c => c.count >= minCount).map(c => c.x);
+}
+
+const nearestColumn = (columns: number[], x: number) =>
+    columns.reduce((best, start, i) => Math.abs(start - x) < Math.abs(columns[best] - x) ? i : best, 0);
+
+// Each cell goes to the nearest column, so an empty cell keeps the ones after it in place
+function alignLine(line: Line, columns: number[]): CellValue[] {
+    const row: CellValue[] = Array(columns.length).fill(null);
+    line.cells.forEach(cell => {
+        const index = nearestColumn(columns, cell.x);
+        row[index] = textCell(row[index] ? `${row[index]} ${cell.text}` : cell.text);
+    });
+    return row;
+}
+
+/**
+ * Lays the lines out as rows. Runs of lines with several cells are tables, and each table gets
+ * its own columns (two estados in one PDF rarely share column widths). A line with a single
+ * cell is a title (juzgado, estado) and ends the table, unless it sits inside one column
+ * after the first: then it is a cell that wrapped onto a line of its own.
+ */
+function layoutRows(lines: Line[]): CellValue[][] {
+    const rows: CellValue[][] = [];
+    let table: Line[] = [];
+    let columns: number[] | null = null; // Of the current table, recomputed after it grows
+
+    const endTable = () => {
+        const starts = columnStarts(table);
+        table.forEach(line => rows.push(alignLine(line, starts)));
+        table = [];
+        columns = null;
+    };
+
+    lines.forEach(line => {
+        if (line.cells.length > 1) {
+            table.push(line);
+            columns = null;
+            return;
+        }
+        const [cell] = line.cells;
+        if (table.length > 0) {
+            columns ??= columnStarts(table);
+            const index = nearestColumn(columns, cell.x);
+            const next = columns[index + 1] ?? Infinity;
+            if (index > 0 && Math.abs(columns[index] - cell.x) <= COLUMN_TOLERANCE && cell.end <= next + COLUMN_TOLERANCE) {
+                table.push(line);
+                return;
+            }
+            endTable();
+        }
+        rows.push([textCell(cell.text)]);
+    });
+    endTable();
+    return rows;
+}
+
+/**
+ * PDF bulletins with selectable text. pdf.js gives positioned runs of text, which are grouped
+ * into lines and cut into cells at the gaps between columns. Scanned PDFs have no text to read.
+ */
+export const pdfAdapter: InputAdapter = {
+    async read(buffer, fileName, onProgress) {
+        // The legacy build carries its own polyfills, so older office browsers can read PDFs too
+        const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+        // This already runs in the bulletin worker: loading pdf.js' worker code here makes it
+        // parse in the same thread instead of starting a worker of its own
+        await import('pdfjs-dist/legacy/build/pdf.worker.min.mjs');
+
+        const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer), isEvalSupported: false }).promise;
+        const lines: Line[] = [];
+        try {
+            for (let number = 1; number <= pdf.numPages; number++) {
+                await onProgress(`página ${number}`, number - 1, pdf.numPages);
+                const page = await pdf.getPage(number);
+                const content = await page.getTextContent();
+                const pieces: TextPiece[] = [];
+                content.items.forEach(item => {
+                    if (!('str' in item) || !item.str.trim()) return;
+                    const [, , , scaleY, x, y] = item.transform as number[];
+                    pieces.push({ text: item.str.trim(), x, y, width: item.width, size: item.height || Math.abs(scaleY) || 10 });
+                });
+                lines.push(...pageLines(pieces));
+                page.cleanup();
+            }
+        } finally {
+            await pdf.destroy();
+        }
+
+        if (lines.length === 0) throw new Error(`${fileName} no tiene texto seleccionable (¿es un PDF escaneado?)`);
+        return [{ name: baseName(fileName), rows: layoutRows(lines) }];
+    },
+};
@@ -0,0 +1,2 @@
+// pdf.js' worker code, imported only for its side effect (it registers globalThis.pdfjsWorker)
+declare module 'pdfjs-dist/legacy/build/pdf.worker.min.mjs';
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { baseName, decodeEntities, decodeText, textCell } from './text';
+import { parseCsv } from './csv';
+
+describe('decodeText', () => {
+    it('reads UTF-8 without its BOM', () => {
+        expect(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, 0x50, 0x45, 0xc3, 0x91, 0x41]))).toBe('PEÑA');
+    });
+
+    it('falls back to Windows-1252 when the bytes are not UTF-8', () => {
+        expect(decodeText(new Uint8Array([0x50, 0x45, 0xd1, 0x41, 0x20, 0x4e, 0xba]))).toBe('PEÑA Nº');
+    });
+});
+
+describe('decodeEntities', () => {
+    it('decodes named and numeric entities and leaves unknown ones', () => {
+        expect(decodeEntities('JOS&Eacute; PE&#209;A &#x26; C&iacute;a. &foo;')).toBe('JOSÉ PEÑA & Cía. &foo;');
+    });
+});
+
+describe('textCell / baseName', () => {
+    it('collapses whitespace and turns empty text into an empty cell', () => {
+        expect(textCell('  AUTO\n ADMITE   DEMANDA ')).toBe('AUTO ADMITE DEMANDA');
+        expect(textCell(' \n ')).toBeNull();
+    });
+
+    it('names a sheet after the file', () => {
+        expect(baseName('C:\\Descargas\\estados-10-02.pdf')).toBe('estados-10-02');
+        expect(baseName('estado')).toBe('estado');
+    });
+});
+
+describe('parseCsv', () => {
+    it('detects the delimiter and keeps quoted delimiters, quotes and line breaks', () => {
+        const text = 'RADICADO;ACTUACION\r\n1100140030012023;"AUTO; REQUIERE ""PARTE""\nDEMANDANTE"\r\n';
+        expect(parseCsv(text)).toEqual([
+            ['RADICADO', 'ACTUACION'],
+            ['1100140030012023', 'AUTO; REQUIERE "PARTE"\nDEMANDANTE'],
+        ]);
+        expect(parseCsv('A,B\n1,2')).toEqual([['A', 'B'], ['1', '2']]);
+    });
+});
@@ -0,0 +1,38 @@
+import type { CellValue } from '../../types';
+
+// UTF-8 (the BOM is dropped) or, when the bytes are not valid UTF-8, Windows-1252: what Excel
+// and most court systems on Windows write
+export function decodeText(bytes: ArrayBuffer | Uint8Array): string {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+        return new TextDecoder('windows-1252').decode(bytes);
+    }
+}
+
+// Collapses line breaks and repeated spaces; empty text becomes an empty cell
+export function textCell(text: string): CellValue {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    return clean || null;
+}
+
+// Formats without sheets get one named after the file: "estados-10-02.pdf" -> "estados-10-02"
+export const baseName = (fileName: string) => fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '') || fileName;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    aacute: 'á', eacute: 'é', iacute: 'í', oacute: 'ó', uacute: 'ú', uuml: 'ü', ntilde: 'ñ',
+    Aacute: 'Á', Eacute: 'É', Iacute: 'Í', Oacute: 'Ó', Uacute: 'Ú', Uuml: 'Ü', Ntilde: 'Ñ',
+    ordm: 'º', ordf: 'ª', deg: '°', iexcl: '¡', iquest: '¿', laquo: '«', raquo: '»', middot: '·', ndash: '–', mdash: '—',
+};
+
+// Entities of HTML text and XML (Word) text; unknown names are left as written
+export function decodeEntities(text: string) {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+        }
+        return NAMED_ENTITIES[name] ?? entity;
+    });
+}
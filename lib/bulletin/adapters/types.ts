@@ -0,0 +1,13 @@
+import type { RawSheet } from '../parser';
+
+// Reports a step of a long conversion ("hoja Estados", "página 3"); awaited so progress gets posted
+export type AdapterProgress = (step: string, done: number, total: number) => Promise<void> | void;
+
+/**
+ * Turns a file into the raw rows the bulletin parser works on. Text outside tables (court and
+ * estado titles) comes as single-cell rows, as it sits in a merged Excel row, so the parser
+ * finds the juzgado and estado context the same way whatever the format.
+ */
+export interface InputAdapter {
+    read: (buffer: ArrayBuffer, fileName: string, onProgress: AdapterProgress) => Promise<RawSheet[]>;
+}
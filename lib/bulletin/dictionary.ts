@@ -0,0 +1,60 @@
+import defaults from './dictionary.json';
+import type { ColumnField } from '../columns';
+
+/**
+ * Words used to recognize court and estado header rows. The defaults live in dictionary.json;
+ * words for new despachos or spellings are added from the app (see lib/dictionaryWords.ts) and
+ * applied on top with extendDictionary, without touching the parser.
+ */
+export interface BulletinDictionary {
+    courtKeywords: {
+        strong: string[]; // One is enough to call a row a court header ("JUZGADO", "TRIBUNAL")
+        weak: string[]; // At least two are needed ("CIVIL" alone is often a clase de proceso)
+    };
+    spacingWords: string[]; // Words re-inserted when splitting letter-spaced titles
+    abbreviations: Record<string, string>; // Prefix expansions, e.g. "JDO." -> "JUZGADO"
+    estadoPrefixes: string[];
+    estadoKeywords: string[];
+    months: string[];
+    columnLabels: Record<ColumnField, string[]>; // Titles of the column header row ("DEMANDADO", "ANOTACION")
+}
+
+export const DEFAULT_DICTIONARY: BulletinDictionary = defaults;
+
+const union = (a: string[], b: string[] = []) => Array.from(new Set([...a, ...b.map(w => w.toUpperCase())]));
+
+// Adds extra words on top of a dictionary; nothing from the base is removed
+export function extendDictionary(base: BulletinDictionary, extra: Partial<BulletinDictionary>): BulletinDictionary {
+    return {
+        courtKeywords: {
+            strong: union(base.courtKeywords.strong, extra.courtKeywords?.strong),
+            weak: union(base.courtKeywords.weak, extra.courtKeywords?.weak),
+        },
+        spacingWords: union(base.spacingWords, extra.spacingWords),
+        abbreviations: { ...base.abbreviations, ...extra.abbreviations },
+        estadoPrefixes: union(base.estadoPrefixes, extra.estadoPrefixes),
+        estadoKeywords: union(base.estadoKeywords, extra.estadoKeywords),
+        months: union(base.months, extra.months),
+        columnLabels: Object.fromEntries(
+            Object.entries(base.columnLabels).map(([field, labels]) => [field, union(labels, extra.columnLabels?.[field as ColumnField])])
+        ) as Record<ColumnField, string[]>,
+    };
+}
+
+const isWordList = (value: unknown): value is string[] => Array.isArray(value) && value.every(w => typeof w === 'string');
+
+const words = (value: unknown) => isWordList(value) ? value.map(w => w.trim()).filter(Boolean) : undefined;
+
+// Keeps the word lists of a stored or imported value (dictionary.json format); anything else is dropped
+export function readDictionaryExtra(value: unknown): Partial<BulletinDictionary> {
+    if (!value || typeof value !== 'object') return {};
+    const extra = value as Record<string, unknown>;
+    const court = (extra.courtKeywords ?? {}) as Record<string, unknown>;
+    const result: Partial<BulletinDictionary> = {
+        courtKeywords: { strong: words(court.strong) ?? [], weak: words(court.weak) ?? [] },
+        spacingWords: words(extra.spacingWords),
+        estadoPrefixes: words(extra.estadoPrefixes),
+        estadoKeywords: words(extra.estadoKeywords),
+    };
+    return Object.fromEntries(Object.entries(result).filter(([, v]) => v !== undefined));
+}
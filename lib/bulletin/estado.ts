@@ -0,0 +1,51 @@
+import { foldAccents } from '../normalize';
+import { toISODate, formatDate } from '../dates';
+import type { SearchResult } from '../types';
+
+export interface ParsedEstado {
+    numero: number | null; // "ESTADO 18 ..." -> 18
+    fecha: string | null; // ISO date of fixation
+}
+
+const fold = (text: string) => foldAccents(text).toUpperCase().replace(/\s+/g, ' ');
+
+/**
+ * Finds a date written the ways bulletins do: "10 FEBRERO 2026", "10 DE FEBRERO DE 2026",
+ * "FEBRERO 10 DE 2026", "10/02/2026" or "2026-02-10". `months` are the month names in order.
+ */
+export function parseSpanishDate(text: string, months: string[]): string | null {
+    const upper = fold(text);
+    const monthNames = months.map(fold);
+    const monthPattern = monthNames.join('|');
+    const monthNumber = (name: string) => monthNames.indexOf(name) + 1;
+
+    let match = upper.match(new RegExp(`\\b(\\d{1,2})\\s+(?:DE\\s+)?(${monthPattern})\\s+(?:DE\\s+|DEL\\s+)?(\\d{4})\\b`));
+    if (match) return toISODate(Number(match[3]), monthNumber(match[2]), Number(match[1]));
+
+    match = upper.match(new RegExp(`\\b(${monthPattern})\\s+(\\d{1,2})\\s+(?:DE\\s+|DEL\\s+)?(\\d{4})\\b`));
+    if (match) return toISODate(Number(match[3]), monthNumber(match[1]), Number(match[2]));
+
+    match = upper.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+    if (match) return toISODate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+    match = upper.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})\b/);
+    if (match) return toISODate(Number(match[3]), Number(match[2]), Number(match[1]));
+
+    return null;
+}
+
+export function parseEstadoHeader(text: string, months: string[]): ParsedEstado {
+    const upper = fold(text);
+    const numberMatch = upper.match(/\bESTADOS?\s+(?:N[O°º]\.?\s*|NUMERO\s+|NRO\.?\s*)?(\d{1,4})\b/);
+    return {
+        numero: numberMatch ? Number(numberMatch[1]) : null,
+        fecha: parseSpanishDate(upper, months),
+    };
+}
+
+// "Estado 18 · 10/02/2026" when the header was understood, the raw header otherwise
+export function formatEstado(result: Pick<SearchResult, 'estado' | 'stateContext'>) {
+    const { estado, stateContext } = result;
+    if (!estado?.fecha) return stateContext || '-';
+    return [estado.numero !== null ? `Estado ${estado.numero}` : null, formatDate(estado.fecha)].filter(Boolean).join(' · ');
+}
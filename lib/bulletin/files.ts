@@ -0,0 +1,51 @@
+import type { SheetSummary } from '../worker/messages';
+import { bulletinFormat } from './formats';
+
+export interface LoadedBulletin {
+    id: string;
+    fileName: string;
+    size: number;
+    lastModified: number;
+    enabled: boolean; // Disabled files stay loaded but are left out of searches
+    sheets: SheetSummary[];
+    rowCount: number; // Data rows, without court / estado headers
+    juzgados: string[]; // Court names found in the file
+}
+
+export const isBulletinFile = (name: string) => bulletinFormat(name) !== null;
+
+// Same name, size and modification date: the same download picked twice
+export const isSameFile = (bulletin: LoadedBulletin, file: File) =>
+    bulletin.fileName === file.name && bulletin.size === file.size && bulletin.lastModified === file.lastModified;
+
+function readEntry(entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+        return new Promise(resolve => (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([])));
+    }
+    if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        // readEntries returns the directory in batches; keep reading until it returns none
+        const readAll = (collected: FileSystemEntry[]): Promise<FileSystemEntry[]> => new Promise(resolve => {
+            reader.readEntries(batch => {
+                if (batch.length === 0) resolve(collected);
+                else readAll([...collected, ...batch]).then(resolve);
+            }, () => resolve(collected));
+        });
+        return readAll([]).then(entries => Promise.all(entries.map(readEntry))).then(lists => lists.flat());
+    }
+    return Promise.resolve([]);
+}
+
+/**
+ * Files from a drop event, walking into dropped folders. Only files in a bulletin format are kept.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+    const files = entries.length > 0
+        ? (await Promise.all(entries.map(readEntry))).flat()
+        : Array.from(dataTransfer.files);
+    return files.filter(file => isBulletinFile(file.name));
+}
@@ -0,0 +1,19 @@
+// File types a bulletin can come in. Kept apart from the adapters that read them so the page
+// can filter files without pulling the PDF or Word readers into its bundle.
+export type BulletinFormat = 'excel' | 'csv' | 'html' | 'docx' | 'pdf';
+
+export const BULLETIN_FORMATS: { format: BulletinFormat; label: string; extensions: string[] }[] = [
+    { format: 'excel', label: 'Excel', extensions: ['.xlsx', '.xls', '.ods'] },
+    { format: 'csv', label: 'CSV', extensions: ['.csv', '.txt'] },
+    { format: 'html', label: 'HTML', extensions: ['.html', '.htm'] },
+    { format: 'docx', label: 'Word', extensions: ['.docx'] },
+    { format: 'pdf', label: 'PDF', extensions: ['.pdf'] },
+];
+
+// Value for the accept attribute of the file input
+export const BULLETIN_ACCEPT = BULLETIN_FORMATS.flatMap(f => f.extensions).join(', ');
+
+export function bulletinFormat(fileName: string): BulletinFormat | null {
+    const name = fileName.toLowerCase();
+    return BULLETIN_FORMATS.find(f => f.extensions.some(ext => name.endsWith(ext)))?.format ?? null;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DICTIONARY } from './dictionary';
+import { classifyHeaderRow, isCourtHeaderText, isLetterSpaced, respace } from './headers';
+
+const classify = (text: string) => classifyHeaderRow([text, null, null], DEFAULT_DICTIONARY);
+
+describe('letter-spaced titles', () => {
+    it('tells spaced titles from text with double spaces', () => {
+        expect(isLetterSpaced('S E P T I M O   C I V I L')).toBe(true);
+        expect(isLetterSpaced('AUTO  ADMITE  DEMANDA')).toBe(false);
+    });
+
+    it('splits words on runs of spaces, or on dictionary words when there are none', () => {
+        expect(respace('S E P T I M O   C I V I L', DEFAULT_DICTIONARY)).toBe('SEPTIMO CIVIL');
+        expect(respace('P R O M I S C U O M U N I C I P A L', DEFAULT_DICTIONARY)).toBe('PROMISCUO MUNICIPAL');
+    });
+
+    it('keeps ordinals whole when a shorter ordinal is inside them', () => {
+        expect(respace('J U Z G A D O U N D E C I M O C I V I L', DEFAULT_DICTIONARY)).toBe('JUZGADO UNDECIMO CIVIL');
+        expect(respace('J U Z G A D O D U O D E C I M O D E F A M I L I A', DEFAULT_DICTIONARY)).toBe('JUZGADO DUODECIMO DE FAMILIA');
+        expect(respace('J U Z G A D O D E C I M O L A B O R A L', DEFAULT_DICTIONARY)).toBe('JUZGADO DECIMO LABORAL');
+    });
+});
+
+describe('court headers', () => {
+    it('needs one strong keyword or two weak ones', () => {
+        expect(isCourtHeaderText('JUZGADO DE PEQUEÑAS CAUSAS', DEFAULT_DICTIONARY)).toBe(true);
+        expect(isCourtHeaderText('SEGUNDO CIVIL MUNICIPAL', DEFAULT_DICTIONARY)).toBe(true);
+        expect(isCourtHeaderText('PROCESO CIVIL', DEFAULT_DICTIONARY)).toBe(false);
+        expect(isCourtHeaderText('SALA DE AUDIENCIAS', DEFAULT_DICTIONARY)).toBe(false);
+    });
+
+    it('counts an abbreviation as the keyword it stands for', () => {
+        expect(isCourtHeaderText('J. 4 LABORAL', DEFAULT_DICTIONARY)).toBe(true);
+        expect(isCourtHeaderText('JDO 2 PROMISCUO', DEFAULT_DICTIONARY)).toBe(true);
+        // Only as a prefix of its own: "JDOS" or a name starting with J is not expanded
+        expect(isCourtHeaderText('JOSE LABORAL', DEFAULT_DICTIONARY)).toBe(false);
+    });
+
+    it('expands abbreviations and adds JUZGADO to numbered despachos', () => {
+        expect(classify('JDO. 3 CIVIL MUNICIPAL')).toEqual({ kind: 'court', text: 'JUZGADO 3 CIVIL MUNICIPAL' });
+        expect(classify('J. 4 LABORAL')).toEqual({ kind: 'court', text: 'JUZGADO 4 LABORAL' });
+        expect(classify('12 CIVIL MUNICIPAL DE CALI')).toEqual({ kind: 'court', text: 'JUZGADO 12 CIVIL MUNICIPAL DE CALI' });
+    });
+
+    it('ignores rows with data in other columns and radicados', () => {
+        expect(classifyHeaderRow(['JUZGADO CIVIL', 'BANCO X', null], DEFAULT_DICTIONARY)).toBeNull();
+        expect(classify('11001400300120230012300')).toBeNull();
+    });
+});
+
+describe('estado headers', () => {
+    it('take a row starting with ESTADO, or a keyword next to a date', () => {
+        expect(classify('ESTADO No. 18 DEL 10 FEBRERO 2026')).toMatchObject({ kind: 'estado', estado: { numero: 18, fecha: '2026-02-10' } });
+        expect(classify('Fijado el 10/02/2026 a las 8:00 a.m.')).toMatchObject({ kind: 'estado', estado: { numero: null, fecha: '2026-02-10' } });
+    });
+
+    it('take a cell holding nothing but a date', () => {
+        expect(classify('10 de febrero de 2026')).toMatchObject({ kind: 'estado', estado: { fecha: '2026-02-10' } });
+        expect(classify('Martes, 10 de febrero de 2026')).toMatchObject({ kind: 'estado', estado: { fecha: '2026-02-10' } });
+    });
+
+    it('leave rows that only mention a month or a date as data', () => {
+        expect(classify('EMBARGO DE MAYO')).toBeNull();
+        expect(classify('Auto del 5 de mayo de 2025 que fija fecha')).toBeNull();
+        expect(classify('FIJADO EN LISTA')).toBeNull();
+    });
+});
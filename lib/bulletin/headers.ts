@@ -0,0 +1,175 @@
+import type { CellValue } from '../types';
+import { parseRadicado } from '../radicado';
+import { foldAccents } from '../normalize';
+import type { BulletinDictionary } from './dictionary';
+import type { ColumnField, ColumnMapping } from '../columns';
+import { parseEstadoHeader, parseSpanishDate, type ParsedEstado } from './estado';
+
+export type HeaderKind = 'court' | 'estado';
+
+export interface HeaderMatch {
+    kind: HeaderKind;
+    text: string; // Cleaned header text ("JUZGADO SEPTIMO CIVIL", "ESTADO 18 DEL 10 FEBRERO 2026")
+    estado?: ParsedEstado; // Number and fixation date, for estado headers
+}
+
+const fold = (text: string) => foldAccents(text).toUpperCase();
+
+const isBlank = (cell: CellValue | undefined) => cell === null || cell === undefined || String(cell).trim() === '';
+
+/**
+ * True for titles typed with a space between letters ("S E P T I M O   C I V I L"),
+ * as opposed to ordinary text that happens to contain double spaces.
+ */
+export function isLetterSpaced(raw: string) {
+    const parts = raw.trim().split(/\s+/);
+    const singles = parts.filter(p => p.length === 1).length;
+    return parts.length >= 4 && singles / parts.length >= 0.6;
+}
+
+/**
+ * Rebuilds the words of a letter-spaced title. Runs of two or more spaces usually separate
+ * words; when they do not ("P R I M E R O D E F A M I L I A"), known words from the
+ * dictionary are padded with spaces instead.
+ */
+export function respace(raw: string, dictionary: BulletinDictionary) {
+    const groups = raw.trim().split(/\s{2,}/);
+    if (groups.length > 1) {
+        return groups.map(g => g.replace(/\s+/g, '')).join(' ');
+    }
+
+    // One left-to-right pass, longest word first at each position: a word found is never searched
+    // again, so "UNDECIMO" is not split around the "DECIMO" inside it
+    const words = [...dictionary.spacingWords]
+        .filter(w => w.length > 3) // "DE", "LA"... also appear inside other words
+        .sort((a, b) => b.length - a.length)
+        .map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const letters = raw.replace(/\s+/g, '');
+    if (words.length === 0) return letters;
+    return letters.replace(new RegExp(words.join('|'), 'g'), word => ` ${word} `).replace(/\s+/g, ' ').trim();
+}
+
+// "JDO. 4 CIVIL" -> "JUZGADO 4 CIVIL"; `text` is already uppercase
+function expandAbbreviation(text: string, dictionary: BulletinDictionary) {
+    const prefixes = Object.keys(dictionary.abbreviations).sort((a, b) => b.length - a.length);
+    const prefix = prefixes.find(p => text.startsWith(p) && !/[A-Z]/.test(text.charAt(p.length)));
+    return prefix ? `${dictionary.abbreviations[prefix]} ${text.slice(prefix.length).trim()}`.trim() : text;
+}
+
+// Uppercases, expands abbreviations and adds "JUZGADO" to headers that start with a number
+export function cleanCourtName(text: string, dictionary: BulletinDictionary) {
+    let context = expandAbbreviation(text.toUpperCase().replace(/\s+/g, ' ').trim(), dictionary);
+
+    if (/^\d/.test(context) && !context.startsWith('JUZGADO')) {
+        context = 'JUZGADO ' + context;
+    }
+    return context;
+}
+
+function countKeywords(words: string[], keywords: string[]) {
+    const folded = new Set(keywords.map(fold));
+    // Plural forms count too ("JUZGADOS", "CIVILES")
+    return words.filter(w => folded.has(w) || folded.has(w.replace(/E?S$/, ''))).length;
+}
+
+// Abbreviations count as the word they stand for ("J. 4 LABORAL" has "JUZGADO")
+export function isCourtHeaderText(text: string, dictionary: BulletinDictionary) {
+    const words = expandAbbreviation(fold(text).trim(), dictionary).split(/[^A-Z0-9]+/).filter(Boolean);
+    if (words.join('').length <= 5) return false;
+    const strong = countKeywords(words, dictionary.courtKeywords.strong);
+    const weak = countKeywords(words, dictionary.courtKeywords.weak);
+    return strong > 0 || weak >= 2;
+}
+
+// Words that may surround a date written on its own ("MARTES, 10 DE FEBRERO DE 2026")
+const DATE_FILLERS = /\b(DE|DEL|EL|FECHA|LUNES|MARTES|MIERCOLES|JUEVES|VIERNES|SABADO|DOMINGO)\b/g;
+
+function isDateOnly(upper: string, months: string[]) {
+    if (parseSpanishDate(upper, months) === null) return false;
+    const rest = months
+        .reduce((text, month) => text.replace(new RegExp(`\\b${fold(month)}\\b`, 'g'), ' '), upper)
+        .replace(DATE_FILLERS, ' ');
+    return !/[A-Z]/.test(rest);
+}
+
+/**
+ * Estado headers start with "ESTADO", name a keyword ("FIJADO") next to a date, or are nothing
+ * but a date. Rows that merely mention a month ("EMBARGO DE MAYO") or a date ("AUTO DEL 5 DE
+ * MAYO DE 2025 QUE FIJA FECHA") are regular rows.
+ */
+export function isEstadoHeaderText(text: string, dictionary: BulletinDictionary) {
+    const upper = fold(text).trim();
+    if (dictionary.estadoPrefixes.some(p => upper.startsWith(fold(p)))) return true;
+    if (isDateOnly(upper, dictionary.months)) return true;
+    const words = ` ${upper.replace(/[^A-Z0-9]+/g, ' ')} `;
+    return dictionary.estadoKeywords.some(k => words.includes(` ${fold(k)} `)) && parseSpanishDate(upper, dictionary.months) !== null;
+}
+
+/**
+ * Decides whether a sheet row is a court (despacho) or estado header. Headers are rows whose
+ * only content is a text first cell; anything with data in other columns, or whose first
+ * cell is a radicado, is a regular row.
+ */
+export function classifyHeaderRow(row: CellValue[], dictionary: BulletinDictionary): HeaderMatch | null {
+    const [firstCell, ...rest] = row;
+    if (typeof firstCell !== 'string' || !firstCell.trim()) return null;
+    if (!rest.every(isBlank)) return null;
+    if (parseRadicado(firstCell)) return null;
+
+    const raw = firstCell.trim();
+    const readable = isLetterSpaced(raw) ? respace(raw, dictionary) : raw;
+
+    if (isCourtHeaderText(readable, dictionary)) {
+        return { kind: 'court', text: cleanCourtName(readable, dictionary) };
+    }
+    if (isEstadoHeaderText(raw, dictionary)) {
+        return { kind: 'estado', text: raw.toUpperCase(), estado: parseEstadoHeader(raw, dictionary.months) };
+    }
+    return null;
+}
+
+// Header cells are short titles; longer text is data that happens to contain a label word
+const MAX_LABEL_LENGTH = 40;
+
+// Field a header cell names, preferring an exact title over a longer label found inside it
+function labelField(cell: string, dictionary: BulletinDictionary): ColumnField | null {
+    const text = fold(cell).replace(/[^A-Z0-9]+/g, ' ').trim();
+    if (!text || text.length > MAX_LABEL_LENGTH) return null;
+
+    let best: ColumnField | null = null;
+    let bestScore = 0;
+    for (const [field, labels] of Object.entries(dictionary.columnLabels) as [ColumnField, string[]][]) {
+        for (const label of labels) {
+            const folded = fold(label);
+            const score = text === folded ? 1000 + folded.length : ` ${text} `.includes(` ${folded} `) ? folded.length : 0;
+            if (score > bestScore) {
+                best = field;
+                bestScore = score;
+            }
+        }
+    }
+    return best;
+}
+
+/**
+ * Recognizes the row of column titles ("RADICADO | DEMANDANTE | DEMANDADO | ACTUACIÓN") and
+ * returns which column holds each field. Most filled cells must be known titles naming at
+ * least two fields, so a data row mentioning "auto" or "proceso" is not mistaken for one.
+ */
+export function detectColumnHeader(row: CellValue[], dictionary: BulletinDictionary): ColumnMapping | null {
+    const filled = row.map((cell, column) => ({ cell, column })).filter(({ cell }) => !isBlank(cell));
+    if (filled.length < 2) return null;
+
+    const mapping: ColumnMapping = {};
+    let labelled = 0;
+    filled.forEach(({ cell, column }) => {
+        if (typeof cell !== 'string') return;
+        const field = labelField(cell, dictionary);
+        if (!field) return;
+        labelled++;
+        if (mapping[field] === undefined) mapping[field] = column;
+    });
+
+    const fields = Object.keys(mapping).length;
+    return fields >= 2 && labelled / filled.length >= 0.6 ? mapping : null;
+}
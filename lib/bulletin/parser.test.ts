@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { contextRows, parseSheet, type BulletinSheet, type RawSheet } from './parser';
+import { DEFAULT_DICTIONARY, extendDictionary, readDictionaryExtra } from './dictionary';
+import letterSpaced from '@/fixtures/layouts/letter-spaced.json';
+import falseHeaders from '@/fixtures/layouts/false-headers.json';
+import sharedEstado from '@/fixtures/layouts/shared-estado.json';
+
+// Courts -> estados -> row indexes, the shape the assertions compare
+const outline = (sheet: BulletinSheet) => sheet.courts.map(court => ({
+    court: court.name,
+    estados: court.estados.map(estado => ({ label: estado.label, rows: estado.rows.map(row => row.rowIndex) })),
+}));
+
+describe('parseSheet', () => {
+    it('reads letter-spaced court titles, with and without double spaces between words', () => {
+        const sheet = parseSheet(letterSpaced as RawSheet);
+
+        expect(outline(sheet)).toEqual([
+            { court: 'JUZGADO SEPTIMO CIVIL MUNICIPAL', estados: [{ label: 'ESTADO NO. 018 DEL 10 DE FEBRERO DE 2026', rows: [3, 4] }] },
+            { court: 'JUZGADO PRIMERO DE FAMILIA', estados: [{ label: 'ESTADO NO. 007 DEL 10 DE FEBRERO DE 2026', rows: [9] }] },
+        ]);
+        expect(sheet.courts[0].estados[0].estado).toEqual({ numero: 18, fecha: '2026-02-10' });
+        expect(sheet.columns).toEqual({ radicado: 0, clase: 1, demandante: 2, demandado: 3, actuacion: 4, fechaAuto: 5 });
+    });
+
+    it('keeps single-cell rows mentioning CIVIL, SALA or a month as data', () => {
+        const sheet = parseSheet(falseHeaders as RawSheet);
+
+        expect(outline(sheet)).toEqual([
+            { court: 'JUZGADO CUARTO CIVIL DEL CIRCUITO DE CALI', estados: [{ label: 'ESTADO NO. 5 FIJADO EL 3 DE MARZO DE 2026', rows: [3, 4, 5, 6, 7, 8, 9] }] },
+            // A real header with two court words still starts a court, under the same estado
+            { court: 'TRIBUNAL SUPERIOR DE CALI SALA CIVIL', estados: [{ label: 'ESTADO NO. 5 FIJADO EL 3 DE MARZO DE 2026', rows: [11] }] },
+        ]);
+        const data = sheet.courts[0].estados[0].rows.map(row => row.data[0]);
+        expect(data).toContain('RESPONSABILIDAD CIVIL CONTRACTUAL');
+        expect(data).toContain('SALA DE AUDIENCIAS No. 3');
+        expect(data).toContain('CIVIL');
+        expect(data).toContain('EMBARGO DE MAYO');
+    });
+
+    it('applies an estado printed above the courts to each of them until the next one', () => {
+        const sheet = parseSheet(sharedEstado as RawSheet);
+
+        expect(outline(sheet)).toEqual([
+            {
+                court: null,
+                estados: [
+                    { label: null, rows: [0] },
+                    { label: 'ESTADO NO. 31 DEL 12 DE FEBRERO DE 2026', rows: [] },
+                ],
+            },
+            { court: 'JUZGADO 20 CIVIL MUNICIPAL', estados: [{ label: 'ESTADO NO. 31 DEL 12 DE FEBRERO DE 2026', rows: [4] }] },
+            {
+                court: 'JUZGADO 21 CIVIL MUNICIPAL',
+                estados: [
+                    { label: 'ESTADO NO. 31 DEL 12 DE FEBRERO DE 2026', rows: [7] },
+                    { label: 'ESTADO NO. 32 DEL 13 DE FEBRERO DE 2026', rows: [9, 10] },
+                ],
+            },
+        ]);
+    });
+
+    it('skips the column titles repeated under each court', () => {
+        const sheet = parseSheet(sharedEstado as RawSheet);
+        const rows = sheet.courts.flatMap(court => court.estados.flatMap(estado => estado.rows));
+
+        expect(rows.some(row => row.data[0] === 'RADICADO')).toBe(false);
+        expect(sheet.headerRow).toEqual(sharedEstado.rows[3]);
+    });
+});
+
+describe('contextRows', () => {
+    it('flattens the document in sheet order with the court and estado of each row', () => {
+        const sheet = parseSheet(sharedEstado as RawSheet);
+        const rows = contextRows({ sheets: [sheet] }, { fileId: 'f1', fileName: 'estados.xlsx' });
+
+        expect(rows.map(row => [row.rowIndex, row.context, row.estado?.fecha ?? null])).toEqual([
+            [0, '', null],
+            [4, 'JUZGADO 20 CIVIL MUNICIPAL', '2026-02-12'],
+            [7, 'JUZGADO 21 CIVIL MUNICIPAL', '2026-02-12'],
+            [9, 'JUZGADO 21 CIVIL MUNICIPAL', '2026-02-13'],
+            [10, 'JUZGADO 21 CIVIL MUNICIPAL', '2026-02-13'],
+        ]);
+        expect(rows[1]).toMatchObject({ fileId: 'f1', fileName: 'estados.xlsx', sheetName: 'Estados 12-02-2026' });
+    });
+});
+
+describe('user dictionary words', () => {
+    const sheet: RawSheet = {
+        name: 'Hoja1',
+        rows: [
+            ['COMISARÍA SEGUNDA DE FAMILIA', null, null],
+            ['PUBLICADO EL 4 DE MARZO DE 2026', null, null],
+            ['RADICADO', 'DEMANDANTE', 'DEMANDADO'],
+            ['2026-00031', 'LAURA GÓMEZ', 'MARIO DÍAZ'],
+        ],
+    };
+
+    it('are read from a stored value, dropping what is not a word list', () => {
+        expect(readDictionaryExtra({ courtKeywords: { strong: [' comisaria '], weak: 'x' }, estadoKeywords: ['PUBLICADO', 3], other: [] }))
+            .toEqual({ courtKeywords: { strong: ['comisaria'], weak: [] } });
+        expect(readDictionaryExtra(null)).toEqual({});
+    });
+
+    it('find headers the default dictionary misses', () => {
+        const before = parseSheet(sheet);
+        expect(before.courts[0].name).toBeNull();
+
+        const words = readDictionaryExtra({ courtKeywords: { strong: ['COMISARIA'], weak: [] }, estadoKeywords: ['PUBLICADO'] });
+        const after = parseSheet(sheet, extendDictionary(DEFAULT_DICTIONARY, words));
+        expect(outline(after)).toEqual([
+            { court: 'COMISARÍA SEGUNDA DE FAMILIA', estados: [{ label: 'PUBLICADO EL 4 DE MARZO DE 2026', rows: [3] }] },
+        ]);
+        expect(after.courts[0].estados[0].estado?.fecha).toBe('2026-03-04');
+    });
+});
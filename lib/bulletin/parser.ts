@@ -0,0 +1,146 @@
+import type { CellValue } from '../types';
+import { DEFAULT_DICTIONARY, type BulletinDictionary } from './dictionary';
+import { classifyHeaderRow, detectColumnHeader } from './headers';
+import type { ParsedEstado } from './estado';
+import { DEFAULT_MAPPING, type ColumnMapping } from '../columns';
+
+export interface BulletinRow {
+    rowIndex: number; // 0-based index in the sheet
+    data: CellValue[];
+}
+
+export interface EstadoSection {
+    label: string | null; // Raw estado header, null for rows before the first one
+    estado: ParsedEstado | null;
+    rowIndex: number | null; // Row of the header, null when inherited or missing
+    rows: BulletinRow[];
+}
+
+export interface CourtSection {
+    name: string | null; // Cleaned juzgado name, null for rows before the first court header
+    rowIndex: number | null;
+    estados: EstadoSection[];
+}
+
+export interface BulletinSheet {
+    name: string;
+    courts: CourtSection[];
+    columns: ColumnMapping | null; // From the first row of column titles, null when the sheet has none
+    headerRow: CellValue[] | null; // That row as written, to show the titles when mapping by hand
+}
+
+export interface BulletinDocument {
+    sheets: BulletinSheet[];
+}
+
+// A data row together with the headers it falls under, as used by search and exports
+export interface ContextRow extends BulletinRow {
+    fileId: string;
+    fileName: string;
+    sheetName: string;
+    context: string; // Juzgado, '' when unattributed
+    stateContext: string; // Estado header, '' when none
+    estado: ParsedEstado | null;
+    columns: ColumnMapping; // Where the fields are in `data`
+    mergedRows?: number[]; // Continuation rows folded into `data` from the detail panel
+}
+
+export interface RawSheet {
+    name: string;
+    rows: CellValue[][];
+}
+
+export type RowKind = 'court' | 'estado' | 'columns' | 'data' | 'empty';
+
+const isEmptyRow = (row: CellValue[]) => row.every(cell => cell === null || cell === undefined || String(cell).trim() === '');
+
+// What parseSheet takes a raw row for, checked in the same order
+export function classifyRow(row: CellValue[], dictionary: BulletinDictionary = DEFAULT_DICTIONARY): RowKind {
+    const header = classifyHeaderRow(row, dictionary);
+    if (header) return header.kind;
+    if (isEmptyRow(row)) return 'empty';
+    return detectColumnHeader(row, dictionary) ? 'columns' : 'data';
+}
+
+/**
+ * Splits the rows of one sheet into courts -> estados -> rows. An estado header that appears
+ * before a court header keeps applying to the following courts until a new estado appears,
+ * since many bulletins print the fixation date once at the top. Rows of column titles are
+ * not data: the first one gives the sheet its column mapping, repeats under each court are skipped.
+ */
+export function parseSheet(sheet: RawSheet, dictionary: BulletinDictionary = DEFAULT_DICTIONARY): BulletinSheet {
+    const courts: CourtSection[] = [];
+    let court: CourtSection | null = null;
+    let estado: EstadoSection | null = null;
+
+    const startCourt = (name: string | null, rowIndex: number | null) => {
+        court = { name, rowIndex, estados: [] };
+        courts.push(court);
+        estado = null;
+    };
+
+    const startEstado = (label: string | null, parsed: ParsedEstado | null, rowIndex: number | null) => {
+        if (!court) startCourt(null, null);
+        estado = { label, estado: parsed, rowIndex, rows: [] };
+        court!.estados.push(estado);
+    };
+
+    let currentEstadoLabel: string | null = null;
+    let currentEstado: ParsedEstado | null = null;
+    let columns: ColumnMapping | null = null;
+    let headerRow: CellValue[] | null = null;
+
+    sheet.rows.forEach((row, rowIndex) => {
+        const header = classifyHeaderRow(row, dictionary);
+        if (header?.kind === 'court') {
+            startCourt(header.text, rowIndex);
+            return;
+        }
+        if (header?.kind === 'estado') {
+            currentEstadoLabel = header.text;
+            currentEstado = header.estado ?? null;
+            startEstado(header.text, currentEstado, rowIndex);
+            return;
+        }
+        if (isEmptyRow(row)) return;
+
+        const titles = detectColumnHeader(row, dictionary);
+        if (titles) {
+            if (!columns) {
+                columns = titles;
+                headerRow = row;
+            }
+            return;
+        }
+
+        if (!estado) startEstado(currentEstadoLabel, currentEstado, null);
+        estado!.rows.push({ rowIndex, data: row });
+    });
+
+    return { name: sheet.name, courts, columns, headerRow };
+}
+
+export function parseBulletin(sheets: RawSheet[], dictionary: BulletinDictionary = DEFAULT_DICTIONARY): BulletinDocument {
+    return { sheets: sheets.map(sheet => parseSheet(sheet, dictionary)) };
+}
+
+// Flattens the document back into sheet order, each row carrying its source file and court / estado context
+export function contextRows(document: BulletinDocument, source: { fileId: string; fileName: string }): ContextRow[] {
+    const rows: ContextRow[] = [];
+    document.sheets.forEach(sheet => {
+        sheet.courts.forEach(court => {
+            court.estados.forEach(estado => {
+                estado.rows.forEach(row => rows.push({
+                    ...row,
+                    ...source,
+                    sheetName: sheet.name,
+                    context: court.name ?? '',
+                    stateContext: estado.label ?? '',
+                    estado: estado.estado,
+                    columns: sheet.columns ?? DEFAULT_MAPPING,
+                }));
+            });
+        });
+    });
+    return rows;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { RawSheet } from './parser';
+import { DEFAULT_MAPPING } from '../columns';
+import { mergeContinuation, sheetRegion } from './region';
+
+const SHEET: RawSheet = {
+    name: 'Estados',
+    rows: [
+        ['JUZGADO PRIMERO CIVIL MUNICIPAL', null, null, null],
+        ['ESTADO NO. 18 DEL 10 DE FEBRERO DE 2026', null, null, null],
+        ['RADICADO', 'DEMANDANTE', 'DEMANDADO', 'ACTUACIÓN'],
+        ['11001400300120230012300', 'BANCO DE', 'LAURA', 'AUTO LIBRA MANDAMIENTO'],
+        [null, 'BOGOTA S.A.', 'GÓMEZ', 'DE PAGO'],
+        [null, null, null, 'Y DECRETA MEDIDAS'],
+        ['11001400300120230045600', 'SOBUSA S.A.S.', 'MARIO DÍAZ', 'AUTO ADMITE DEMANDA'],
+        ['ESTADO NO. 19 DEL 12 DE FEBRERO DE 2026', null, null, null],
+        ['11001400300120240000100', 'ANA RUIZ', 'LUIS MORA', 'AUTO INADMITE'],
+    ],
+};
+
+describe('sheetRegion', () => {
+    it('finds the continuation rows below a record, up to the next radicado', () => {
+        const region = sheetRegion(SHEET, 3, DEFAULT_MAPPING, undefined, 1);
+        expect(region.continuation).toEqual([4, 5]);
+        // The radius grows to show the whole record
+        expect(region.rows.map(r => [r.rowIndex, r.kind])).toEqual([
+            [0, 'court'], [1, 'estado'], [2, 'columns'], [3, 'data'], [4, 'data'], [5, 'data'],
+        ]);
+    });
+
+    it('includes the headers the row was read under, however far above', () => {
+        const region = sheetRegion(SHEET, 8, DEFAULT_MAPPING, undefined, 1);
+        expect(region).toMatchObject({ courtRow: 0, estadoRow: 7, continuation: [] });
+        expect(region.rows.map(r => r.rowIndex)).toEqual([0, 2, 7, 8]);
+    });
+
+    it('has no continuation for a row without a radicado', () => {
+        expect(sheetRegion(SHEET, 4, DEFAULT_MAPPING).continuation).toEqual([]);
+    });
+});
+
+describe('mergeContinuation', () => {
+    it('appends the text below each cell and keeps the cells that have none', () => {
+        expect(mergeContinuation(SHEET.rows[3], [SHEET.rows[4], SHEET.rows[5]])).toEqual([
+            '11001400300120230012300',
+            'BANCO DE BOGOTA S.A.',
+            'LAURA GÓMEZ',
+            'AUTO LIBRA MANDAMIENTO DE PAGO Y DECRETA MEDIDAS',
+        ]);
+    });
+
+    it('keeps the text of the record at the start, so match offsets still hold', () => {
+        const merged = mergeContinuation(['  X', 'AUTO  '], [[null, ' DE PAGO'], [null, null, 'EXTRA']]);
+        expect(merged).toEqual(['  X', 'AUTO DE PAGO', 'EXTRA']);
+    });
+});
@@ -0,0 +1,91 @@
+import type { CellValue } from '../types';
+import type { ColumnMapping } from '../columns';
+import { classifyRow, type RawSheet, type RowKind } from './parser';
+import { DEFAULT_DICTIONARY, type BulletinDictionary } from './dictionary';
+
+export interface RegionRow {
+    rowIndex: number; // 0-based, as in the sheet
+    kind: RowKind;
+    data: CellValue[];
+}
+
+export interface SheetRegion {
+    sheetName: string;
+    rowIndex: number; // The matched row
+    rows: RegionRow[]; // In sheet order: the headers the row falls under, then the rows around it
+    courtRow: number | null; // Court / estado header the row falls under, however far above it is
+    estadoRow: number | null;
+    continuation: number[]; // Rows below that carry on the record: text without a radicado of its own
+}
+
+// Rows shown above and below the match
+export const REGION_RADIUS = 6;
+
+// Records rarely wrap over more lines; past this it is more likely a block without radicados
+const MAX_CONTINUATION = 8;
+
+const isBlank = (cell: CellValue | undefined) => cell === null || cell === undefined || String(cell).trim() === '';
+
+/**
+ * The part of the sheet around a matched row, as the bulletin has it. Headers apply until the
+ * next one, so the closest court, estado and column-title rows above the match are the ones
+ * it was read under; they are included even when they are pages above the row.
+ */
+export function sheetRegion(
+    sheet: RawSheet,
+    rowIndex: number,
+    columns: ColumnMapping,
+    dictionary: BulletinDictionary = DEFAULT_DICTIONARY,
+    radius = REGION_RADIUS,
+): SheetRegion {
+    const kinds = new Map<number, RowKind>();
+    const kindOf = (index: number) => {
+        if (!kinds.has(index)) kinds.set(index, classifyRow(sheet.rows[index], dictionary));
+        return kinds.get(index)!;
+    };
+
+    let courtRow: number | null = null;
+    let estadoRow: number | null = null;
+    let columnsRow: number | null = null;
+    for (let i = rowIndex - 1; i >= 0 && (courtRow === null || estadoRow === null || columnsRow === null); i--) {
+        const kind = kindOf(i);
+        if (kind === 'court' && courtRow === null) courtRow = i;
+        if (kind === 'estado' && estadoRow === null) estadoRow = i;
+        if (kind === 'columns' && columnsRow === null) columnsRow = i;
+    }
+
+    const continuation: number[] = [];
+    const radicado = columns.radicado;
+    if (radicado !== undefined && !isBlank(sheet.rows[rowIndex]?.[radicado])) {
+        for (let i = rowIndex + 1; i < sheet.rows.length && continuation.length < MAX_CONTINUATION; i++) {
+            if (kindOf(i) !== 'data' || !isBlank(sheet.rows[i][radicado])) break;
+            continuation.push(i);
+        }
+    }
+
+    const indexes = new Set<number>();
+    [courtRow, estadoRow, columnsRow].forEach(i => { if (i !== null) indexes.add(i); });
+    const last = Math.min(Math.max(rowIndex + radius, continuation[continuation.length - 1] ?? 0), sheet.rows.length - 1);
+    for (let i = Math.max(rowIndex - radius, 0); i <= last; i++) indexes.add(i);
+
+    return {
+        sheetName: sheet.name,
+        rowIndex,
+        rows: Array.from(indexes).sort((a, b) => a - b).map(i => ({ rowIndex: i, kind: kindOf(i), data: sheet.rows[i] })),
+        courtRow,
+        estadoRow,
+        continuation,
+    };
+}
+
+// The record with its continuation rows folded in: each cell gets the text below it appended,
+// so offsets of matches in the original text still hold
+export function mergeContinuation(data: CellValue[], rows: CellValue[][]): CellValue[] {
+    const width = Math.max(data.length, ...rows.map(row => row.length));
+    return Array.from({ length: width }, (_, column) => {
+        const parts = [data[column], ...rows.map(row => row[column])].filter(cell => !isBlank(cell));
+        if (parts.length === 0) return data[column] ?? null;
+        if (parts.length === 1) return parts[0]!;
+        return parts.map((cell, i) => i === 0 ? String(cell).trimEnd() : String(cell).trim()).join(' ');
+    });
+}
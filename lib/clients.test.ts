@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { ContextRow } from './bulletin/parser';
+import type { SearchResult } from './types';
+import { DEFAULT_MAPPING } from './columns';
+import { DEFAULT_MATCH_OPTIONS } from './matcher';
+import { createRowMatcher } from './search';
+import { clientTerm, crossClients, documentDigits, type ClientEntry } from './clients';
+
+const client = (id: string, name: string, document = ''): ClientEntry => ({ id, name, document, code: '' });
+
+const row = (rowIndex: number, demandante: string, demandado: string, actuacion = 'AUTO ADMITE DEMANDA'): ContextRow => ({
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName: 'Hoja1',
+    rowIndex,
+    data: [`1100140030012023001${String(rowIndex).padStart(2, '0')}00`, demandante, demandado, actuacion],
+    context: 'JUZGADO PRIMERO CIVIL MUNICIPAL DE BOGOTÁ',
+    stateContext: '',
+    estado: null,
+    columns: DEFAULT_MAPPING,
+});
+
+const ROWS = [
+    row(0, 'BANCO POPULAR DE BOGOTA S.A.', 'LAURA GÓMEZ'),
+    row(1, 'BANCO DE BOGOTA S.A.', 'MARIO DÍAZ'),
+    row(2, 'JUAN PÉREZ GÓMEZ', 'ANA RUIZ'),
+    row(3, 'CARLOS ORTIZ', 'JUAN PÉREZ RUIZ'),
+    row(4, 'SOBUSA S.A.S.', 'LUIS MORA', 'REQUIERE A NIT 900.123.456-7'),
+];
+
+// What the cross search does: every client term at once, with no default field and exact matching
+function cross(clients: ClientEntry[]) {
+    const matchRow = createRowMatcher(clients.map(clientTerm).filter(Boolean), DEFAULT_MATCH_OPTIONS, null);
+    const results = ROWS.map(matchRow).filter((r): r is SearchResult => r !== null);
+    return crossClients(clients, results).map(({ client, status, results, reasons }) =>
+        ({ client: client.id, status, rows: results.map(r => r.rowIndex), reasons }));
+}
+
+describe('clientTerm', () => {
+    it('looks for the exact name in either party column', () => {
+        expect(clientTerm(client('c1', ' Banco  de "Bogotá" '))).toBe('demandante:"Banco de Bogotá" OR demandado:"Banco de Bogotá"');
+    });
+
+    it('adds the NIT digits without the verification digit, when long enough', () => {
+        expect(documentDigits('900.123.456-7')).toBe('900123456');
+        expect(clientTerm(client('c1', 'Sobusa', '900.123.456-7'))).toBe('demandante:"Sobusa" OR demandado:"Sobusa" OR 900123456');
+        expect(clientTerm(client('c1', '', '12.345'))).toBe('');
+    });
+});
+
+describe('crossClients', () => {
+    it('finds a client by its exact name only', () => {
+        expect(cross([client('bogota', 'Banco de Bogotá')])).toEqual([
+            { client: 'bogota', status: 'match', rows: [2], reasons: [] },
+        ]);
+    });
+
+    it('finds a client by its NIT anywhere in the row', () => {
+        expect(cross([client('sobusa', 'Sociedad de Buses', '900123456-7')])).toEqual([
+            { client: 'sobusa', status: 'match', rows: [5], reasons: [] },
+        ]);
+    });
+
+    it('marks a name found in different parties as ambiguous', () => {
+        expect(cross([client('perez', 'Juan Pérez')])).toEqual([
+            { client: 'perez', status: 'ambiguous', rows: [3, 4], reasons: ['El nombre aparece en 2 partes distintas'] },
+        ]);
+    });
+
+    it('marks clients that share rows with another client as ambiguous', () => {
+        expect(cross([client('perez', 'Juan Pérez Gómez'), client('ruiz', 'Ana Ruiz'), client('nadie', 'Pedro Páramo')])).toEqual([
+            { client: 'perez', status: 'ambiguous', rows: [3], reasons: ['Otro cliente de la lista coincide con las mismas filas'] },
+            { client: 'ruiz', status: 'ambiguous', rows: [3], reasons: ['Otro cliente de la lista coincide con las mismas filas'] },
+            { client: 'nadie', status: 'none', rows: [], reasons: [] },
+        ]);
+    });
+});
@@ -0,0 +1,144 @@
+import type { CellValue, SearchResult } from './types';
+import type { RawSheet } from './bulletin/parser';
+import { adapterFor } from './bulletin/adapters';
+import { foldAccents, normalizeTerm } from './normalize';
+import { createLocalStore } from './storage';
+
+export interface ClientEntry {
+    id: string;
+    name: string; // Name or razón social as it appears in the firm's list
+    document: string; // NIT or cédula as written, verification digit included
+    code: string; // Internal client code, only shown in the report
+}
+
+export interface ClientList {
+    fileName: string | null; // Spreadsheet the list was read from
+    clients: ClientEntry[];
+}
+
+const EMPTY_LIST: ClientList = { fileName: null, clients: [] };
+
+export const clientListStore = createLocalStore<ClientList>(
+    'buscador-procesos:client-list',
+    EMPTY_LIST,
+    value => value && typeof value === 'object' && Array.isArray((value as ClientList).clients)
+        ? { fileName: (value as ClientList).fileName ?? null, clients: (value as ClientList).clients.filter(c => c && typeof c.name === 'string') }
+        : EMPTY_LIST
+);
+
+// Column titles of a client list (folded, lowercase)
+const TITLES: Record<'name' | 'document' | 'code', RegExp> = {
+    name: /\b(nombre|cliente|razon social|parte)\b/,
+    document: /\b(nit|cedula|c\.?c|documento|identificacion)\b/,
+    code: /\b(codigo|cod|referencia|ref|interno)\b/,
+};
+
+// Rows looked at for the column titles
+const TITLE_SCAN_ROWS = 10;
+
+const cellText = (cell: CellValue | undefined) => cell === null || cell === undefined ? '' : String(cell).replace(/\s+/g, ' ').trim();
+
+// Column of each field from the first row that has the titles; name / NIT / code in that order otherwise
+function clientColumns(rows: CellValue[][]) {
+    for (let i = 0; i < Math.min(rows.length, TITLE_SCAN_ROWS); i++) {
+        const titles = rows[i].map(cell => foldAccents(cellText(cell)).toLowerCase());
+        const find = (pattern: RegExp) => titles.findIndex(title => pattern.test(title));
+        const columns = { name: find(TITLES.name), document: find(TITLES.document), code: find(TITLES.code) };
+        if (columns.name >= 0 || columns.document >= 0) return { columns, firstRow: i + 1 };
+    }
+    return { columns: { name: 0, document: 1, code: 2 }, firstRow: 0 };
+}
+
+// Clients of the first sheet that has any; rows without a name or a document are skipped
+export function parseClientList(sheets: RawSheet[]): ClientEntry[] {
+    for (const sheet of sheets) {
+        const { columns, firstRow } = clientColumns(sheet.rows);
+        const clients = sheet.rows.slice(firstRow).flatMap((row, i) => {
+            const name = columns.name >= 0 ? cellText(row[columns.name]) : '';
+            const document = columns.document >= 0 ? cellText(row[columns.document]) : '';
+            if (!name && !document) return [];
+            return [{ id: `${sheet.name}-${firstRow + i}`, name, document, code: columns.code >= 0 ? cellText(row[columns.code]) : '' }];
+        });
+        if (clients.length > 0) return clients;
+    }
+    return [];
+}
+
+// Excel or CSV exported from the firm's client register, read with the bulletin adapters
+export async function readClientList(file: File): Promise<ClientEntry[]> {
+    const sheets = await adapterFor(file.name).read(await file.arrayBuffer(), file.name, async () => {});
+    return parseClientList(sheets);
+}
+
+// Shorter numbers match too many unrelated figures in a bulletin
+const MIN_DOCUMENT_DIGITS = 6;
+
+// "900.123.456-7" -> "900123456": bulletins that print a NIT rarely include the verification digit
+export function documentDigits(document: string) {
+    return document.split('-')[0].replace(/\D/g, '');
+}
+
+/**
+ * The search term for a client: the exact name in either party column, or the NIT / cédula
+ * anywhere in the row. One term per client, so each result says which client it is for. Search
+ * it without a default field, or the document is only looked for in that field.
+ */
+export function clientTerm(client: ClientEntry) {
+    const parts: string[] = [];
+    const name = client.name.replace(/["()]/g, ' ').replace(/\s+/g, ' ').trim();
+    if (name) parts.push(`demandante:"${name}" OR demandado:"${name}"`);
+    const digits = documentDigits(client.document);
+    if (digits.length >= MIN_DOCUMENT_DIGITS) parts.push(digits);
+    return parts.join(' OR ');
+}
+
+export type ClientMatchStatus = 'match' | 'ambiguous' | 'none';
+
+export const CLIENT_MATCH_STATUSES: { status: ClientMatchStatus; label: string }[] = [
+    { status: 'match', label: 'Con coincidencias' },
+    { status: 'ambiguous', label: 'Ambiguo' },
+    { status: 'none', label: 'Sin coincidencias' },
+];
+
+export const clientMatchLabel = (status: ClientMatchStatus) => CLIENT_MATCH_STATUSES.find(s => s.status === status)!.label;
+
+export interface ClientMatch {
+    client: ClientEntry;
+    status: ClientMatchStatus;
+    results: SearchResult[]; // Rows found for the client, in sheet order
+    reasons: string[]; // Why an ambiguous client needs a look
+}
+
+// Text of the cells the term matched, without company suffixes, to tell different parties apart
+function matchedParties(result: SearchResult, term: string) {
+    const match = result.matches.find(m => m.term === term);
+    const columns = new Set((match?.ranges ?? []).map(r => r.column).filter(column => column >= 0));
+    return Array.from(columns).map(column => normalizeTerm(cellText(result.data[column])).join(' ')).filter(Boolean);
+}
+
+/**
+ * Sorts the rows of a cross search into one entry per client. A client is ambiguous when it was
+ * only found approximately, when its name is in cells of different parties ("JUAN PÉREZ" in
+ * both "JUAN PÉREZ GÓMEZ" and "JUAN PÉREZ RUIZ"), or when another client of the list found
+ * the same rows.
+ */
+export function crossClients(clients: ClientEntry[], results: SearchResult[]): ClientMatch[] {
+    const clientsByRow = new Map<string, Set<string>>();
+    const found = clients.map(client => {
+        const term = clientTerm(client);
+        const rows = term ? results.filter(r => r.matches.some(m => m.term === term)) : [];
+        rows.forEach(r => clientsByRow.set(r.id, (clientsByRow.get(r.id) ?? new Set()).add(client.id)));
+        return { client, term, rows };
+    });
+
+    return found.map(({ client, term, rows }) => {
+        if (rows.length === 0) return { client, status: 'none', results: [], reasons: [] };
+
+        const reasons: string[] = [];
+        if (rows.every(r => r.matches.find(m => m.term === term)!.score < 1)) reasons.push('Solo coincidencias aproximadas');
+        const parties = new Set(rows.flatMap(r => matchedParties(r, term)));
+        if (parties.size > 1) reasons.push(`El nombre aparece en ${parties.size} partes distintas`);
+        if (rows.some(r => clientsByRow.get(r.id)!.size > 1)) reasons.push('Otro cliente de la lista coincide con las mismas filas');
+        return { client, status: reasons.length > 0 ? 'ambiguous' : 'match', results: rows, reasons };
+    });
+}
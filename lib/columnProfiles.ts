@@ -0,0 +1,16 @@
+import { createLocalStore } from './storage';
+import type { ColumnMapping } from './columns';
+
+export interface ColumnProfile {
+    id: string;
+    name: string; // "Juzgados civiles de Cali", chosen by the user
+    mapping: ColumnMapping;
+}
+
+const EMPTY: ColumnProfile[] = [];
+
+export const columnProfilesStore = createLocalStore<ColumnProfile[]>(
+    'buscador-procesos:column-profiles',
+    EMPTY,
+    value => Array.isArray(value) ? value.filter(p => p && typeof p.name === 'string' && p.mapping && typeof p.mapping === 'object') : EMPTY
+);
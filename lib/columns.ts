@@ -0,0 +1,53 @@
+import type { CellValue } from './types';
+import { excelSerialToISO, formatDate } from './dates';
+
+export type ColumnField = 'radicado' | 'demandante' | 'demandado' | 'actuacion' | 'clase' | 'fechaAuto';
+
+export const COLUMN_FIELDS: { field: ColumnField; label: string }[] = [
+    { field: 'radicado', label: 'Radicado' },
+    { field: 'demandante', label: 'Demandante' },
+    { field: 'demandado', label: 'Demandado' },
+    { field: 'actuacion', label: 'Actuación' },
+    { field: 'clase', label: 'Clase de proceso' },
+    { field: 'fechaAuto', label: 'Fecha auto' },
+];
+
+// Column index of each field in a sheet; fields the bulletin does not have are left out
+export type ColumnMapping = Partial<Record<ColumnField, number>>;
+
+// Layout of the first bulletins the app was written for, used when a sheet has no header row
+export const DEFAULT_MAPPING: ColumnMapping = { radicado: 0, demandante: 1, demandado: 2, actuacion: 3 };
+
+// "A", "B", ... "Z", "AA": the column names the user sees in Excel
+export function columnLetter(index: number) {
+    let letter = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+}
+
+export function fieldValue(data: CellValue[], mapping: ColumnMapping, field: ColumnField): CellValue {
+    const column = mapping[field];
+    return column === undefined ? null : data[column] ?? null;
+}
+
+// Display text of a field; Excel keeps dates as day serials, shown here as dd/mm/yyyy
+export function fieldText(data: CellValue[], mapping: ColumnMapping, field: ColumnField) {
+    const value = fieldValue(data, mapping, field);
+    if (value === null) return '';
+    if (field === 'fechaAuto' && typeof value === 'number') return formatDate(excelSerialToISO(value)) || String(value);
+    return String(value).trim();
+}
+
+// Non-empty columns no field points to, shown as "Otros datos"
+export function unmappedColumns(data: CellValue[], mapping: ColumnMapping) {
+    const mapped = new Set(Object.values(mapping));
+    return data
+        .map((cell, column) => ({ cell, column }))
+        .filter(({ cell, column }) => !mapped.has(column) && cell !== null && String(cell).trim() !== '')
+        .map(({ column }) => column);
+}
+
+export const sameMapping = (a: ColumnMapping, b: ColumnMapping) =>
+    COLUMN_FIELDS.every(({ field }) => a[field] === b[field]);
@@ -0,0 +1,40 @@
+// Dates are passed around as ISO "YYYY-MM-DD" strings: they sort as text, survive JSON and
+// match the value of <input type="date">.
+
+export function toISODate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+}
+
+// Calendar day of a timestamp in the user's time zone
+export function localISODate(date: Date) {
+    return toISODate(date.getFullYear(), date.getMonth() + 1, date.getDate())!;
+}
+
+export const todayISO = () => localISODate(new Date());
+
+// "2026-02-10" -> "10/02/2026", the format used across the UI and the reports
+export function formatDate(iso: string | null | undefined) {
+    if (!iso) return '';
+    const [year, month, day] = iso.split('-');
+    return `${day}/${month}/${year}`;
+}
+
+// Excel stores dates as days since 1899-12-30 (the epoch absorbs its 1900 leap-year bug)
+export function excelSerialToISO(serial: number) {
+    if (!Number.isFinite(serial) || serial < 1) return null;
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000);
+    return date.toISOString().slice(0, 10);
+}
+
+// Calendar arithmetic on ISO dates, done in UTC so daylight saving never shifts a day
+export const addDays = (iso: string, days: number) =>
+    new Date(Date.parse(iso) + days * 86400000).toISOString().slice(0, 10);
+
+// 0 = Sunday … 6 = Saturday
+export const weekday = (iso: string) => new Date(Date.parse(iso)).getUTCDay();
+
+// Calendar days from `from` to `to`, negative when `to` comes first
+export const daysBetween = (from: string, to: string) =>
+    Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
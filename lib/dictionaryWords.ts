@@ -0,0 +1,11 @@
+import { createLocalStore } from './storage';
+import { readDictionaryExtra, type BulletinDictionary } from './bulletin/dictionary';
+
+const NO_WORDS: Partial<BulletinDictionary> = {};
+
+// Header words added by the user; sent to the worker with each file, on top of dictionary.json
+export const dictionaryWordsStore = createLocalStore<Partial<BulletinDictionary>>(
+    'buscador-procesos:dictionary-words',
+    NO_WORDS,
+    readDictionaryExtra
+);
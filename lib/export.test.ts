@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SearchResult } from './types';
+import { parseRadicado } from './radicado';
+import { DEFAULT_EXPORT_COLUMNS, exportColumnsStore, exportTable, type ExportColumnChoice } from './export';
+
+const RESULT: SearchResult = {
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName: 'Hoja1',
+    rowIndex: 7,
+    // A sheet with the actuación before the parties
+    data: ['AUTO ADMITE DEMANDA', '11001400300120230012300', 'BANCO X', 'PEREZ'],
+    id: 'f1:6',
+    context: '',
+    stateContext: 'ESTADO NO. 18 DEL 10 DE FEBRERO DE 2026',
+    estado: { numero: 18, fecha: '2026-02-10' },
+    matches: [],
+    radicado: parseRadicado('11001400300120230012300'),
+    columns: { actuacion: 0, radicado: 1, demandante: 2, demandado: 3 },
+};
+
+const choices = (...keys: ExportColumnChoice['key'][]) => keys.map(key => ({ key, enabled: true }));
+
+describe('exportTable', () => {
+    it('writes the enabled columns in the chosen order, reading fields through the mapping', () => {
+        expect(exportTable([RESULT], [...choices('demandado', 'radicado', 'juzgado', 'fechaFijacion', 'fila'), { key: 'actuacion', enabled: false }])).toEqual([
+            ['Demandado', 'Radicado', 'Juzgado', 'Fecha de fijación', 'Fila'],
+            ['PEREZ', '11001-40-03-001-2023-00123-00', 'Sin asignar', '10/02/2026', 7],
+        ]);
+    });
+
+    it('leaves fields the sheet does not have empty', () => {
+        expect(exportTable([RESULT], choices('clase', 'fechaAuto'))[1]).toEqual(['', '']);
+    });
+
+    it('starts with clase, fecha auto and the fixation date off', () => {
+        expect(DEFAULT_EXPORT_COLUMNS.filter(c => !c.enabled).map(c => c.key)).toEqual(['fechaFijacion', 'clase', 'fechaAuto']);
+    });
+});
+
+describe('saved column choices', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const read = (saved: unknown) => {
+        vi.stubGlobal('window', { localStorage: { getItem: () => JSON.stringify(saved) } });
+        return exportColumnsStore.get();
+    };
+
+    it('keep their order, drop unknown keys and get the columns added since', () => {
+        const saved = read([{ key: 'fila', enabled: 1 }, { key: 'telefono', enabled: true }, { key: 'juzgado', enabled: false }]);
+        expect(saved.slice(0, 2)).toEqual([{ key: 'fila', enabled: true }, { key: 'juzgado', enabled: false }]);
+        expect(saved.map(c => c.key).sort()).toEqual(DEFAULT_EXPORT_COLUMNS.map(c => c.key).sort());
+        expect(saved.slice(2)).toEqual(DEFAULT_EXPORT_COLUMNS.filter(c => c.key !== 'fila' && c.key !== 'juzgado'));
+    });
+
+    it('fall back to the defaults when they are not a list', () => {
+        expect(read({ juzgado: true })).toBe(DEFAULT_EXPORT_COLUMNS);
+    });
+});
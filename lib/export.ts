@@ -0,0 +1,138 @@
+import * as XLSX from 'xlsx';
+import { saveAs } from 'file-saver';
+import type { SearchResult } from './types';
+import { fieldText } from './columns';
+import { formatEstado } from './bulletin/estado';
+import { formatDate } from './dates';
+import { createLocalStore } from './storage';
+import { clientMatchLabel, type ClientMatch } from './clients';
+import type { BulletinStats, SheetStat } from './stats';
+
+export type ExportColumnKey =
+    | 'juzgado' | 'estado' | 'fechaFijacion' | 'radicado' | 'demandante' | 'demandado'
+    | 'actuacion' | 'clase' | 'fechaAuto' | 'archivo' | 'hoja' | 'fila';
+
+interface ExportColumn {
+    key: ExportColumnKey;
+    label: string;
+    value: (result: SearchResult) => string | number;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: 'juzgado', label: 'Juzgado', value: r => r.context || 'Sin asignar' },
+    { key: 'estado', label: 'Estado / Fecha', value: r => formatEstado(r) },
+    { key: 'fechaFijacion', label: 'Fecha de fijación', value: r => formatDate(r.estado?.fecha) },
+    { key: 'radicado', label: 'Radicado', value: r => r.radicado?.formatted || fieldText(r.data, r.columns, 'radicado') },
+    { key: 'demandante', label: 'Demandante', value: r => fieldText(r.data, r.columns, 'demandante') },
+    { key: 'demandado', label: 'Demandado', value: r => fieldText(r.data, r.columns, 'demandado') },
+    { key: 'actuacion', label: 'Actuación', value: r => fieldText(r.data, r.columns, 'actuacion') },
+    { key: 'clase', label: 'Clase de proceso', value: r => fieldText(r.data, r.columns, 'clase') },
+    { key: 'fechaAuto', label: 'Fecha auto', value: r => fieldText(r.data, r.columns, 'fechaAuto') },
+    { key: 'archivo', label: 'Archivo', value: r => r.fileName },
+    { key: 'hoja', label: 'Hoja', value: r => r.sheetName },
+    { key: 'fila', label: 'Fila', value: r => r.rowIndex },
+];
+
+export interface ExportColumnChoice {
+    key: ExportColumnKey;
+    enabled: boolean;
+}
+
+// Every column in its default order. Clase and fecha auto are off since few bulletins have them,
+// and the fixation date is already part of "Estado / Fecha".
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnChoice[] = EXPORT_COLUMNS.map(({ key }) => ({
+    key,
+    enabled: key !== 'clase' && key !== 'fechaAuto' && key !== 'fechaFijacion',
+}));
+
+// Keeps the saved order, drops unknown keys and appends columns added since it was saved
+function validateChoices(value: unknown): ExportColumnChoice[] {
+    if (!Array.isArray(value)) return DEFAULT_EXPORT_COLUMNS;
+    const known = value.filter((c): c is ExportColumnChoice => c && EXPORT_COLUMNS.some(col => col.key === c.key));
+    const missing = DEFAULT_EXPORT_COLUMNS.filter(d => !known.some(c => c.key === d.key));
+    return [...known.map(c => ({ key: c.key, enabled: !!c.enabled })), ...missing];
+}
+
+export const exportColumnsStore = createLocalStore<ExportColumnChoice[]>(
+    'buscador-procesos:export-columns',
+    DEFAULT_EXPORT_COLUMNS,
+    validateChoices
+);
+
+export function exportLabel(key: ExportColumnKey) {
+    return EXPORT_COLUMNS.find(c => c.key === key)!.label;
+}
+
+// Header row followed by one row per result, with the enabled columns in the chosen order
+export function exportTable(results: SearchResult[], choices: ExportColumnChoice[]): (string | number)[][] {
+    const columns = choices
+        .filter(c => c.enabled)
+        .map(c => EXPORT_COLUMNS.find(col => col.key === c.key)!);
+    return [
+        columns.map(c => c.label),
+        ...results.map(r => columns.map(c => c.value(r))),
+    ];
+}
+
+const saveWorkbook = (workbook: XLSX.WorkBook, fileName: string) => {
+    const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+    saveAs(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), fileName);
+};
+
+export function exportToExcel(results: SearchResult[], choices: ExportColumnChoice[], fileName: string) {
+    const sheet = XLSX.utils.aoa_to_sheet(exportTable(results, choices));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Procesos');
+    saveWorkbook(workbook, fileName);
+}
+
+// "Cruce de estados": a summary sheet with one row per client and the processes found for each,
+// in the export columns the user chose
+export function exportCrossToExcel(matches: ClientMatch[], choices: ExportColumnChoice[], fileName: string) {
+    const summary = XLSX.utils.aoa_to_sheet([
+        ['Cliente', 'NIT / Cédula', 'Código', 'Resultado', 'Procesos', 'Observaciones'],
+        ...matches.map(({ client, status, results, reasons }) =>
+            [client.name, client.document, client.code, clientMatchLabel(status), results.length, reasons.join('; ')]),
+    ]);
+    const [header, ...rows] = exportTable(matches.flatMap(m => m.results), choices);
+    let row = 0;
+    const processes = XLSX.utils.aoa_to_sheet([
+        ['Cliente', 'Código', 'Resultado', ...header],
+        ...matches.flatMap(({ client, status, results }) =>
+            results.map(() => [client.name, client.code, clientMatchLabel(status), ...rows[row++]])),
+    ]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, summary, 'Resumen');
+    XLSX.utils.book_append_sheet(workbook, processes, 'Procesos');
+    saveWorkbook(workbook, fileName);
+}
+
+// Aggregates of the statistics view, one sheet per table
+export function exportStatsToExcel(stats: BulletinStats, sheets: SheetStat[], fileName: string) {
+    const workbook = XLSX.utils.book_new();
+    const append = (name: string, rows: (string | number)[][]) => XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+    append('Resumen', [
+        ['Filas', stats.rowCount],
+        ['Juzgados', stats.byJuzgado.filter(j => j.label).length],
+        ['Sin asignar', stats.unattributed],
+        ['Hojas', sheets.length],
+    ]);
+    append('Juzgados', [['Juzgado', 'Filas'], ...stats.byJuzgado.map(j => [j.label || 'Sin asignar', j.count])]);
+    append('Estados', [['Fecha de fijación', 'Filas'], ...stats.byEstadoDate.map(e => [formatDate(e.label) || 'Sin fecha', e.count])]);
+    append('Hojas', [
+        ['Archivo', 'Hoja', 'Filas', 'Títulos de columna'],
+        ...sheets.map(s => [s.fileName, s.sheetName, s.rowCount, s.detectedColumns ? 'Detectados' : 'No (columnas por defecto)']),
+    ]);
+    append('Partes', [
+        ['Parte', 'Filas', 'Como demandante', 'Como demandado'],
+        ...stats.topParties.map(p => [p.label, p.count, p.demandante, p.demandado]),
+    ]);
+    saveWorkbook(workbook, fileName);
+}
+
+// Semicolon-separated with a BOM: what Excel expects when opening a CSV with a Spanish (Colombia) locale
+export function exportToCSV(results: SearchResult[], choices: ExportColumnChoice[], fileName: string) {
+    const sheet = XLSX.utils.aoa_to_sheet(exportTable(results, choices));
+    const csv = XLSX.utils.sheet_to_csv(sheet, { FS: ';' });
+    saveAs(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), fileName);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from './types';
+import { DEFAULT_MAPPING } from './columns';
+import { parseRadicado } from './radicado';
+import { bulletinDespachos, followProcess, recordBulletin, type BulletinStamp, type FollowState } from './followed';
+
+const CIVIL = 'JUZGADO PRIMERO CIVIL MUNICIPAL DE BOGOTÁ';
+const LABORAL = 'JUZGADO CUARTO LABORAL DEL CIRCUITO DE MEDELLÍN';
+
+const stamp = (fileName: string, juzgados?: string[]): BulletinStamp =>
+    ({ id: fileName, fileName, checkedAt: 0, despachos: juzgados && bulletinDespachos(juzgados) });
+
+const row = (bulletin: BulletinStamp, juzgado: string, radicado: string, actuacion: string): SearchResult => ({
+    fileId: bulletin.id,
+    fileName: bulletin.fileName,
+    sheetName: 'Hoja1',
+    rowIndex: 0,
+    data: [radicado, 'BANCO', 'PEREZ', actuacion],
+    id: `${bulletin.id}:0`,
+    context: juzgado,
+    matches: [],
+    radicado: parseRadicado(radicado),
+    columns: DEFAULT_MAPPING,
+});
+
+const kinds = (state: FollowState, bulletin: BulletinStamp, found: SearchResult[]) =>
+    recordBulletin(state, bulletin, found).diff.changes.map(c => `${c.kind} ${c.process.juzgado}`);
+
+describe('recordBulletin', () => {
+    // Monday's bulletins of two circuits, each with one followed process
+    const civilMonday = stamp('civil-lunes.xlsx', [CIVIL]);
+    const laboralMonday = stamp('laboral-lunes.xlsx', [LABORAL]);
+    const civilRow = row(civilMonday, CIVIL, '11001400300120230012300', 'AUTO ADMITE DEMANDA');
+    const laboralRow = row(laboralMonday, LABORAL, '05001310500420240004500', 'FIJA FECHA AUDIENCIA');
+    const followed = followProcess(followProcess({ processes: [], bulletins: [] }, civilRow, civilMonday), laboralRow, laboralMonday);
+
+    it('compares each process with the last bulletin of its own juzgado', () => {
+        const civilTuesday = stamp('civil-martes.xlsx', [CIVIL]);
+        const { state, diff } = recordBulletin(followed, civilTuesday, [{ ...civilRow, data: [...civilRow.data.slice(0, 3), 'AUTO LIBRA MANDAMIENTO'] }]);
+        expect(diff.changes.map(c => `${c.kind} ${c.process.juzgado}`)).toEqual([`changed ${CIVIL}`]);
+        expect(diff.previous.map(b => b.fileName)).toEqual(['civil-lunes.xlsx']);
+
+        // The laboral process is not in the civil bulletin, and is not reported gone because of it
+        const laboralTuesday = stamp('laboral-martes.xlsx', [LABORAL]);
+        expect(kinds(state, laboralTuesday, [laboralRow])).toEqual([`unchanged ${LABORAL}`]);
+        expect(kinds(state, laboralTuesday, [])).toEqual([`disappeared ${LABORAL}`]);
+    });
+
+    it('does not report a process as new when the bulletin before it was from another circuit', () => {
+        const { state } = recordBulletin(followed, stamp('laboral-martes.xlsx', [LABORAL]), [laboralRow]);
+        expect(kinds(state, stamp('civil-martes.xlsx', [CIVIL]), [civilRow])).toEqual([`unchanged ${CIVIL}`]);
+    });
+
+    it('treats a bulletin stored without its juzgados as listing all of them', () => {
+        const legacy: FollowState = { ...followed, bulletins: followed.bulletins.map(b => ({ ...b, despachos: undefined })) };
+        expect(kinds(legacy, stamp('civil-martes.xlsx'), [civilRow])).toEqual([`appeared ${CIVIL}`, `disappeared ${LABORAL}`]);
+    });
+
+    it('compares a bulletin loaded again with the ones before it', () => {
+        const civilTuesday = stamp('civil-martes.xlsx', [CIVIL]);
+        const { state } = recordBulletin(followed, civilTuesday, [civilRow]);
+        const again = recordBulletin(state, civilTuesday, [civilRow]);
+        expect(again.diff.previous.map(b => b.fileName)).toEqual(['civil-lunes.xlsx']);
+        expect(again.state.processes[0].history).toHaveLength(2);
+    });
+});
@@ -0,0 +1,176 @@
+import type { SearchResult } from './types';
+import { fieldText } from './columns';
+import { processKey } from './selection';
+import { normalizeText } from './normalize';
+import { createLocalStore } from './storage';
+
+// A loaded workbook, identified like isSameFile does (name, size, modification date)
+export interface BulletinStamp {
+    id: string;
+    fileName: string;
+    checkedAt: number; // Date.now() when the followed processes were looked up in it
+    // Juzgados the bulletin lists, as despachoKey. Missing in stamps saved before it was
+    // recorded; those count as listing every juzgado.
+    despachos?: string[];
+}
+
+// One appearance of a followed process in a bulletin
+export interface ProcessAppearance {
+    bulletinId: string;
+    fileName: string;
+    checkedAt: number;
+    juzgado: string;
+    estadoFecha: string | null; // ISO fixation date
+    estadoNumero: number | null;
+    actuacion: string;
+}
+
+export interface FollowedProcess {
+    key: string; // processKey: radicado + juzgado
+    radicado: string; // Formatted radicado, used to look the process up in new bulletins
+    juzgado: string;
+    parties: string; // "Demandante vs. Demandado", for display
+    followedAt: number;
+    history: ProcessAppearance[]; // Oldest first
+}
+
+export interface FollowState {
+    processes: FollowedProcess[];
+    bulletins: BulletinStamp[]; // Every bulletin checked, in the order it was loaded
+}
+
+export type ChangeKind = 'appeared' | 'changed' | 'unchanged' | 'disappeared';
+
+export interface ProcessChange {
+    kind: ChangeKind;
+    process: FollowedProcess;
+    current: ProcessAppearance | null; // In the new bulletin, null when it disappeared
+    previous: ProcessAppearance | null; // In the bulletin before it
+}
+
+export interface BulletinDiff {
+    bulletin: BulletinStamp;
+    previous: BulletinStamp[]; // Earlier bulletins the followed processes were compared with
+    changes: ProcessChange[];
+}
+
+const MAX_HISTORY = 100;
+
+const EMPTY: FollowState = { processes: [], bulletins: [] };
+
+export const followStore = createLocalStore<FollowState>(
+    'buscador-procesos:followed',
+    EMPTY,
+    value => value && typeof value === 'object' && Array.isArray((value as FollowState).processes) && Array.isArray((value as FollowState).bulletins)
+        ? value as FollowState
+        : EMPTY
+);
+
+export const bulletinStampId = (file: { fileName: string; size: number; lastModified: number }) =>
+    `${file.fileName}|${file.size}|${file.lastModified}`;
+
+// Same folding as processKey, so a followed process and a bulletin's juzgados compare equal
+export const despachoKey = (juzgado: string) => normalizeText(juzgado);
+
+export const bulletinDespachos = (juzgados: string[]) => Array.from(new Set(juzgados.map(despachoKey).filter(Boolean)));
+
+// Whether a bulletin could have listed the process. Rows without a juzgado could be in any bulletin.
+const listsDespacho = (bulletin: BulletinStamp, process: FollowedProcess) => {
+    const key = despachoKey(process.juzgado);
+    return !key || !bulletin.despachos || bulletin.despachos.includes(key);
+};
+
+// Only rows with a radicado can be found again in the next bulletin
+export const canFollow = (result: SearchResult) => !!result.radicado;
+
+const parties = (result: SearchResult) =>
+    [fieldText(result.data, result.columns, 'demandante'), fieldText(result.data, result.columns, 'demandado')].filter(Boolean).join(' vs. ');
+
+// Rows of the same process in one bulletin (it can have several actuaciones that day)
+function appearance(rows: SearchResult[], bulletin: BulletinStamp): ProcessAppearance {
+    const [first] = rows;
+    return {
+        bulletinId: bulletin.id,
+        fileName: bulletin.fileName,
+        checkedAt: bulletin.checkedAt,
+        juzgado: first.context ?? '',
+        estadoFecha: first.estado?.fecha ?? null,
+        estadoNumero: first.estado?.numero ?? null,
+        actuacion: rows.map(r => fieldText(r.data, r.columns, 'actuacion')).filter(Boolean).join(' / '),
+    };
+}
+
+const withAppearance = (process: FollowedProcess, entry: ProcessAppearance): FollowedProcess => ({
+    ...process,
+    history: [...process.history.filter(h => h.bulletinId !== entry.bulletinId), entry].slice(-MAX_HISTORY),
+});
+
+// Starts following the process of a result, with the bulletin it was found in as its first entry
+export function followProcess(state: FollowState, result: SearchResult, bulletin: BulletinStamp): FollowState {
+    const key = processKey(result);
+    if (!result.radicado || state.processes.some(p => p.key === key)) return state;
+    const process: FollowedProcess = {
+        key,
+        radicado: result.radicado.formatted,
+        juzgado: result.context ?? '',
+        parties: parties(result),
+        followedAt: Date.now(),
+        history: [appearance([result], bulletin)],
+    };
+    const bulletins = state.bulletins.some(b => b.id === bulletin.id) ? state.bulletins : [...state.bulletins, bulletin];
+    return { processes: [...state.processes, process], bulletins };
+}
+
+export function unfollowProcess(state: FollowState, key: string): FollowState {
+    return { ...state, processes: state.processes.filter(p => p.key !== key) };
+}
+
+/**
+ * Compares a bulletin with the earlier ones. `found` are the rows of the new bulletin whose
+ * radicado matches a followed process. Each process is compared with the last bulletin that
+ * listed its juzgado, so the bulletins of several circuits loaded the same day do not count
+ * as each other's previous one. A process that shows up now and was not in that bulletin is a
+ * new appearance; one in both with a different actuación or estado has changed; one that was
+ * there and is missing from a bulletin that lists its juzgado has disappeared. Loading the same
+ * workbook again compares it with the bulletins before it and does not duplicate history.
+ */
+export function recordBulletin(state: FollowState, bulletin: BulletinStamp, found: SearchResult[]): { state: FollowState; diff: BulletinDiff } {
+    const known = state.bulletins.findIndex(b => b.id === bulletin.id);
+    const earlier = known >= 0 ? state.bulletins.slice(0, known) : state.bulletins;
+    const stamp = known >= 0 ? { ...state.bulletins[known], despachos: bulletin.despachos ?? state.bulletins[known].despachos } : bulletin;
+    const compared = new Map<string, BulletinStamp>();
+
+    const rowsByKey = new Map<string, SearchResult[]>();
+    found.forEach(row => {
+        const key = processKey(row);
+        rowsByKey.set(key, [...(rowsByKey.get(key) ?? []), row]);
+    });
+
+    const changes: ProcessChange[] = [];
+    const processes = state.processes.map(process => {
+        const rows = rowsByKey.get(process.key);
+        const previous = earlier.findLast(b => listsDespacho(b, process)) ?? null;
+        const before = previous ? process.history.find(h => h.bulletinId === previous.id) ?? null : null;
+        if (!rows) {
+            if (before && listsDespacho(stamp, process)) {
+                changes.push({ kind: 'disappeared', process, current: null, previous: before });
+                compared.set(previous!.id, previous!);
+            }
+            return process;
+        }
+        if (previous) compared.set(previous.id, previous);
+
+        const current = appearance(rows, stamp);
+        const updated = withAppearance(process, current);
+        const kind: ChangeKind = !before ? 'appeared'
+            : before.actuacion !== current.actuacion || before.estadoFecha !== current.estadoFecha ? 'changed'
+            : 'unchanged';
+        changes.push({ kind, process: updated, current, previous: before });
+        return updated;
+    });
+
+    return {
+        state: { processes, bulletins: known >= 0 ? state.bulletins.map((b, i) => i === known ? stamp : b) : [...state.bulletins, stamp] },
+        diff: { bulletin: stamp, previous: Array.from(compared.values()), changes },
+    };
+}
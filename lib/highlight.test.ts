@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { mergeRanges, termRanges } from './highlight';
+
+describe('mergeRanges', () => {
+    it('sorts ranges and joins the ones that overlap or touch', () => {
+        expect(mergeRanges([{ start: 10, end: 14 }, { start: 0, end: 4 }, { start: 2, end: 6 }, { start: 14, end: 18 }])).toEqual([
+            { start: 0, end: 6 },
+            { start: 10, end: 18 },
+        ]);
+    });
+
+    it('keeps a range that contains the next ones and drops empty ones', () => {
+        expect(mergeRanges([{ start: 0, end: 20 }, { start: 5, end: 8 }, { start: 22, end: 22 }, { start: 25, end: 24 }])).toEqual([
+            { start: 0, end: 20 },
+        ]);
+        expect(mergeRanges([])).toEqual([]);
+    });
+
+    it('leaves the ranges it was given unchanged', () => {
+        const ranges = [{ start: 0, end: 4 }, { start: 3, end: 9 }];
+        mergeRanges(ranges);
+        expect(ranges).toEqual([{ start: 0, end: 4 }, { start: 3, end: 9 }]);
+    });
+});
+
+describe('termRanges', () => {
+    it('finds every occurrence ignoring accents and case, and reads terms as text', () => {
+        expect(termRanges('JOSÉ PEÑA Y JOSE PENA', ['pena'])).toMatchObject([{ start: 5, end: 9 }, { start: 17, end: 21 }]);
+        // Not regular expressions: "(" is only punctuation and "S.A.*" is the text "S.A."
+        expect(termRanges('BANCO X S.A.', ['('])).toEqual([]);
+        expect(termRanges('BANCO X S.A.', ['S.A.*'])).toMatchObject([{ start: 8, end: 11 }]);
+    });
+});
@@ -0,0 +1,29 @@
+import { compileTerm, findAllMatches, prepareText } from './matcher';
+
+export interface TextRange {
+    start: number;
+    end: number; // Exclusive
+}
+
+/**
+ * Where the terms occur in a text, compared the way the search compares them: accent and case
+ * insensitive, punctuation ignored, starting at a word. Terms are never turned into a regular
+ * expression, so "S.A.*" or "(" are just text.
+ */
+export function termRanges(text: string, terms: string[]): TextRange[] {
+    if (!text || terms.length === 0) return [];
+    const prepared = prepareText(text);
+    return terms.flatMap(term => findAllMatches(prepared, compileTerm(term)));
+}
+
+// Sorted, non-overlapping ranges: overlapping or touching ranges are joined
+export function mergeRanges(ranges: TextRange[]): TextRange[] {
+    const sorted = ranges.filter(r => r.end > r.start).sort((a, b) => a.start - b.start || a.end - b.end);
+    const merged: TextRange[] = [];
+    sorted.forEach(range => {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+        else merged.push({ ...range });
+    });
+    return merged;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { addBusinessDays, isBusinessDay, nonWorkingDays } from './holidays';
+
+const HOLIDAYS = { judicialVacancy: false };
+const COURTS = { judicialVacancy: true };
+
+// 2026: Easter Sunday falls on April 5
+describe('nonWorkingDays', () => {
+    it('lists the holidays of 2026, moved to Monday where Ley 51 says so', () => {
+        expect(Object.fromEntries([...nonWorkingDays(2026, HOLIDAYS)].sort())).toEqual({
+            '2026-01-01': 'Año Nuevo',
+            '2026-01-12': 'Reyes Magos', // Tuesday 6
+            '2026-03-23': 'San José', // Thursday 19
+            '2026-04-02': 'Jueves Santo',
+            '2026-04-03': 'Viernes Santo',
+            '2026-05-01': 'Día del Trabajo',
+            '2026-05-18': 'Ascensión del Señor', // Easter + 43
+            '2026-06-08': 'Corpus Christi', // Easter + 64
+            '2026-06-15': 'Sagrado Corazón', // Easter + 71
+            '2026-06-29': 'San Pedro y San Pablo', // Already a Monday
+            '2026-07-20': 'Día de la Independencia',
+            '2026-08-07': 'Batalla de Boyacá',
+            '2026-08-17': 'Asunción de la Virgen', // Saturday 15
+            '2026-10-12': 'Día de la Raza',
+            '2026-11-02': 'Todos los Santos', // Sunday 1
+            '2026-11-16': 'Independencia de Cartagena', // Wednesday 11
+            '2026-12-08': 'Inmaculada Concepción',
+            '2026-12-25': 'Navidad',
+        });
+    });
+
+    it('adds Monday to Wednesday of Holy Week and December 20 to January 10 for the courts', () => {
+        const days = nonWorkingDays(2026, COURTS);
+        expect(['2026-03-30', '2026-03-31', '2026-04-01'].map(day => days.get(day))).toEqual(Array(3).fill('Vacancia judicial (Semana Santa)'));
+        expect(days.get('2026-01-06')).toBe('Vacancia judicial');
+        expect(days.get('2026-01-10')).toBe('Vacancia judicial');
+        expect(days.has('2026-01-11')).toBe(false);
+        expect(days.get('2026-12-20')).toBe('Vacancia judicial');
+        expect(days.get('2026-12-31')).toBe('Vacancia judicial');
+        expect(days.has('2026-12-19')).toBe(false);
+        // Holidays keep their own name inside the vacancy
+        expect(days.get('2026-01-01')).toBe('Año Nuevo');
+        expect(days.get('2026-12-25')).toBe('Navidad');
+    });
+});
+
+describe('isBusinessDay', () => {
+    it('skips weekends, holidays and, for the courts, the vacancy', () => {
+        expect(isBusinessDay('2026-02-13', HOLIDAYS)).toBe(true);
+        expect(isBusinessDay('2026-02-14', HOLIDAYS)).toBe(false);
+        expect(isBusinessDay('2026-03-23', HOLIDAYS)).toBe(false);
+        expect(isBusinessDay('2026-03-31', HOLIDAYS)).toBe(true);
+        expect(isBusinessDay('2026-03-31', COURTS)).toBe(false);
+    });
+});
+
+describe('addBusinessDays', () => {
+    it.each([
+        // Fixed on Friday: the term runs Monday to Wednesday
+        ['2026-02-13', 3, HOLIDAYS, '2026-02-18'],
+        // Fixed on the Friday before San José, which is skipped
+        ['2026-03-20', 1, HOLIDAYS, '2026-03-24'],
+        ['2026-02-13', 0, HOLIDAYS, '2026-02-13'],
+        // Holy Week: only Thursday and Friday without the vacancy
+        ['2026-03-27', 3, HOLIDAYS, '2026-04-01'],
+        ['2026-03-27', 3, COURTS, '2026-04-08'],
+        // Year end: the vacancy ends on January 10 and Reyes 2027 moves to Monday the 11th
+        ['2026-12-18', 3, HOLIDAYS, '2026-12-23'],
+        ['2026-12-18', 3, COURTS, '2027-01-14'],
+    ])('%s + %i business days', (fixation, days, options, expected) => {
+        expect(addBusinessDays(fixation, days, options)).toBe(expected);
+    });
+});
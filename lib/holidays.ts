@@ -0,0 +1,113 @@
+import { addDays, toISODate, weekday } from './dates';
+
+// Colombian public holidays (Ley 51 de 1983). Most of them move to the following Monday when
+// they fall on another day; Easter-based ones are counted from Easter Sunday.
+const FIXED: [number, number, string][] = [
+    [1, 1, 'Año Nuevo'],
+    [5, 1, 'Día del Trabajo'],
+    [7, 20, 'Día de la Independencia'],
+    [8, 7, 'Batalla de Boyacá'],
+    [12, 8, 'Inmaculada Concepción'],
+    [12, 25, 'Navidad'],
+];
+
+const MOVED_TO_MONDAY: [number, number, string][] = [
+    [1, 6, 'Reyes Magos'],
+    [3, 19, 'San José'],
+    [6, 29, 'San Pedro y San Pablo'],
+    [8, 15, 'Asunción de la Virgen'],
+    [10, 12, 'Día de la Raza'],
+    [11, 1, 'Todos los Santos'],
+    [11, 11, 'Independencia de Cartagena'],
+];
+
+const EASTER_FIXED: [number, string][] = [
+    [-3, 'Jueves Santo'],
+    [-2, 'Viernes Santo'],
+];
+
+const EASTER_MOVED_TO_MONDAY: [number, string][] = [
+    [39, 'Ascensión del Señor'],
+    [60, 'Corpus Christi'],
+    [68, 'Sagrado Corazón'],
+];
+
+// Courts also close Monday to Wednesday of Holy Week and from December 20 to January 10
+// (Ley 270 de 1996, art. 146), so procedural terms do not run on those days either
+const HOLY_WEEK_VACANCY: [number, string][] = [
+    [-6, 'Vacancia judicial (Semana Santa)'],
+    [-5, 'Vacancia judicial (Semana Santa)'],
+    [-4, 'Vacancia judicial (Semana Santa)'],
+];
+
+export interface BusinessDayOptions {
+    judicialVacancy: boolean; // Skip the collective vacations of the courts as well
+}
+
+// Gregorian Easter Sunday (anonymous algorithm, as in Meeus)
+function easterSunday(year: number) {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return toISODate(year, month, day)!;
+}
+
+// The same day when it already is a Monday
+const nextMonday = (iso: string) => addDays(iso, (8 - weekday(iso)) % 7);
+
+const cache = new Map<string, Map<string, string>>();
+
+// Holidays (and, optionally, judicial vacancy days) of a year: ISO date -> name
+export function nonWorkingDays(year: number, options: BusinessDayOptions): Map<string, string> {
+    const cacheKey = `${year}|${options.judicialVacancy}`;
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+
+    const days = new Map<string, string>();
+    const easter = easterSunday(year);
+    if (options.judicialVacancy) {
+        HOLY_WEEK_VACANCY.forEach(([offset, name]) => days.set(addDays(easter, offset), name));
+        for (let day = 1; day <= 10; day++) days.set(toISODate(year, 1, day)!, 'Vacancia judicial');
+        for (let day = 20; day <= 31; day++) days.set(toISODate(year, 12, day)!, 'Vacancia judicial');
+    }
+    // Holidays win over the vacancy label
+    FIXED.forEach(([month, day, name]) => days.set(toISODate(year, month, day)!, name));
+    MOVED_TO_MONDAY.forEach(([month, day, name]) => days.set(nextMonday(toISODate(year, month, day)!), name));
+    EASTER_FIXED.forEach(([offset, name]) => days.set(addDays(easter, offset), name));
+    EASTER_MOVED_TO_MONDAY.forEach(([offset, name]) => days.set(nextMonday(addDays(easter, offset)), name));
+
+    cache.set(cacheKey, days);
+    return days;
+}
+
+export function isBusinessDay(iso: string, options: BusinessDayOptions) {
+    const day = weekday(iso);
+    if (day === 0 || day === 6) return false;
+    return !nonWorkingDays(Number(iso.slice(0, 4)), options).has(iso);
+}
+
+/**
+ * The business day on which a term of `days` business days ends, counting from the day after
+ * `iso` (a notification by estado takes effect on its fixation date, and the term starts the
+ * next business day). Zero days returns the date itself.
+ */
+export function addBusinessDays(iso: string, days: number, options: BusinessDayOptions) {
+    let date = iso;
+    let remaining = days;
+    while (remaining > 0) {
+        date = addDays(date, 1);
+        if (isBusinessDay(date, options)) remaining--;
+    }
+    return date;
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+// File Handling API: bulletins opened with "Abrir con" from the operating system
+interface LaunchParams {
+    files: FileSystemFileHandle[];
+}
+
+declare global {
+    interface Window {
+        launchQueue?: { setConsumer: (consumer: (params: LaunchParams) => void) => void };
+    }
+}
+
+// Hands the files the installed app was launched with to `onFiles`; no-op in browsers without the API.
+// The consumer is set once and calls the latest `onFiles`, which may change on every render.
+export function useLaunchFiles(onFiles: (files: File[]) => void) {
+    const latest = useRef(onFiles);
+    useEffect(() => {
+        latest.current = onFiles;
+    });
+
+    useEffect(() => {
+        window.launchQueue?.setConsumer(async ({ files }) => {
+            if (files.length === 0) return;
+            latest.current(await Promise.all(files.map(handle => handle.getFile())));
+        });
+    }, []);
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { compileTerm, matchText, prepareText } from './matcher';
+
+const find = (text: string, term: string) => matchText(prepareText(text), compileTerm(term));
+
+describe('matchText', () => {
+    it('matches at word starts across accents, case and company suffixes', () => {
+        expect(find('AUTO ADMITE DEMANDA CONTRA SOBUSA S.A.S.', 'sobusa')).toMatchObject({ score: 1, start: 27, end: 33 });
+        expect(find('JOSÉ PEÑA', 'pena')).not.toBeNull();
+        expect(find('CAMPESINO', 'pesino')).toBeNull();
+    });
+
+    it('finds dotted dates and words written without a space after the dot', () => {
+        expect(find('AUTO DEL 10.02.2026', '10/02/2026')).toMatchObject({ start: 9, end: 19 });
+        expect(find('AUTO DEL 10.02.2026', '02')).not.toBeNull();
+        expect(find('TERMINA POR PAGO.INICIO DE EJECUCION', 'inicio')).toMatchObject({ start: 17, end: 23 });
+    });
+
+    it('finds a NIT written with thousands separators by its digits', () => {
+        expect(find('NIT 900.123.456-7', '900123456')).toMatchObject({ start: 4, end: 15 });
+    });
+});
@@ -0,0 +1,142 @@
+import { tokenize, normalizeTerm, type Token } from './normalize';
+
+export interface MatchOptions {
+    fuzzy: boolean;
+    maxEdits: number; // Edit-distance threshold used when fuzzy is on
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = { fuzzy: false, maxEdits: 1 };
+
+export interface CompiledTerm {
+    term: string; // As typed by the user, used for grouping and display
+    tokens: string[];
+    normalized: string;
+    tokenCount: number;
+}
+
+export interface PreparedText {
+    tokens: Token[];
+    normalized: string;
+    positions: number[]; // Offset of each token inside `normalized`
+}
+
+export interface TextMatch {
+    score: number; // 1 for an exact (normalized) match, lower the more edits were needed
+    start: number; // Offsets in the original text, for highlighting
+    end: number;
+}
+
+export function compileTerm(term: string): CompiledTerm {
+    const tokens = normalizeTerm(term);
+    return { term, tokens, normalized: tokens.join(' '), tokenCount: tokens.length };
+}
+
+// Tokenize a cell once so it can be checked against every term of a watchlist
+export function prepareText(text: string): PreparedText {
+    const tokens = tokenize(text);
+    const positions: number[] = [];
+    let offset = 0;
+    tokens.forEach(t => {
+        positions.push(offset);
+        offset += t.text.length + 1;
+    });
+    return { tokens, normalized: tokens.map(t => t.text).join(' '), positions };
+}
+
+/**
+ * Levenshtein distance that gives up as soon as it is certain to exceed `max`.
+ * Returns `max + 1` in that case.
+ */
+export function boundedLevenshtein(a: string, b: string, max: number) {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+            rowMin = Math.min(rowMin, curr[j]);
+        }
+        if (rowMin > max) return max + 1;
+        prev = curr;
+    }
+    return prev[b.length];
+}
+
+// Finds the token containing `offset` of the normalized text
+function tokenAt(prepared: PreparedText, offset: number) {
+    let index = 0;
+    while (index + 1 < prepared.positions.length && prepared.positions[index + 1] <= offset) index++;
+    return index;
+}
+
+// Maps a normalized offset back to the original text. Offsets inside a token are exact only
+// when folding kept the token length (no dots removed, no suffix merged); otherwise the
+// whole token is used.
+function toOriginal(prepared: PreparedText, offset: number, edge: 'start' | 'end') {
+    const index = tokenAt(prepared, edge === 'end' ? Math.max(offset - 1, 0) : offset);
+    const token = prepared.tokens[index];
+    const exact = token.text.length === token.end - token.start;
+    if (!exact) return edge === 'start' ? token.start : token.end;
+    return token.start + Math.min(offset - prepared.positions[index], token.text.length);
+}
+
+// Like indexOf, but only where a word begins: "bogo" matches "banco de bogota", "ogota" does not
+function indexAtWordStart(text: string, search: string, from = 0) {
+    let index = text.indexOf(search, from);
+    while (index > 0 && text[index - 1] !== ' ') {
+        index = text.indexOf(search, index + 1);
+    }
+    return index;
+}
+
+// Every exact occurrence of a term, in the original text's offsets. Used to highlight text the
+// matcher did not look at (formatted radicados and dates, other panels).
+export function findAllMatches(prepared: PreparedText, term: CompiledTerm): TextMatch[] {
+    const found: TextMatch[] = [];
+    if (!term.normalized) return found;
+    let index = indexAtWordStart(prepared.normalized, term.normalized);
+    while (index >= 0) {
+        found.push({
+            score: 1,
+            start: toOriginal(prepared, index, 'start'),
+            end: toOriginal(prepared, index + term.normalized.length, 'end'),
+        });
+        index = indexAtWordStart(prepared.normalized, term.normalized, index + term.normalized.length);
+    }
+    return found;
+}
+
+export function matchText(prepared: PreparedText, term: CompiledTerm, options: MatchOptions = DEFAULT_MATCH_OPTIONS): TextMatch | null {
+    if (!term.normalized || prepared.tokens.length === 0) return null;
+
+    const index = indexAtWordStart(prepared.normalized, term.normalized);
+    if (index >= 0) {
+        return {
+            score: 1,
+            start: toOriginal(prepared, index, 'start'),
+            end: toOriginal(prepared, index + term.normalized.length, 'end'),
+        };
+    }
+
+    if (!options.fuzzy || options.maxEdits <= 0) return null;
+
+    // Compare the term against every window of the same number of words
+    let best: TextMatch | null = null;
+    let bestDistance = options.maxEdits + 1;
+    for (let i = 0; i + term.tokenCount <= prepared.tokens.length; i++) {
+        const window = prepared.tokens.slice(i, i + term.tokenCount);
+        const candidate = window.map(t => t.text).join(' ');
+        const distance = boundedLevenshtein(candidate, term.normalized, options.maxEdits);
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = {
+                score: 1 - distance / Math.max(candidate.length, term.normalized.length),
+                start: window[0].start,
+                end: window[window.length - 1].end,
+            };
+        }
+    }
+    return best;
+}
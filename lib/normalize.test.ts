@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTerm, normalizeText, tokenize } from './normalize';
+
+describe('tokenize', () => {
+    it('folds accents and case and keeps the original offsets', () => {
+        expect(tokenize('Peña  GÓMEZ')).toEqual([
+            { text: 'pena', start: 0, end: 4 },
+            { text: 'gomez', start: 6, end: 11 },
+        ]);
+    });
+
+    it('joins the dots of abbreviations and company suffixes', () => {
+        expect(normalizeText('SOBUSA S.A.S.')).toBe('sobusa sas');
+        expect(normalizeText('Sobusa S. A. S')).toBe('sobusa sas');
+        expect(normalizeText('C.C. 1.020.304')).toBe('cc 1020304');
+        expect(normalizeText('ART. 372 C.G.P.')).toBe('art 372 cgp');
+    });
+
+    it('joins thousands separators, so a NIT matches its bare digits', () => {
+        expect(normalizeText('NIT 900.123.456-7')).toBe('nit 900123456 7');
+    });
+
+    it('splits at the dots of dates and of words written without a space', () => {
+        expect(normalizeText('10.02.2026')).toBe('10 02 2026');
+        expect(normalizeText('FIN.INICIO')).toBe('fin inicio');
+        expect(normalizeText('J.PEREZ')).toBe('j perez');
+        expect(tokenize('AUTO.FIJA')).toEqual([
+            { text: 'auto', start: 0, end: 4 },
+            { text: 'fija', start: 5, end: 9 },
+        ]);
+    });
+});
+
+describe('normalizeTerm', () => {
+    it('drops company suffixes unless the term is only a suffix', () => {
+        expect(normalizeTerm('Acme Ltda.')).toEqual(['acme']);
+        expect(normalizeTerm('S.A.S.')).toEqual(['sas']);
+    });
+});
@@ -0,0 +1,103 @@
+export interface Token {
+    text: string; // Folded text: lowercase, no accents, no punctuation
+    start: number; // Offset of the token in the original string
+    end: number; // Exclusive end offset in the original string
+}
+
+// Company type suffixes and their canonical token. Written forms like "S.A.S.", "S. A. S" or
+// "SAS" all end up as "sas"; "LIMITADA" and "LTDA." as "ltda".
+const COMPANY_SUFFIXES = new Map<string, string>([
+    ['sas', 'sas'],
+    ['sa', 'sa'],
+    ['ltda', 'ltda'],
+    ['limitada', 'ltda'],
+]);
+
+const isSuffix = (text: string) => COMPANY_SUFFIXES.has(text);
+
+// NFD splits "É" into "E" + accent and "Ñ" into "N" + tilde, then the marks are dropped
+export function foldAccents(text: string) {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+const foldChar = (ch: string) => foldAccents(ch).toLowerCase();
+
+/**
+ * Splits a cell into folded word tokens while remembering where each token came from,
+ * so a match on the normalized text can be highlighted in the original text.
+ */
+export function tokenize(input: string): Token[] {
+    const raw: Token[] = [];
+    let current = '';
+    let start = -1;
+    let end = -1;
+
+    let segment = 0; // Characters since the token started or since its last joined dot
+
+    const flush = () => {
+        if (current) raw.push({ text: current, start, end });
+        current = '';
+        start = -1;
+        segment = 0;
+    };
+
+    const charAt = (i: number) => i < input.length ? foldChar(input[i]) : '';
+    const isLetter = (i: number) => /^[a-z]$/.test(charAt(i));
+    const isDigit = (i: number) => /^[0-9]$/.test(input[i] ?? '');
+
+    // A dot stays inside the token only between single letters of an abbreviation ("S.A.S",
+    // "C.C.") or between thousands groups ("900.123.456"); dates ("10.02.2026") and words run
+    // together ("FIN.INICIO") are split there
+    const joinsDot = (i: number) =>
+        (segment === 1 && isLetter(i - 1) && isLetter(i + 1) && !/^[a-z0-9]$/.test(charAt(i + 2))) ||
+        (isDigit(i - 1) && isDigit(i + 1) && isDigit(i + 2) && isDigit(i + 3) && !isDigit(i + 4));
+
+    for (let i = 0; i < input.length; i++) {
+        const folded = foldChar(input[i]);
+        if (/^[a-z0-9]+$/.test(folded)) {
+            if (start < 0) start = i;
+            current += folded;
+            end = i + 1;
+            segment++;
+        } else if (input[i] === '.' && current && joinsDot(i)) {
+            segment = 0;
+        } else {
+            flush();
+        }
+    }
+    flush();
+
+    // Re-join letter-spaced suffixes ("S. A. S." -> "sas") and canonicalize the rest
+    const tokens: Token[] = [];
+    for (let i = 0; i < raw.length; i++) {
+        let run: Token[] = [];
+        for (let len = 3; len >= 2 && run.length === 0; len--) {
+            const candidate = raw.slice(i, i + len);
+            if (candidate.length === len && candidate.every(t => t.text.length === 1) && isSuffix(candidate.map(t => t.text).join(''))) {
+                run = candidate;
+            }
+        }
+        if (run.length > 0) {
+            const text = run.map(t => t.text).join('');
+            tokens.push({ text: COMPANY_SUFFIXES.get(text)!, start: run[0].start, end: run[run.length - 1].end });
+            i += run.length - 1;
+        } else {
+            tokens.push(isSuffix(raw[i].text) ? { ...raw[i], text: COMPANY_SUFFIXES.get(raw[i].text)! } : raw[i]);
+        }
+    }
+    return tokens;
+}
+
+export function normalizeText(input: string) {
+    return tokenize(input).map(t => t.text).join(' ');
+}
+
+/**
+ * Normalized tokens of a search term. Company suffixes are dropped so "Acme S.A.S" also finds
+ * rows that only say "ACME", unless the term is nothing but a suffix.
+ */
+export function normalizeTerm(term: string): string[] {
+    const tokens = tokenize(term).map(t => t.text);
+    const withoutSuffixes = tokens.filter(t => !isSuffix(t));
+    return withoutSuffixes.length > 0 ? withoutSuffixes : tokens;
+}
@@ -0,0 +1,117 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it, vi } from 'vitest';
+import { CONTENT_SECURITY_POLICY } from './pwa';
+
+describe('CONTENT_SECURITY_POLICY', () => {
+    const directives = new Map(CONTENT_SECURITY_POLICY.split(';').map(d => {
+        const [name, ...sources] = d.trim().split(/\s+/);
+        return [name, sources];
+    }));
+
+    it('only lets the page connect to its own origin', () => {
+        expect(directives.get('connect-src')).toEqual(["'self'"]);
+        expect(directives.get('default-src')).toEqual(["'self'"]);
+        expect(directives.get('form-action')).toEqual(["'none'"]);
+    });
+
+    it('names no remote host in any directive', () => {
+        const sources = Array.from(directives.values()).flat();
+        expect(sources.filter(s => !/^'[a-z-]+'$/.test(s) && !['data:', 'blob:'].includes(s))).toEqual([]);
+    });
+});
+
+// Files `next build` writes to out/ (no trailingSlash): a .html per page, the manifest route and public/
+function exportedFiles() {
+    const app = readdirSync('app', { recursive: true, encoding: 'utf8' }).map(f => f.replaceAll('\\', '/'));
+    const pages = app.filter(f => /(^|\/)page\.tsx$/.test(f)).map(f => f.replace(/\/?page\.tsx$/, '') || 'index');
+    const files = readdirSync('public', { recursive: true, encoding: 'utf8' }).map(f => f.replaceAll('\\', '/'));
+    return new Set([...pages.map(p => `${p}.html`), ...(app.includes('manifest.ts') ? ['manifest.webmanifest'] : []), ...files]);
+}
+
+const SCOPE = 'https://vimasaba44.github.io/buscador-procesos/';
+
+// GitHub Pages: "/x" is x or x.html, "/x/" is x/index.html, anything else a 404
+const staticHost = (files: Set<string>) => vi.fn(async (input: string | Request) => {
+    const url = typeof input === 'string' ? input : input.url;
+    const path = decodeURIComponent(new URL(url).pathname).slice(new URL(SCOPE).pathname.length);
+    const candidates = path === '' || path.endsWith('/') ? [`${path}index.html`] : [path, `${path}.html`];
+    return candidates.some(f => files.has(f)) ? new Response('ok') : new Response('Not Found', { status: 404 });
+});
+
+type Listener = (event: Record<string, unknown>) => void;
+
+// Runs public/sw.js against an in-memory Cache Storage and the given network
+function serviceWorker(network: ReturnType<typeof staticHost>) {
+    const listeners = new Map<string, Listener>();
+    const stored = new Map<string, Response>();
+    const names = new Set(['buscador-procesos-v1', 'otra-app-v3']); // Left by an earlier build and another app
+    const cache = {
+        addAll: async (urls: string[]) => {
+            const responses = await Promise.all(urls.map(url => network(url)));
+            if (responses.some(r => !r.ok)) throw new TypeError('Cache.addAll(): una respuesta no es válida');
+            urls.forEach((url, i) => stored.set(url, responses[i]));
+        },
+        add: async (url: string) => cache.addAll([url]),
+        put: async (request: Request, response: Response) => void stored.set(request.url, response),
+    };
+    const caches = {
+        open: async (name: string) => {
+            names.add(name);
+            return cache;
+        },
+        keys: async () => Array.from(names),
+        delete: async (name: string) => names.delete(name),
+        match: async (request: string | Request) => stored.get(typeof request === 'string' ? request : request.url),
+    };
+    const self = {
+        registration: { scope: SCOPE },
+        location: { origin: new URL(SCOPE).origin, href: `${SCOPE}sw.js?v=4f2c9a1` },
+        clients: { claim: async () => {} },
+        skipWaiting: async () => {},
+        addEventListener: (type: string, listener: Listener) => listeners.set(type, listener),
+    };
+    new Function('self', 'caches', 'fetch', readFileSync('public/sw.js', 'utf8'))(self, caches, network);
+
+    // The promise handed to waitUntil / respondWith, undefined when the worker left the event alone
+    const dispatch = (type: string, event: Record<string, unknown> = {}) => {
+        let handled: Promise<unknown> | undefined;
+        listeners.get(type)?.({ ...event, waitUntil: (p: Promise<unknown>) => { handled = p; }, respondWith: (p: Promise<unknown>) => { handled = p; } });
+        return handled;
+    };
+    return { dispatch, stored, names };
+}
+
+describe('service worker', () => {
+    it('installs against the exported files', async () => {
+        const { dispatch, stored } = serviceWorker(staticHost(exportedFiles()));
+        await expect(dispatch('install')).resolves.not.toThrow();
+        expect(stored.has(`${SCOPE}mis-procesos`)).toBe(true);
+    });
+
+    it('caches each build apart and drops the caches of earlier builds', async () => {
+        const { dispatch, names } = serviceWorker(staticHost(exportedFiles()));
+        await dispatch('install');
+        await dispatch('activate');
+        expect(Array.from(names).sort()).toEqual(['buscador-procesos-4f2c9a1', 'otra-app-v3']);
+    });
+
+    it('fails to install when a shell entry is not exported', async () => {
+        const files = exportedFiles();
+        files.delete('mis-procesos.html');
+        const { dispatch } = serviceWorker(staticHost(files));
+        await expect(dispatch('install')).rejects.toThrow('Cache.addAll');
+    });
+
+    it('never forwards uploads or requests to other origins', async () => {
+        const network = staticHost(exportedFiles());
+        const { dispatch } = serviceWorker(network);
+        const post = new Request(`${SCOPE}api`, { method: 'POST', body: 'RADICADO;DEMANDANTE' });
+        expect(dispatch('fetch', { request: post })).toBeUndefined();
+        expect(dispatch('fetch', { request: new Request('https://example.com/estado.xlsx') })).toBeUndefined();
+        expect(network).not.toHaveBeenCalled();
+
+        const page = new Request(`${SCOPE}mis-procesos`);
+        await dispatch('fetch', { request: page });
+        expect(network.mock.calls).toEqual([[page]]);
+    });
+});
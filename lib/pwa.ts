@@ -0,0 +1,25 @@
+// '/buscador-procesos' in the GitHub Pages build, '' in development (see next.config.ts)
+export const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
+
+// Changes with every build (see next.config.ts); the service worker names its cache after it
+export const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID ?? 'dev';
+
+/**
+ * Content Security Policy of the production build. Everything is read, searched and exported
+ * in the browser, and `connect-src 'self'` is what makes that a guarantee rather than a
+ * habit: fetch, XHR, WebSocket and beacons to any other origin are refused, so bulletin
+ * contents cannot leave the device even if a dependency tried. Next inlines its bootstrap
+ * scripts and Tailwind its styles, hence 'unsafe-inline'; exports are saved through blob: URLs.
+ */
+export const CONTENT_SECURITY_POLICY = [
+    "default-src 'self'",
+    "connect-src 'self'",
+    "script-src 'self' 'unsafe-inline'",
+    "style-src 'self' 'unsafe-inline'",
+    "img-src 'self' data: blob:",
+    "font-src 'self'",
+    "worker-src 'self' blob:",
+    "object-src 'none'",
+    "base-uri 'self'",
+    "form-action 'none'",
+].join('; ');
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuery, positiveTerms } from './query';
+
+const term = (text: string, field: string | null = null, quoted = false) => ({ kind: 'term', text, field, quoted });
+
+describe('parseQuery', () => {
+    it('keeps a query without syntax as one term, exactly as typed', () => {
+        expect(parseQuery('banco de bogota')).toEqual(term('banco de bogota'));
+        expect(parseQuery('art.:5')).toEqual(term('art.:5'));
+        expect(parseQuery('   ')).toBeNull();
+    });
+
+    it('marks quoted phrases', () => {
+        expect(parseQuery('"banco de bogota"')).toEqual(term('banco de bogota', null, true));
+        expect(parseQuery('demandado:"Banco X"')).toEqual(term('Banco X', 'demandado', true));
+    });
+
+    it('binds AND tighter than OR, with parentheses to group', () => {
+        expect(parseQuery('perez OR gomez AND embargo')).toEqual({
+            kind: 'or',
+            children: [term('perez'), { kind: 'and', children: [term('gomez'), term('embargo')] }],
+        });
+        expect(parseQuery('(perez OR gomez) embargo')).toEqual({
+            kind: 'and',
+            children: [{ kind: 'or', children: [term('perez'), term('gomez')] }, term('embargo')],
+        });
+    });
+
+    it('negates with NOT or a leading minus', () => {
+        expect(parseQuery('perez NOT desistimiento')).toEqual({
+            kind: 'and',
+            children: [term('perez'), { kind: 'not', child: term('desistimiento') }],
+        });
+        expect(parseQuery('-actuacion:archivo')).toEqual({ kind: 'not', child: term('archivo', 'actuacion') });
+    });
+
+    it('reads field prefixes, their aliases and the default field', () => {
+        expect(parseQuery('despacho:laboral fecha:2026')).toEqual({
+            kind: 'and',
+            children: [term('laboral', 'juzgado'), term('2026', 'fechaAuto')],
+        });
+        expect(parseQuery('Actuación:archivo')).toEqual(term('archivo', 'actuacion'));
+        expect(parseQuery('perez radicado:2024', 'demandante')).toEqual({
+            kind: 'and',
+            children: [term('perez', 'demandante'), term('2024', 'radicado')],
+        });
+    });
+
+    it('ignores unbalanced parentheses and dangling operators', () => {
+        expect(parseQuery('(perez OR')).toEqual(term('perez'));
+        expect(parseQuery('perez) gomez')).toEqual({ kind: 'and', children: [term('perez'), term('gomez')] });
+        expect(parseQuery('NOT')).toBeNull();
+    });
+});
+
+describe('positiveTerms', () => {
+    it('leaves negated terms out', () => {
+        expect(positiveTerms(parseQuery('(perez OR gomez) -archivo'))).toEqual(['perez', 'gomez']);
+    });
+});
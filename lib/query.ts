@@ -0,0 +1,143 @@
+import { foldAccents } from './normalize';
+import type { ColumnField } from './columns';
+
+// Fields a term can be restricted to: the mapped columns plus the court and estado headers
+export type QueryField = ColumnField | 'juzgado' | 'estado';
+
+export const QUERY_FIELDS: { field: QueryField; label: string }[] = [
+    { field: 'demandante', label: 'Demandante' },
+    { field: 'demandado', label: 'Demandado' },
+    { field: 'radicado', label: 'Radicado' },
+    { field: 'actuacion', label: 'Actuación' },
+    { field: 'clase', label: 'Clase de proceso' },
+    { field: 'fechaAuto', label: 'Fecha auto' },
+    { field: 'juzgado', label: 'Juzgado' },
+    { field: 'estado', label: 'Estado' },
+];
+
+// Prefixes accepted before ":" (folded, lowercase)
+const FIELD_NAMES: Record<string, QueryField> = {
+    demandante: 'demandante',
+    demandado: 'demandado',
+    radicado: 'radicado',
+    actuacion: 'actuacion',
+    clase: 'clase',
+    fecha: 'fechaAuto',
+    juzgado: 'juzgado',
+    despacho: 'juzgado',
+    estado: 'estado',
+};
+
+export type QueryNode =
+    | { kind: 'term'; text: string; field: QueryField | null; quoted: boolean } // Quoted: an exact phrase
+    | { kind: 'and' | 'or'; children: QueryNode[] }
+    | { kind: 'not'; child: QueryNode };
+
+type Token =
+    | { type: 'word'; text: string; field: QueryField | null; quoted: boolean; negated: boolean }
+    | { type: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+function fieldName(prefix: string) {
+    return FIELD_NAMES[foldAccents(prefix).toLowerCase()] ?? null;
+}
+
+function lex(query: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:(\()|(\))|(-)?(?:([^\s:"()]+):)?(?:"([^"]*)"?|([^\s"()]+)))/gy;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(query)) && match[0].trim()) {
+        const [, open, close, minus, prefix, quoted, bare] = match;
+        if (open) { tokens.push({ type: 'open' }); continue; }
+        if (close) { tokens.push({ type: 'close' }); continue; }
+
+        const field = prefix ? fieldName(prefix) : null;
+        // Unknown prefixes are part of the text ("art.:5" stays a word)
+        const text = quoted ?? (prefix && !field ? `${prefix}:${bare ?? ''}` : bare ?? '');
+        if (!minus && !prefix && quoted === undefined && /^(AND|OR|NOT)$/.test(text)) {
+            tokens.push({ type: text.toLowerCase() as 'and' | 'or' | 'not' });
+            continue;
+        }
+        // Lone punctuation ("-", ":") would be a term nothing can match
+        if (/[\p{L}\p{N}]/u.test(text)) {
+            tokens.push({ type: 'word', text: text.trim(), field, quoted: quoted !== undefined, negated: !!minus });
+        }
+    }
+    return tokens;
+}
+
+const isPlain = (token: Token | undefined): token is Extract<Token, { type: 'word' }> =>
+    token?.type === 'word' && !token.field && !token.quoted && !token.negated;
+
+/**
+ * Parses a search box query: `demandado:"Banco X" -actuacion:archivo`, `(pérez OR perez) NOT
+ * desistimiento`. Terms next to each other are ANDed; OR binds looser than AND. Consecutive
+ * plain words stay a single term so "banco de bogota" keeps matching as a phrase, and a
+ * query without any syntax gives a single term, exactly as typed. Unbalanced parentheses and
+ * dangling operators are ignored rather than reported.
+ */
+export function parseQuery(query: string, defaultField: QueryField | null = null): QueryNode | null {
+    const tokens = lex(query);
+    let position = 0;
+
+    const parseOr = (): QueryNode | null => {
+        const children: QueryNode[] = [];
+        do {
+            const node = parseAnd();
+            if (node) children.push(node);
+        } while (tokens[position]?.type === 'or' && ++position);
+        return children.length > 1 ? { kind: 'or', children } : children[0] ?? null;
+    };
+
+    const parseAnd = (): QueryNode | null => {
+        const children: QueryNode[] = [];
+        while (position < tokens.length && tokens[position].type !== 'or' && tokens[position].type !== 'close') {
+            if (tokens[position].type === 'and') {
+                position++;
+                continue;
+            }
+            const node = parseUnary();
+            if (node) children.push(node);
+        }
+        return children.length > 1 ? { kind: 'and', children } : children[0] ?? null;
+    };
+
+    const parseUnary = (): QueryNode | null => {
+        const token = tokens[position++];
+        if (token.type === 'not') {
+            const child = position < tokens.length ? parseUnary() : null;
+            return child && { kind: 'not', child };
+        }
+        if (token.type === 'open') {
+            const node = parseOr();
+            if (tokens[position]?.type === 'close') position++;
+            return node;
+        }
+        if (token.type !== 'word') return null;
+
+        let text = token.text;
+        if (isPlain(token)) {
+            while (isPlain(tokens[position])) text += ` ${(tokens[position++] as { text: string }).text}`;
+        }
+        const term: QueryNode = { kind: 'term', text, field: token.field ?? defaultField, quoted: token.quoted };
+        return token.negated ? { kind: 'not', child: term } : term;
+    };
+
+    let root: QueryNode | null = null;
+    while (position < tokens.length) {
+        const node = parseOr();
+        // A stray ")" ends parseOr early; skip it and AND whatever follows
+        if (tokens[position]?.type === 'close') position++;
+        if (node) root = root ? { kind: 'and', children: [root, node] } : node;
+    }
+    return root;
+}
+
+// Texts of the terms a row has to contain, for highlighting; negated terms are left out
+export function positiveTerms(node: QueryNode | null): string[] {
+    if (!node) return [];
+    switch (node.kind) {
+        case 'term': return [node.text];
+        case 'not': return [];
+        default: return node.children.flatMap(positiveTerms);
+    }
+}
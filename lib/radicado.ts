@@ -0,0 +1,157 @@
+import type { CellValue } from './types';
+
+// Código Único de Radicación: 23 digits split in fixed-width components
+// DD CCC EE SS OOO AAAA NNNNN II
+export interface RadicadoParts {
+    departamento: string; // 2
+    ciudad: string; // 3
+    entidad: string; // 2 (corporación)
+    especialidad: string; // 2
+    despacho: string; // 3 (número del despacho)
+    anio: string; // 4
+    consecutivo: string; // 5
+    instancia: string; // 2 (recurso)
+}
+
+export interface ParsedRadicado {
+    raw: string;
+    parts: Partial<RadicadoParts>;
+    complete: boolean; // All 23 digits present
+    formatted: string; // e.g. "11001-31-03-001-2023-00123-00" or "2023-00123"
+    warning?: string;
+}
+
+export type RadicadoQuery =
+    | { kind: 'exact'; digits: string }
+    | { kind: 'despacho'; code: string } // First 12 digits: departamento + ciudad + entidad + especialidad + despacho
+    | { kind: 'anio-consecutivo'; anio: string; consecutivo: string };
+
+const FIELD_WIDTHS: [keyof RadicadoParts, number][] = [
+    ['departamento', 2],
+    ['ciudad', 3],
+    ['entidad', 2],
+    ['especialidad', 2],
+    ['despacho', 3],
+    ['anio', 4],
+    ['consecutivo', 5],
+    ['instancia', 2],
+];
+
+const FULL_LENGTH = 23;
+const DESPACHO_LENGTH = 12;
+const MIN_WARNING_LENGTH = 9;
+
+// Year plus consecutive as usually written in bulletins: "2023-00123", "2023 123", "2023-00123-00"
+const SHORT_FORM = /^(\d{4})[\s\-–]+(\d{1,5})(?:[\s\-–]+(\d{2}))?$/;
+
+const stripLabel = (text: string) => text.replace(/^(rad(icado)?|no|n°|nro)\.?\s*:?\s*/i, '');
+const compact = (text: string) => text.replace(/[\s\-–._/]/g, '');
+
+function isPlausibleYear(year: string) {
+    const value = Number(year);
+    return value >= 1950 && value <= new Date().getFullYear() + 1;
+}
+
+function splitFull(digits: string): RadicadoParts {
+    const parts = {} as RadicadoParts;
+    let offset = 0;
+    FIELD_WIDTHS.forEach(([field, width]) => {
+        parts[field] = digits.slice(offset, offset + width);
+        offset += width;
+    });
+    return parts;
+}
+
+export function formatRadicado(parts: RadicadoParts) {
+    return `${parts.departamento}${parts.ciudad}-${parts.entidad}-${parts.especialidad}-${parts.despacho}-${parts.anio}-${parts.consecutivo}-${parts.instancia}`;
+}
+
+export function despachoCode(parts: Partial<RadicadoParts>) {
+    const { departamento, ciudad, entidad, especialidad, despacho } = parts;
+    if (!departamento || !ciudad || !entidad || !especialidad || !despacho) return null;
+    return `${departamento}${ciudad}${entidad}${especialidad}${despacho}`;
+}
+
+/**
+ * Reads the radicado column of a row. Returns null when the cell is not a radicado at all
+ * (empty, or free text such as a header), and a parse with `warning` when it looks like a
+ * radicado but does not have a valid shape.
+ */
+export function parseRadicado(value: CellValue | undefined): ParsedRadicado | null {
+    if (value === null || value === undefined) return null;
+    const raw = String(value).trim();
+    const text = stripLabel(raw);
+    const digits = compact(text);
+    if (!digits) return null;
+
+    // Excel stores long numbers as floats, so a radicado typed as a number arrives as "1.1001e+22"
+    if (typeof value === 'number' && /e\+/i.test(raw)) {
+        return { raw, parts: {}, complete: false, formatted: raw, warning: 'El radicado fue guardado como número en Excel y perdió dígitos.' };
+    }
+    if (!/^\d+$/.test(digits)) return null;
+
+    if (digits.length === FULL_LENGTH) {
+        const parts = splitFull(digits);
+        return {
+            raw,
+            parts,
+            complete: true,
+            formatted: formatRadicado(parts),
+            warning: isPlausibleYear(parts.anio) ? undefined : `Año de radicación inválido (${parts.anio}).`,
+        };
+    }
+
+    const short = text.match(SHORT_FORM);
+    if (short && isPlausibleYear(short[1])) {
+        const parts: Partial<RadicadoParts> = { anio: short[1], consecutivo: short[2].padStart(5, '0') };
+        if (short[3]) parts.instancia = short[3];
+        return {
+            raw,
+            parts,
+            complete: false,
+            formatted: [parts.anio, parts.consecutivo, parts.instancia].filter(Boolean).join('-'),
+        };
+    }
+
+    // Short numbers are row counters or codes, not a mistyped radicado
+    if (digits.length < MIN_WARNING_LENGTH) return null;
+
+    return {
+        raw,
+        parts: {},
+        complete: false,
+        formatted: raw,
+        warning: `El radicado tiene ${digits.length} dígitos; se esperaban ${FULL_LENGTH}.`,
+    };
+}
+
+/**
+ * Recognizes search terms that refer to a radicado rather than a party name:
+ * a full radicado, a 12-digit despacho code, or year plus consecutive ("2023-00123").
+ */
+export function parseRadicadoQuery(term: string): RadicadoQuery | null {
+    const text = stripLabel(term.trim());
+    const digits = compact(text);
+    if (!/^\d+$/.test(digits)) return null;
+
+    if (digits.length === FULL_LENGTH) return { kind: 'exact', digits };
+    if (digits.length === DESPACHO_LENGTH) return { kind: 'despacho', code: digits };
+
+    const short = text.match(SHORT_FORM);
+    if (short && isPlausibleYear(short[1])) {
+        return { kind: 'anio-consecutivo', anio: short[1], consecutivo: short[2].padStart(5, '0') };
+    }
+    return null;
+}
+
+export function matchesRadicadoQuery(radicado: ParsedRadicado, query: RadicadoQuery) {
+    const { parts } = radicado;
+    switch (query.kind) {
+        case 'exact':
+            return radicado.complete && compact(radicado.formatted) === query.digits;
+        case 'despacho':
+            return despachoCode(parts) === query.code;
+        case 'anio-consecutivo':
+            return parts.anio === query.anio && parts.consecutivo === query.consecutivo;
+    }
+}
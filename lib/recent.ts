@@ -0,0 +1,42 @@
+import { createLocalStore } from './storage';
+
+const MAX_RECENT_SEARCHES = 10;
+const MAX_RECENT_BULLETINS = 5;
+
+const NO_SEARCHES: string[] = [];
+
+export const recentSearchesStore = createLocalStore<string[]>(
+    'buscador-procesos:recent-searches',
+    NO_SEARCHES,
+    value => Array.isArray(value) ? value.filter(t => typeof t === 'string') : NO_SEARCHES
+);
+
+// Most recent first, without repeating a query already in the list
+export function addRecentSearch(recent: string[], query: string) {
+    const trimmed = query.trim();
+    if (!trimmed) return recent;
+    return [trimmed, ...recent.filter(q => q.toLowerCase() !== trimmed.toLowerCase())].slice(0, MAX_RECENT_SEARCHES);
+}
+
+// What is remembered of a bulletin once the page closes; the contents themselves are not kept
+export interface BulletinRecord {
+    fileName: string;
+    size: number;
+    lastModified: number;
+    loadedAt: number; // Date.now() when it was loaded
+    sheetCount: number;
+    rowCount: number;
+}
+
+const NO_BULLETINS: BulletinRecord[] = [];
+
+export const recentBulletinsStore = createLocalStore<BulletinRecord[]>(
+    'buscador-procesos:recent-bulletins',
+    NO_BULLETINS,
+    value => Array.isArray(value) ? value.filter(b => b && typeof b.fileName === 'string') : NO_BULLETINS
+);
+
+export function addRecentBulletin(recent: BulletinRecord[], record: BulletinRecord) {
+    const others = recent.filter(b => !(b.fileName === record.fileName && b.size === record.size && b.lastModified === record.lastModified));
+    return [record, ...others].slice(0, MAX_RECENT_BULLETINS);
+}
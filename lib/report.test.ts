@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from './types';
+import { DEFAULT_MAPPING } from './columns';
+import { parseRadicado } from './radicado';
+import { processKey } from './selection';
+import { DEFAULT_REPORT_TEMPLATE, reportTable, type ReportTemplate } from './report';
+
+const CIVIL = 'JUZGADO PRIMERO CIVIL MUNICIPAL';
+const LABORAL = 'JUZGADO CUARTO LABORAL DEL CIRCUITO';
+
+const result = (radicado: string, demandado: string, context?: string): SearchResult => ({
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName: 'Hoja1',
+    rowIndex: 1,
+    data: [radicado, 'BANCO X', demandado, 'AUTO ADMITE DEMANDA'],
+    id: `f1:${radicado}`,
+    context,
+    matches: [],
+    radicado: parseRadicado(radicado),
+    columns: DEFAULT_MAPPING,
+});
+
+const RESULTS = [
+    result('05001310500420240004500', 'ANA RUIZ', LABORAL),
+    result('11001400300120230012300', 'LAURA GÓMEZ', CIVIL),
+    result('11001400300120230045600', 'MARIO DÍAZ', CIVIL),
+    result('', 'LUIS MORA'),
+];
+
+const template = (changes: Partial<ReportTemplate>): ReportTemplate => ({
+    ...DEFAULT_REPORT_TEMPLATE,
+    columns: [{ key: 'juzgado', enabled: true }, { key: 'demandado', enabled: true }, { key: 'actuacion', enabled: false }],
+    ...changes,
+});
+
+// Text of each body row: plain rows as their cells, spanning rows as their content
+const texts = (table: ReturnType<typeof reportTable>) =>
+    table.body.map(row => (row as unknown[]).map(cell => typeof cell === 'object' ? (cell as { content: string }).content : cell));
+
+describe('reportTable', () => {
+    it('groups processes under their juzgado, alphabetically, with a subtotal each', () => {
+        const table = reportTable(RESULTS, template({}), {});
+        // The juzgado is the group title, so it is not repeated as a column
+        expect(table.head).toEqual(['Demandado']);
+        expect(texts(table)).toEqual([
+            [LABORAL], ['ANA RUIZ'], ['Subtotal: 1 proceso'],
+            [CIVIL], ['LAURA GÓMEZ'], ['MARIO DÍAZ'], ['Subtotal: 2 procesos'],
+            ['Sin asignar'], ['LUIS MORA'], ['Subtotal: 1 proceso'],
+        ]);
+    });
+
+    it('leaves out the subtotals when the template does not want them', () => {
+        expect(texts(reportTable(RESULTS.slice(0, 2), template({ subtotals: false }), {}))).toEqual([
+            [LABORAL], ['ANA RUIZ'], [CIVIL], ['LAURA GÓMEZ'],
+        ]);
+    });
+
+    it('lists processes in selection order without grouping', () => {
+        const table = reportTable(RESULTS.slice(0, 2), template({ groupByJuzgado: false }), {});
+        expect(table.head).toEqual(['Juzgado', 'Demandado']);
+        expect(texts(table)).toEqual([[LABORAL, 'ANA RUIZ'], [CIVIL, 'LAURA GÓMEZ']]);
+    });
+
+    it('adds the note of a process under it when notes are included', () => {
+        const notes = { [processKey(RESULTS[1])]: '  Revisar el mandamiento  ', [processKey(RESULTS[2])]: ' ' };
+        expect(texts(reportTable(RESULTS.slice(1, 3), template({ subtotals: false }), notes))).toEqual([
+            [CIVIL], ['LAURA GÓMEZ'], ['Nota: Revisar el mandamiento'], ['MARIO DÍAZ'],
+        ]);
+        expect(texts(reportTable(RESULTS.slice(1, 3), template({ subtotals: false, includeNotes: false }), notes))).toEqual([
+            [CIVIL], ['LAURA GÓMEZ'], ['MARIO DÍAZ'],
+        ]);
+    });
+});
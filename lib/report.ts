@@ -0,0 +1,240 @@
+import jsPDF from 'jspdf';
+import autoTable, { type RowInput } from 'jspdf-autotable';
+import type { SearchResult } from './types';
+import { EXPORT_COLUMNS, type ExportColumnChoice } from './export';
+import { formatDate, todayISO } from './dates';
+import { createLocalStore } from './storage';
+import { foldAccents } from './normalize';
+import { processKey } from './selection';
+import { clientMatchLabel, type ClientMatch, type ClientMatchStatus } from './clients';
+
+export interface ReportTemplate {
+    id: string;
+    name: string; // Template name shown in the selector
+    firmName: string;
+    logo: string | null; // PNG / JPEG data URL, kept with the template
+    title: string;
+    clientName: string;
+    groupByJuzgado: boolean;
+    subtotals: boolean; // Process count at the end of each juzgado group
+    includeNotes: boolean;
+    columns: ExportColumnChoice[];
+}
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+    id: 'default',
+    name: 'Predeterminada',
+    firmName: '',
+    logo: null,
+    title: 'Reporte de Procesos Seleccionados',
+    clientName: '',
+    groupByJuzgado: true,
+    subtotals: true,
+    includeNotes: true,
+    columns: EXPORT_COLUMNS.map(({ key }) => ({
+        key,
+        enabled: ['juzgado', 'estado', 'radicado', 'demandante', 'demandado', 'actuacion', 'archivo', 'hoja'].includes(key),
+    })),
+};
+
+const EMPTY: ReportTemplate[] = [];
+
+export const reportTemplatesStore = createLocalStore<ReportTemplate[]>(
+    'buscador-procesos:report-templates',
+    EMPTY,
+    value => Array.isArray(value)
+        ? value.filter(t => t && typeof t.name === 'string').map(t => ({ ...DEFAULT_REPORT_TEMPLATE, ...t }))
+        : EMPTY
+);
+
+// Report notes typed for each process, keyed by processKey so they follow it to the next bulletin
+export type ProcessNotes = Record<string, string>;
+
+const NO_NOTES: ProcessNotes = {};
+
+export const processNotesStore = createLocalStore<ProcessNotes>(
+    'buscador-procesos:process-notes',
+    NO_NOTES,
+    value => value && typeof value === 'object' && !Array.isArray(value) ? value as ProcessNotes : NO_NOTES
+);
+
+const BLUE: [number, number, number] = [37, 99, 235]; // Blue-600, as in the app
+const MARGIN = 14;
+
+// Distinct values in first-seen order
+const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+// "Estado del 10/02/2026", or the first and last fixation dates when the selection spans several
+function estadoSummary(results: SearchResult[]) {
+    const dates = distinct(results.map(r => r.estado?.fecha ?? '')).sort();
+    if (dates.length === 0) return '';
+    if (dates.length === 1) return `Estado del ${formatDate(dates[0])}`;
+    return `Estados del ${formatDate(dates[0])} al ${formatDate(dates[dates.length - 1])}`;
+}
+
+function drawHeader(doc: jsPDF, template: ReportTemplate, count: number, countLabel = 'Total procesos') {
+    const logoHeight = 18;
+    let x = MARGIN;
+    if (template.logo) {
+        const { width, height } = doc.getImageProperties(template.logo);
+        const logoWidth = Math.min((width / height) * logoHeight, 60);
+        doc.addImage(template.logo, MARGIN, 10, logoWidth, logoHeight);
+        x += logoWidth + 6;
+    }
+
+    let y = 18;
+    if (template.firmName) {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(13);
+        doc.text(template.firmName, x, y);
+        doc.setFont('helvetica', 'normal');
+        y += 9;
+    }
+    doc.setFontSize(18);
+    doc.text(template.title || DEFAULT_REPORT_TEMPLATE.title, x, y);
+    y = Math.max(y + 10, template.logo ? 10 + logoHeight + 8 : 0);
+
+    doc.setFontSize(11);
+    if (template.clientName) {
+        doc.text(`Cliente: ${template.clientName}`, MARGIN, y);
+        y += 6;
+    }
+    doc.text(`Fecha: ${formatDate(todayISO())}`, MARGIN, y);
+    doc.text(`${countLabel}: ${count}`, MARGIN, y + 6);
+    return y + 14;
+}
+
+// Bulletin and estado on every page, plus "Página n de N" once the page count is known
+function drawFooters(doc: jsPDF, results: SearchResult[], fileNames = distinct(results.map(r => r.fileName))) {
+    const width = doc.internal.pageSize.getWidth();
+    const height = doc.internal.pageSize.getHeight();
+    const source = [`Boletín: ${fileNames.join(', ')}`, estadoSummary(results)].filter(Boolean).join(' · ');
+    const pages = doc.getNumberOfPages();
+
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    for (let page = 1; page <= pages; page++) {
+        doc.setPage(page);
+        doc.text(doc.splitTextToSize(source, width - 2 * MARGIN - 30)[0], MARGIN, height - 8);
+        doc.text(`Página ${page} de ${pages}`, width - MARGIN, height - 8, { align: 'right' });
+    }
+    doc.setTextColor(0);
+}
+
+/**
+ * Column titles and table rows of a report: the selected processes, grouped by juzgado with
+ * subtotals when the template asks for it, and their notes under each process.
+ */
+export function reportTable(results: SearchResult[], template: ReportTemplate, notes: ProcessNotes): { head: string[]; body: RowInput[] } {
+    const columns = template.columns
+        .filter(c => c.enabled && !(template.groupByJuzgado && c.key === 'juzgado'))
+        .map(c => EXPORT_COLUMNS.find(col => col.key === c.key)!);
+    const span = Math.max(columns.length, 1);
+
+    const processRows = (result: SearchResult): RowInput[] => {
+        const rows: RowInput[] = [columns.map(c => String(c.value(result) || '-'))];
+        const note = template.includeNotes ? notes[processKey(result)]?.trim() : '';
+        if (note) rows.push([{ content: `Nota: ${note}`, colSpan: span, styles: { fontStyle: 'italic', textColor: 80 } }]);
+        return rows;
+    };
+
+    let body: RowInput[];
+    if (template.groupByJuzgado) {
+        const groups = new Map<string, SearchResult[]>();
+        results.forEach(r => {
+            const key = r.context || 'Sin asignar';
+            groups.set(key, [...(groups.get(key) ?? []), r]);
+        });
+        body = Array.from(groups).sort(([a], [b]) => a.localeCompare(b, 'es')).flatMap(([juzgado, rows]) => [
+            [{ content: juzgado, colSpan: span, styles: { fontStyle: 'bold', fillColor: [219, 234, 254] } }],
+            ...rows.flatMap(processRows),
+            ...(template.subtotals
+                ? [[{ content: `Subtotal: ${rows.length} proceso${rows.length !== 1 ? 's' : ''}`, colSpan: span, styles: { halign: 'right', fontStyle: 'bold' } }]] as RowInput[]
+                : []),
+        ]);
+    } else {
+        body = results.flatMap(processRows);
+    }
+    return { head: columns.map(c => c.label), body };
+}
+
+/**
+ * Builds the PDF sent to clients: branded header, the table of reportTable and a footer with
+ * the bulletin, estado date and page numbers.
+ */
+export function buildReport(results: SearchResult[], template: ReportTemplate, notes: ProcessNotes): Blob {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const startY = drawHeader(doc, template, results.length);
+    const { head, body } = reportTable(results, template, notes);
+
+    autoTable(doc, {
+        startY,
+        head: [head],
+        body,
+        theme: 'grid',
+        headStyles: { fillColor: BLUE },
+        styles: { fontSize: 8, cellPadding: 2 },
+        margin: { bottom: 16 }, // Room for the footer
+    });
+
+    drawFooters(doc, results);
+    return doc.output('blob');
+}
+
+const STATUS_FILLS: Record<ClientMatchStatus, [number, number, number]> = {
+    match: [220, 252, 231], // Green-100
+    ambiguous: [255, 237, 213], // Orange-100
+    none: [243, 244, 246], // Gray-100
+};
+
+const CROSS_COLUMNS = ['juzgado', 'estado', 'radicado', 'demandante', 'demandado', 'actuacion']
+    .map(key => EXPORT_COLUMNS.find(col => col.key === key)!);
+
+/**
+ * The morning "cruce de estados": the firm's header, a count per outcome and every client of
+ * the list in order, each followed by the processes found for it or a line saying there were none.
+ * `fileNames` names the bulletins in the footer even when no client was found.
+ */
+export function buildCrossReport(matches: ClientMatch[], template: ReportTemplate, fileNames: string[]): Blob {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    let startY = drawHeader(doc, { ...template, title: 'Cruce de estados', clientName: '' }, matches.length, 'Total clientes');
+
+    const counts = (['match', 'ambiguous', 'none'] as const)
+        .map(status => `${clientMatchLabel(status)}: ${matches.filter(m => m.status === status).length}`);
+    doc.setFontSize(11);
+    doc.text(counts.join('   ·   '), MARGIN, startY - 2);
+    startY += 6;
+
+    const span = CROSS_COLUMNS.length;
+    const body: RowInput[] = matches.flatMap(({ client, status, results, reasons }) => {
+        const title = [client.name || client.document, client.document && client.name ? `NIT/C.C. ${client.document}` : '', client.code && `Código ${client.code}`]
+            .filter(Boolean).join(' · ');
+        const outcome = [clientMatchLabel(status), ...reasons].join(' · ');
+        return [
+            [{ content: `${title} — ${outcome}`, colSpan: span, styles: { fontStyle: 'bold', fillColor: STATUS_FILLS[status] } }],
+            ...(results.length > 0
+                ? results.map(r => CROSS_COLUMNS.map(c => String(c.value(r) || '-')))
+                : [[{ content: 'Sin procesos en los boletines cargados', colSpan: span, styles: { fontStyle: 'italic', textColor: 120 } }]]),
+        ] as RowInput[];
+    });
+
+    autoTable(doc, {
+        startY,
+        head: [CROSS_COLUMNS.map(c => c.label)],
+        body,
+        theme: 'grid',
+        headStyles: { fillColor: BLUE },
+        styles: { fontSize: 8, cellPadding: 2 },
+        margin: { bottom: 16 },
+    });
+
+    drawFooters(doc, matches.flatMap(m => m.results), fileNames);
+    return doc.output('blob');
+}
+
+// "reporte_banco_x_2026-02-10.pdf"; without a client name, "reporte_procesos_<date>.pdf"
+export function reportFileName(template: ReportTemplate) {
+    const client = foldAccents(template.clientName)
+        .toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    return `reporte_${client || 'procesos'}_${todayISO()}.pdf`;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from './types';
+import { DEFAULT_MAPPING } from './columns';
+import { parseRadicado } from './radicado';
+import { applyResultFilters, DEFAULT_RESULT_FILTERS, resultFacets, resultsAnnouncement, type ResultFilters } from './results';
+
+const CIVIL = 'JUZGADO PRIMERO CIVIL MUNICIPAL';
+const LABORAL = 'JUZGADO CUARTO LABORAL DEL CIRCUITO';
+const ESTADO_10 = 'ESTADO NO. 18 DEL 10 DE FEBRERO DE 2026';
+const ESTADO_12 = 'ESTADO NO. 19 DEL 12 DE FEBRERO DE 2026';
+
+const result = (id: string, context: string, stateContext: string, fecha: string | null, radicado: string, sheetName = 'Hoja1'): SearchResult => ({
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName,
+    rowIndex: Number(id),
+    data: [radicado, 'BANCO X', 'PEREZ', 'AUTO ADMITE DEMANDA'],
+    id,
+    context,
+    stateContext,
+    estado: fecha ? { numero: 18, fecha } : null,
+    matches: [],
+    radicado: parseRadicado(radicado),
+    columns: DEFAULT_MAPPING,
+});
+
+// In bulletin order
+const RESULTS = [
+    result('1', CIVIL, ESTADO_12, '2026-02-12', '11001400300120230045600', 'Hoja2'),
+    result('2', LABORAL, ESTADO_10, '2026-02-10', '05001310500420240004500'),
+    result('3', '', '', null, ''),
+    result('4', CIVIL, ESTADO_10, '2026-02-10', '11001400300120230012300'),
+];
+
+const ids = (filters: Partial<ResultFilters>) => applyResultFilters(RESULTS, { ...DEFAULT_RESULT_FILTERS, ...filters }).map(r => r.id);
+
+describe('applyResultFilters', () => {
+    it('sorts by fixation date with undated rows last, ties in bulletin order', () => {
+        expect(ids({})).toEqual(['1', '2', '3', '4']);
+        expect(ids({ sort: 'date-asc' })).toEqual(['2', '4', '1', '3']);
+        expect(ids({ sort: 'date-desc' })).toEqual(['1', '2', '4', '3']);
+    });
+
+    it('sorts by juzgado, sheet or radicado, empty values last', () => {
+        expect(ids({ sort: 'juzgado' })).toEqual(['2', '1', '4', '3']);
+        expect(ids({ sort: 'sheet' })).toEqual(['2', '3', '4', '1']);
+        expect(ids({ sort: 'radicado' })).toEqual(['2', '4', '1', '3']);
+    });
+
+    it('drops undated rows while a date range is set', () => {
+        expect(ids({ dateFrom: '2026-02-11' })).toEqual(['1']);
+        expect(ids({ dateTo: '2026-02-10' })).toEqual(['2', '4']);
+    });
+
+    it('keeps the picked juzgados and estados, "" standing for rows without one', () => {
+        expect(ids({ juzgados: [CIVIL, ''] })).toEqual(['1', '3', '4']);
+        expect(ids({ juzgados: [CIVIL], estados: [ESTADO_10] })).toEqual(['4']);
+    });
+});
+
+describe('resultFacets', () => {
+    it('counts each facet with the other applied but not its own selection', () => {
+        const facets = resultFacets(RESULTS, { ...DEFAULT_RESULT_FILTERS, juzgados: [LABORAL] });
+        expect(facets.juzgados).toEqual([
+            { value: CIVIL, count: 2 },
+            { value: '', count: 1 },
+            { value: LABORAL, count: 1 },
+        ]);
+        expect(facets.estados).toEqual([{ value: ESTADO_10, count: 1 }]);
+    });
+
+    it('keeps selected values that no longer match anything', () => {
+        const facets = resultFacets(RESULTS, { ...DEFAULT_RESULT_FILTERS, dateFrom: '2026-02-11', estados: [ESTADO_10] });
+        expect(facets.estados).toEqual([{ value: ESTADO_12, count: 1 }, { value: ESTADO_10, count: 0 }]);
+        expect(facets.juzgados).toEqual([]);
+    });
+});
+
+describe('resultsAnnouncement', () => {
+    it('says how many results are shown and selected', () => {
+        expect(resultsAnnouncement({ searching: true, searched: true, shown: 0, total: 0, selected: 0 })).toBe('Buscando…');
+        expect(resultsAnnouncement({ searching: false, searched: false, shown: 0, total: 0, selected: 0 })).toBe('');
+        expect(resultsAnnouncement({ searching: false, searched: true, shown: 1, total: 4, selected: 2 })).toBe('1 resultado de 4, 2 seleccionados');
+    });
+});
@@ -0,0 +1,110 @@
+import type { SearchResult } from './types';
+import { fieldText } from './columns';
+
+export type ResultSort = 'sheet-order' | 'date-asc' | 'date-desc' | 'juzgado' | 'sheet' | 'radicado';
+
+export const RESULT_SORTS: { sort: ResultSort; label: string }[] = [
+    { sort: 'sheet-order', label: 'Orden del boletín' },
+    { sort: 'date-desc', label: 'Fijación más reciente' },
+    { sort: 'date-asc', label: 'Fijación más antigua' },
+    { sort: 'juzgado', label: 'Juzgado' },
+    { sort: 'sheet', label: 'Hoja' },
+    { sort: 'radicado', label: 'Radicado' },
+];
+
+export interface ResultFilters {
+    dateFrom: string; // ISO date, '' for no lower bound
+    dateTo: string; // ISO date, '' for no upper bound
+    juzgados: string[]; // Facet values of `context` to keep, none = all ('' = rows without juzgado)
+    estados: string[]; // Facet values of `stateContext` to keep, none = all
+    sort: ResultSort;
+}
+
+export const DEFAULT_RESULT_FILTERS: ResultFilters = { dateFrom: '', dateTo: '', juzgados: [], estados: [], sort: 'sheet-order' };
+
+export const fixationDate = (result: SearchResult) => result.estado?.fecha ?? null;
+
+export type FacetKey = 'juzgados' | 'estados';
+
+const facetValue = (result: SearchResult, facet: FacetKey) =>
+    (facet === 'juzgados' ? result.context : result.stateContext) ?? '';
+
+export interface FacetCount {
+    value: string; // '' for rows without a header of that kind
+    count: number;
+}
+
+const inDateRange = (result: SearchResult, filters: ResultFilters) => {
+    if (!filters.dateFrom && !filters.dateTo) return true;
+    const date = fixationDate(result);
+    if (!date) return false;
+    return (!filters.dateFrom || date >= filters.dateFrom) && (!filters.dateTo || date <= filters.dateTo);
+};
+
+const inFacet = (result: SearchResult, filters: ResultFilters, facet: FacetKey) =>
+    filters[facet].length === 0 || filters[facet].includes(facetValue(result, facet));
+
+/**
+ * Distinct juzgados and estados with their result counts, most frequent first. Each facet is
+ * counted with the date range and the other facet applied but not its own selection, so the
+ * values not picked yet still show how many results they would add.
+ */
+export function resultFacets(results: SearchResult[], filters: ResultFilters): Record<FacetKey, FacetCount[]> {
+    const count = (facet: FacetKey, other: FacetKey) => {
+        const counts = new Map<string, number>();
+        results.forEach(r => {
+            if (!inDateRange(r, filters) || !inFacet(r, filters, other)) return;
+            const value = facetValue(r, facet);
+            counts.set(value, (counts.get(value) ?? 0) + 1);
+        });
+        // Selected values stay listed even when nothing matches them anymore
+        filters[facet].forEach(value => { if (!counts.has(value)) counts.set(value, 0); });
+        return Array.from(counts, ([value, n]) => ({ value, count: n }))
+            .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, 'es'));
+    };
+    return { juzgados: count('juzgados', 'estados'), estados: count('estados', 'juzgados') };
+}
+
+// Empty values go last in every text sort
+const compareText = (a: string, b: string) => a === b ? 0 : !a ? 1 : !b ? -1 : a.localeCompare(b, 'es', { numeric: true });
+
+const radicadoText = (result: SearchResult) =>
+    result.radicado?.formatted ?? fieldText(result.data, result.columns, 'radicado');
+
+const COMPARATORS: Record<Exclude<ResultSort, 'sheet-order'>, (a: SearchResult, b: SearchResult) => number> = {
+    'date-asc': (a, b) => compareText(fixationDate(a) ?? '', fixationDate(b) ?? ''),
+    'date-desc': (a, b) => {
+        const dateA = fixationDate(a) ?? '';
+        const dateB = fixationDate(b) ?? '';
+        return !dateA || !dateB ? compareText(dateA, dateB) : dateB.localeCompare(dateA);
+    },
+    'juzgado': (a, b) => compareText(a.context ?? '', b.context ?? ''),
+    'sheet': (a, b) => compareText(a.fileName, b.fileName) || compareText(a.sheetName, b.sheetName) || a.rowIndex - b.rowIndex,
+    'radicado': (a, b) => compareText(radicadoText(a), radicadoText(b)),
+};
+
+/**
+ * Narrows results to a fixation date range and the chosen juzgado / estado facets, then orders
+ * them. Rows without a parsed date are dropped while a range is set and go last when sorting by
+ * date; ties keep the bulletin order.
+ */
+export function applyResultFilters(results: SearchResult[], filters: ResultFilters): SearchResult[] {
+    const filtered = results.filter(r => inDateRange(r, filters) && inFacet(r, filters, 'juzgados') && inFacet(r, filters, 'estados'));
+    if (filters.sort === 'sheet-order') return filtered;
+    return filtered.sort(COMPARATORS[filters.sort]);
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+// Status line read out by screen readers: what a search found and how much of it is selected
+export function resultsAnnouncement({ searching, searched, shown, total, selected }: {
+    searching: boolean;
+    searched: boolean;
+    shown: number; // Results left after the filters
+    total: number;
+    selected: number;
+}) {
+    if (searching) return 'Buscando…';
+    if (!searched) return '';
+    return `${plural(shown, 'resultado')}${shown !== total ? ` de ${total}` : ''}, ${plural(selected, 'seleccionado')}`;
+}
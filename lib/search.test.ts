@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { ContextRow } from './bulletin/parser';
+import { DEFAULT_MAPPING } from './columns';
+import { DEFAULT_MATCH_OPTIONS } from './matcher';
+import { parseQuery } from './query';
+import { CONTEXT_COLUMN, compileQuery, createRowMatcher } from './search';
+
+const JUZGADO = 'JUZGADO PRIMERO CIVIL MUNICIPAL DE BOGOTÁ';
+
+const row = (demandante: string, demandado: string, actuacion: string): ContextRow => ({
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName: 'Hoja1',
+    rowIndex: 4,
+    data: ['11001400300120230012300', demandante, demandado, actuacion],
+    context: JUZGADO,
+    stateContext: 'ESTADO NO. 18 DEL 10 DE FEBRERO DE 2026',
+    estado: { numero: 18, fecha: '2026-02-10' },
+    columns: DEFAULT_MAPPING,
+});
+
+const popular = row('BANCO POPULAR DE BOGOTA S.A.', 'LAURA GÓMEZ', 'AUTO LIBRA MANDAMIENTO DE PAGO');
+const bogota = row('BANCO DE BOGOTA S.A.', 'MARIO DÍAZ', 'AUTO DECRETA EMBARGO');
+
+const matches = (query: string, target: ContextRow, field: Parameters<typeof createRowMatcher>[2] = null) =>
+    createRowMatcher([query], DEFAULT_MATCH_OPTIONS, field)(target) !== null;
+
+describe('compileQuery', () => {
+    it('keeps the words of unquoted terms for the per-word fallback only', () => {
+        const plain = compileQuery(parseQuery('banco de bogota')!);
+        const quoted = compileQuery(parseQuery('"banco de bogota"')!);
+        expect(plain.kind === 'term' && plain.leaf.words.length).toBe(3);
+        expect(quoted.kind === 'term' && quoted.leaf.words).toEqual([]);
+    });
+});
+
+describe('createRowMatcher', () => {
+    it('matches a quoted phrase only as written', () => {
+        expect(matches('"banco de bogota"', bogota)).toBe(true);
+        expect(matches('"banco de bogota"', popular)).toBe(false);
+        // Unquoted, each word may be anywhere in the row
+        expect(matches('banco de bogota', popular)).toBe(true);
+    });
+
+    it('looks only at the cell of a named field', () => {
+        expect(matches('demandado:gomez', popular)).toBe(true);
+        expect(matches('demandante:gomez', popular)).toBe(false);
+        expect(matches('juzgado:civil', popular)).toBe(true);
+        expect(matches('gomez', popular, 'demandante')).toBe(false);
+        // Fields the sheet does not map never match
+        expect(matches('clase:ejecutivo', popular)).toBe(false);
+    });
+
+    it('combines terms with AND, OR and NOT', () => {
+        expect(matches('embargo OR mandamiento', popular)).toBe(true);
+        expect(matches('banco -embargo', popular)).toBe(true);
+        expect(matches('banco -embargo', bogota)).toBe(false);
+        expect(matches('(gomez OR diaz) NOT actuacion:embargo', bogota)).toBe(false);
+    });
+
+    it('reports where each term matched, header columns included', () => {
+        const result = createRowMatcher(['demandado:"laura gomez"', 'juzgado:civil'], DEFAULT_MATCH_OPTIONS)(popular);
+        expect(result?.matches).toEqual([
+            { term: 'demandado:"laura gomez"', score: 1, ranges: [{ column: 2, start: 0, end: 11 }] },
+            { term: 'juzgado:civil', score: 1, ranges: [{ column: CONTEXT_COLUMN, start: 16, end: 21 }] },
+        ]);
+        expect(result?.rowIndex).toBe(5);
+    });
+});
@@ -0,0 +1,163 @@
+import type { MatchRange, SearchResult, TermMatch } from './types';
+import type { ContextRow } from './bulletin/parser';
+import { compileTerm, matchText, prepareText, type CompiledTerm, type MatchOptions, type PreparedText } from './matcher';
+import { parseRadicado, parseRadicadoQuery, matchesRadicadoQuery, type RadicadoQuery } from './radicado';
+import { parseQuery, type QueryField, type QueryNode } from './query';
+import type { ColumnMapping } from './columns';
+
+// Pseudo column numbers for matches in the court / estado headers of a row
+export const CONTEXT_COLUMN = -1;
+export const ESTADO_COLUMN = -2;
+
+interface PreparedCell {
+    column: number;
+    prepared: PreparedText;
+}
+
+interface CompiledLeaf {
+    compiled: CompiledTerm;
+    words: CompiledTerm[]; // Each word of a phrase on its own, for unquoted terms
+    radicadoQuery: RadicadoQuery | null;
+    field: QueryField | null;
+}
+
+export type CompiledQuery =
+    | { kind: 'term'; leaf: CompiledLeaf }
+    | { kind: 'and' | 'or'; children: CompiledQuery[] }
+    | { kind: 'not'; child: CompiledQuery };
+
+interface NodeMatch {
+    score: number;
+    ranges: MatchRange[];
+}
+
+export function compileQuery(node: QueryNode): CompiledQuery {
+    switch (node.kind) {
+        case 'term': {
+            const compiled = compileTerm(node.text);
+            const radicadoQuery = !node.field || node.field === 'radicado' ? parseRadicadoQuery(node.text) : null;
+            // Quoted phrases only match as written, never word by word
+            const words = node.quoted ? [] : compiled.tokens.map(compileTerm);
+            return { kind: 'term', leaf: { compiled, words, radicadoQuery, field: node.field } };
+        }
+        case 'not': return { kind: 'not', child: compileQuery(node.child) };
+        default: return { kind: node.kind, children: node.children.map(compileQuery) };
+    }
+}
+
+// Column a field is read from in this row, CONTEXT_COLUMN / ESTADO_COLUMN for the headers
+function fieldColumn(field: QueryField, columns: ColumnMapping) {
+    if (field === 'juzgado') return CONTEXT_COLUMN;
+    if (field === 'estado') return ESTADO_COLUMN;
+    return columns[field];
+}
+
+// Best match of a phrase inside a single cell
+function bestInCells(cells: PreparedCell[], compiled: CompiledTerm, options: MatchOptions) {
+    let best: { score: number; range: MatchRange } | null = null;
+    for (let i = 0; i < cells.length && best?.score !== 1; i++) {
+        const match = matchText(cells[i].prepared, compiled, options);
+        if (match && (!best || match.score > best.score)) {
+            best = { score: match.score, range: { column: cells[i].column, start: match.start, end: match.end } };
+        }
+    }
+    return best;
+}
+
+/**
+ * Compiles the terms once and returns a function that checks a row against all of them.
+ * Each term is a query (see parseQuery); a plain term matches as a phrase inside one cell
+ * or, failing that, when each of its words is found somewhere in the row (any column or
+ * header). A quoted term only matches as a phrase. Terms restricted to a field only look at that field's cell. `defaultField`
+ * restricts the terms that do not name one.
+ */
+export function createRowMatcher(terms: string[], options: MatchOptions, defaultField: QueryField | null = null) {
+    const queries = terms.flatMap(term => {
+        const query = parseQuery(term, defaultField);
+        return query ? [{ term, query: compileQuery(query) }] : [];
+    });
+
+    return ({ fileId, fileName, sheetName, rowIndex, data, context, stateContext, estado, columns, mergedRows }: ContextRow): SearchResult | null => {
+        const cells: PreparedCell[] = [];
+        data.forEach((cell, column) => {
+            if (cell !== null && cell !== '') cells.push({ column, prepared: prepareText(String(cell)) });
+        });
+        if (context) cells.push({ column: CONTEXT_COLUMN, prepared: prepareText(context) });
+        if (stateContext) cells.push({ column: ESTADO_COLUMN, prepared: prepareText(stateContext) });
+
+        const radicadoColumn = columns.radicado;
+        const radicado = radicadoColumn === undefined ? null : parseRadicado(data[radicadoColumn]);
+
+        const matchLeaf = ({ compiled, words, radicadoQuery, field }: CompiledLeaf): NodeMatch | null => {
+            // Radicado-shaped terms are compared component by component against the radicado column
+            if (radicadoQuery && radicado && matchesRadicadoQuery(radicado, radicadoQuery)) {
+                return { score: 1, ranges: [{ column: radicadoColumn!, start: 0, end: String(data[radicadoColumn!]).length }] };
+            }
+
+            const column = field && fieldColumn(field, columns);
+            if (field && column === undefined) return null; // Field not mapped in this sheet
+            const scope = field ? cells.filter(c => c.column === column) : cells;
+
+            const phrase = bestInCells(scope, compiled, options);
+            let best: NodeMatch | null = phrase && { score: phrase.score, ranges: [phrase.range] };
+
+            if (best?.score !== 1 && words.length > 1) {
+                const found = words.map(word => bestInCells(scope, word, options));
+                if (found.every(Boolean)) {
+                    const score = Math.min(...found.map(f => f!.score));
+                    if (!best || score > best.score) {
+                        best = { score, ranges: found.map(f => f!.range) };
+                    }
+                }
+            }
+            return best;
+        };
+
+        // AND takes the weakest score, OR the strongest; ranges come from every part that matched
+        const evaluate = (node: CompiledQuery): NodeMatch | null => {
+            switch (node.kind) {
+                case 'term':
+                    return matchLeaf(node.leaf);
+                case 'not':
+                    return evaluate(node.child) ? null : { score: 1, ranges: [] };
+                case 'and': {
+                    const parts: NodeMatch[] = [];
+                    for (const child of node.children) {
+                        const part = evaluate(child);
+                        if (!part) return null;
+                        parts.push(part);
+                    }
+                    return { score: Math.min(...parts.map(p => p.score)), ranges: parts.flatMap(p => p.ranges) };
+                }
+                case 'or': {
+                    const parts = node.children.map(evaluate).filter((p): p is NodeMatch => p !== null);
+                    if (parts.length === 0) return null;
+                    return { score: Math.max(...parts.map(p => p.score)), ranges: parts.flatMap(p => p.ranges) };
+                }
+            }
+        };
+
+        const matches: TermMatch[] = [];
+        queries.forEach(({ term, query }) => {
+            const match = evaluate(query);
+            if (match) matches.push({ term, ...match });
+        });
+
+        if (matches.length === 0) return null;
+        return {
+            fileId,
+            fileName,
+            sheetName,
+            rowIndex: rowIndex + 1, // 1-based index for display
+            data,
+            id: `${fileId}-${sheetName}-${rowIndex}`,
+            context,
+            stateContext,
+            estado,
+            matches,
+            radicado,
+            columns,
+            ...(mergedRows && { mergedRows }),
+        };
+    };
+}
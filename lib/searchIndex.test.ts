@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { ContextRow } from './bulletin/parser';
+import { DEFAULT_MAPPING } from './columns';
+import { DEFAULT_MATCH_OPTIONS } from './matcher';
+import { parseQuery } from './query';
+import { compileQuery, createRowMatcher } from './search';
+import { buildIndex, queryCandidates } from './searchIndex';
+
+const row = (radicado: string, demandante: string, demandado: string, actuacion: string, context = 'JUZGADO PRIMERO CIVIL MUNICIPAL'): ContextRow => ({
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName: 'Hoja1',
+    rowIndex: 0,
+    data: [radicado, demandante, demandado, actuacion],
+    context,
+    stateContext: 'ESTADO NO. 18 DEL 10 DE FEBRERO DE 2026',
+    estado: { numero: 18, fecha: '2026-02-10' },
+    columns: DEFAULT_MAPPING,
+});
+
+const ROWS = [
+    row('11001400300120230012300', 'BANCO DE BOGOTA S.A.', 'LAURA GÓMEZ', 'AUTO LIBRA MANDAMIENTO DE PAGO'),
+    row('11001400300220240004500', 'SOBUSA S.A.S.', 'MARIO DÍAZ', 'AUTO DECRETA EMBARGO'),
+    row('05001310500420240004500', 'BANCOLOMBIA S.A.', 'ANA RUIZ', 'AUTO ADMITE DEMANDA', 'JUZGADO CUARTO LABORAL DEL CIRCUITO'),
+];
+const index = buildIndex(ROWS);
+
+const candidates = (query: string, options = DEFAULT_MATCH_OPTIONS) => {
+    const rows = queryCandidates(index, compileQuery(parseQuery(query)!), options);
+    return rows && Array.from(rows).sort();
+};
+
+describe('queryCandidates', () => {
+    it('keeps the rows where every word prefixes a word of the row, headers included', () => {
+        expect(candidates('banco')).toEqual([0, 2]);
+        expect(candidates('banco bogota')).toEqual([0]);
+        expect(candidates('gomez laboral')).toEqual([]);
+        expect(candidates('laboral')).toEqual([2]);
+        expect(candidates('febrero')).toEqual([0, 1, 2]);
+    });
+
+    it('widens words by edit distance when fuzzy', () => {
+        expect(candidates('sobuza')).toEqual([]);
+        expect(candidates('sobuza', { fuzzy: true, maxEdits: 1 })).toEqual([1]);
+    });
+
+    it('looks up radicados by their full digits, despacho or year and consecutive', () => {
+        expect(candidates('11001-40-03-001-2023-00123-00')).toEqual([0]);
+        expect(candidates('110014003002')).toEqual([1]);
+        expect(candidates('2024-45')).toEqual([1, 2]);
+    });
+
+    it('intersects AND, unites OR and gives up on rows a NOT alone can match', () => {
+        expect(candidates('banco embargo')).toEqual([]);
+        expect(candidates('sobusa OR bancolombia')).toEqual([1, 2]);
+        expect(candidates('banco -bancolombia')).toEqual([0, 2]);
+        expect(candidates('-banco')).toBeNull();
+        expect(candidates('sobusa OR -banco')).toBeNull();
+    });
+
+    it('never leaves out a row the matcher accepts', () => {
+        const queries = ['banco', 'demandado:gomez', '"banco de bogota"', 'auto -embargo', 'juzgado:laboral OR sobusa', '2024-45'];
+        queries.forEach(query => {
+            const matchRow = createRowMatcher([query], DEFAULT_MATCH_OPTIONS);
+            const matching = ROWS.flatMap((r, position) => matchRow(r) ? [position] : []);
+            expect(candidates(query) ?? [0, 1, 2]).toEqual(expect.arrayContaining(matching));
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import type { ContextRow } from './bulletin/parser';
+import { tokenize } from './normalize';
+import { boundedLevenshtein, type CompiledTerm, type MatchOptions } from './matcher';
+import { parseRadicado, despachoCode, type ParsedRadicado, type RadicadoQuery } from './radicado';
+import type { CompiledQuery } from './search';
+
+/**
+ * Inverted index over the rows of one bulletin: every folded word of every cell, plus the
+ * court and estado headers the row falls under, points to the rows that contain it.
+ * Built once when the file loads; queries only touch the rows they need.
+ */
+export interface SearchIndex {
+    vocabulary: string[]; // Distinct words, sorted, for prefix lookups
+    postings: Map<string, number[]>; // Word -> positions in the row list
+    radicados: Map<string, number[]>; // Radicado keys (full, despacho, year-consecutive) -> positions
+}
+
+function addPosting(map: Map<string, number[]>, key: string, position: number) {
+    const list = map.get(key);
+    if (!list) map.set(key, [position]);
+    else if (list[list.length - 1] !== position) list.push(position);
+}
+
+function radicadoKeys(radicado: ParsedRadicado) {
+    const keys: string[] = [];
+    const { parts } = radicado;
+    if (radicado.complete) keys.push(`full:${radicado.formatted.replace(/\D/g, '')}`);
+    const despacho = despachoCode(parts);
+    if (despacho) keys.push(`despacho:${despacho}`);
+    if (parts.anio && parts.consecutivo) keys.push(`ac:${parts.anio}-${parts.consecutivo}`);
+    return keys;
+}
+
+function queryKey(query: RadicadoQuery) {
+    switch (query.kind) {
+        case 'exact': return `full:${query.digits}`;
+        case 'despacho': return `despacho:${query.code}`;
+        case 'anio-consecutivo': return `ac:${query.anio}-${query.consecutivo}`;
+    }
+}
+
+export function buildIndex(rows: ContextRow[]): SearchIndex {
+    const postings = new Map<string, number[]>();
+    const radicados = new Map<string, number[]>();
+
+    rows.forEach((row, position) => {
+        const texts = [...row.data.map(cell => cell === null ? '' : String(cell)), row.context, row.stateContext];
+        texts.forEach(text => {
+            if (text) tokenize(text).forEach(token => addPosting(postings, token.text, position));
+        });
+        const radicado = row.columns.radicado === undefined ? null : parseRadicado(row.data[row.columns.radicado]);
+        if (radicado) radicadoKeys(radicado).forEach(key => addPosting(radicados, key, position));
+    });
+
+    return { vocabulary: Array.from(postings.keys()).sort(), postings, radicados };
+}
+
+// First vocabulary position not smaller than `word`
+function lowerBound(vocabulary: string[], word: string) {
+    let lo = 0;
+    let hi = vocabulary.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (vocabulary[mid] < word) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+}
+
+// Rows with a word starting with `prefix`, or within the edit distance when fuzzy
+function rowsForToken(index: SearchIndex, prefix: string, options: MatchOptions) {
+    const rows = new Set<number>();
+    const add = (word: string) => index.postings.get(word)!.forEach(p => rows.add(p));
+
+    for (let i = lowerBound(index.vocabulary, prefix); i < index.vocabulary.length && index.vocabulary[i].startsWith(prefix); i++) {
+        add(index.vocabulary[i]);
+    }
+
+    if (options.fuzzy && options.maxEdits > 0) {
+        // The vocabulary is far smaller than the rows, so scanning it stays cheap
+        index.vocabulary.forEach(word => {
+            if (boundedLevenshtein(word, prefix, options.maxEdits) <= options.maxEdits ||
+                boundedLevenshtein(word.slice(0, prefix.length), prefix, options.maxEdits) <= options.maxEdits) {
+                add(word);
+            }
+        });
+    }
+    return rows;
+}
+
+/**
+ * Positions of the rows that can match a term: every word of the term must prefix some word
+ * of the row, in any column ("banco bogota" finds "BANCO DE BOGOTA S.A."). Radicado-shaped
+ * terms also look up the radicado keys.
+ */
+export function queryIndex(index: SearchIndex, term: CompiledTerm, radicadoQuery: RadicadoQuery | null, options: MatchOptions): Set<number> {
+    let result = new Set<number>();
+    term.tokens.forEach((token, i) => {
+        if (i > 0 && result.size === 0) return;
+        const rows = rowsForToken(index, token, options);
+        result = i === 0 ? rows : new Set(Array.from(result).filter(p => rows.has(p)));
+    });
+
+    if (radicadoQuery) {
+        index.radicados.get(queryKey(radicadoQuery))?.forEach(p => result.add(p));
+    }
+    return result;
+}
+
+/**
+ * Rows that can satisfy a whole query, or null when the index cannot narrow it (a NOT alone
+ * matches every row without the term). Terms restricted to a field are looked up across all
+ * columns; the row matcher does the exact check afterwards.
+ */
+export function queryCandidates(index: SearchIndex, query: CompiledQuery, options: MatchOptions): Set<number> | null {
+    switch (query.kind) {
+        case 'term':
+            return queryIndex(index, query.leaf.compiled, query.leaf.radicadoQuery, options);
+        case 'not':
+            return null;
+        case 'and': {
+            const narrowed = query.children.map(child => queryCandidates(index, child, options)).filter((s): s is Set<number> => s !== null);
+            if (narrowed.length === 0) return null;
+            return narrowed.reduce((acc, rows) => new Set(Array.from(acc).filter(p => rows.has(p))));
+        }
+        case 'or': {
+            const result = new Set<number>();
+            for (const child of query.children) {
+                const rows = queryCandidates(index, child, options);
+                if (!rows) return null;
+                rows.forEach(p => result.add(p));
+            }
+            return result;
+        }
+    }
+}
@@ -0,0 +1,26 @@
+import type { SearchResult } from './types';
+import { normalizeText } from './normalize';
+import { fieldText } from './columns';
+import { createLocalStore } from './storage';
+
+/**
+ * Identity of a process that does not depend on where it sits in a given bulletin: its
+ * radicado plus the juzgado it was listed under. Rows without a radicado fall back to their
+ * parties. The same process in tomorrow's bulletin gets the same key, so it stays selected.
+ */
+export function processKey(result: SearchResult) {
+    const juzgado = normalizeText(result.context ?? '');
+    const radicado = result.radicado?.formatted.replace(/\D/g, '');
+    if (radicado) return `rad:${radicado}|${juzgado}`;
+    const parties = ['demandante', 'demandado'] as const;
+    return `row:${parties.map(f => normalizeText(fieldText(result.data, result.columns, f))).join('/')}|${juzgado}`;
+}
+
+const EMPTY: SearchResult[] = [];
+
+// Selected processes, with the row they were selected from
+export const selectionStore = createLocalStore<SearchResult[]>(
+    'buscador-procesos:selection',
+    EMPTY,
+    value => Array.isArray(value) ? value.filter(r => r && Array.isArray(r.data) && r.columns) : EMPTY
+);
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from './types';
+import { DEFAULT_MAPPING } from './columns';
+import { DEFAULT_MATCH_OPTIONS } from './matcher';
+import { DEFAULT_RESULT_FILTERS } from './results';
+import { createSession, readSession, searchStateFromQuery, searchStateToQuery, type SearchState } from './session';
+
+const SEARCH: SearchState = {
+    terms: ['demandado:"Banco X" -actuacion:archivo'],
+    searchField: 'demandado',
+    matchOptions: { fuzzy: true, maxEdits: 2 },
+    filters: {
+        dateFrom: '2026-02-01',
+        dateTo: '2026-02-28',
+        juzgados: ['JUZGADO PRIMERO CIVIL MUNICIPAL', 'JUZGADO 20 CIVIL MUNICIPAL'],
+        estados: ['2026-02-10'],
+        sort: 'date-desc',
+    },
+};
+
+const ROW: SearchResult = {
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName: 'Hoja1',
+    rowIndex: 5,
+    data: ['11001400300120230012300', 'BANCO X', 'PEREZ', 'AUTO ADMITE DEMANDA'],
+    id: 'f1:4',
+    context: 'JUZGADO PRIMERO CIVIL MUNICIPAL',
+    matches: [],
+    columns: DEFAULT_MAPPING,
+};
+
+const file = (value: unknown, name = 'sesion.json') => new File([typeof value === 'string' ? value : JSON.stringify(value)], name);
+
+describe('search links', () => {
+    it('round-trip a search through the query string', () => {
+        expect(searchStateFromQuery(searchStateToQuery(SEARCH))).toEqual(SEARCH);
+    });
+
+    it('leave the defaults out', () => {
+        const plain: SearchState = { terms: ['sobusa'], searchField: null, matchOptions: DEFAULT_MATCH_OPTIONS, filters: DEFAULT_RESULT_FILTERS };
+        expect(searchStateToQuery(plain)).toBe('?q=sobusa');
+        expect(searchStateFromQuery('?q=sobusa')).toEqual(plain);
+        // Several terms do not fit a link
+        expect(searchStateToQuery({ ...plain, terms: ['a', 'b'] })).toBe('');
+    });
+
+    it('drop values the app does not know and clamp the edit distance', () => {
+        expect(searchStateFromQuery('?q=perez&campo=telefono&aproximada=9&desde=ayer&orden=azar')).toEqual({
+            terms: ['perez'],
+            searchField: null,
+            matchOptions: { fuzzy: true, maxEdits: 3 },
+            filters: DEFAULT_RESULT_FILTERS,
+        });
+        expect(searchStateFromQuery('?campo=demandado')).toBeNull();
+    });
+});
+
+describe('readSession', () => {
+    const session = createSession(SEARCH, ['estados.xlsx'], [ROW], { otro: 'Nota de otro proceso' });
+
+    it('reads back a saved session', async () => {
+        expect(session.notes).toEqual({});
+        expect(await readSession(file(session))).toEqual(session);
+    });
+
+    it('rejects files that are not sessions of the app', async () => {
+        await expect(readSession(file('{ no es json', 'notas.json'))).rejects.toThrow('notas.json no es un archivo JSON válido');
+        await expect(readSession(file({ processes: [] }, 'otro.json'))).rejects.toThrow('otro.json no es una sesión guardada del buscador');
+        await expect(readSession(file({ ...session, processes: null }))).rejects.toThrow('no es una sesión guardada');
+        await expect(readSession(file({ ...session, version: 2 }))).rejects.toThrow('versión más reciente');
+    });
+
+    it('replaces invalid values with the defaults', async () => {
+        const edited = {
+            ...session,
+            savedAt: 'ayer',
+            bulletins: 'estados.xlsx',
+            search: { terms: [1], searchField: 'telefono', matchOptions: { fuzzy: 'si', maxEdits: 40 }, filters: { dateFrom: 20260201, sort: 'azar' } },
+            processes: [ROW, { data: 'fila' }, null],
+            notes: { a: 'nota', b: 3 },
+        };
+        expect(await readSession(file(edited))).toEqual({
+            ...session,
+            savedAt: '',
+            bulletins: [],
+            search: { terms: [], searchField: null, matchOptions: DEFAULT_MATCH_OPTIONS, filters: DEFAULT_RESULT_FILTERS },
+            processes: [ROW],
+            notes: { a: 'nota' },
+        });
+    });
+
+    it('keeps the edit distance of fuzzy searches between 1 and 3', async () => {
+        const withOptions = async (matchOptions: unknown) =>
+            (await readSession(file({ ...session, search: { ...SEARCH, matchOptions } }))).search.matchOptions;
+        expect(await withOptions({ fuzzy: true, maxEdits: 40 })).toEqual({ fuzzy: true, maxEdits: 3 });
+        expect(await withOptions({ fuzzy: true, maxEdits: 0 })).toEqual({ fuzzy: true, maxEdits: 1 });
+        expect(await withOptions({ fuzzy: true, maxEdits: '2' })).toEqual({ fuzzy: true, maxEdits: 1 });
+        expect(await withOptions({ fuzzy: false, maxEdits: 2 })).toEqual({ fuzzy: false, maxEdits: 2 });
+        expect(await withOptions(null)).toEqual(DEFAULT_MATCH_OPTIONS);
+    });
+});
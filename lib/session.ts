@@ -0,0 +1,174 @@
+import { saveAs } from 'file-saver';
+import type { SearchResult } from './types';
+import { DEFAULT_MATCH_OPTIONS, type MatchOptions } from './matcher';
+import { QUERY_FIELDS, type QueryField } from './query';
+import { DEFAULT_RESULT_FILTERS, RESULT_SORTS, type ResultFilters, type ResultSort } from './results';
+import { processKey } from './selection';
+import type { ProcessNotes } from './report';
+import { todayISO } from './dates';
+
+// What was searched and how the results were filtered, as kept in the URL and in session files
+export interface SearchState {
+    terms: string[];
+    searchField: QueryField | null;
+    matchOptions: MatchOptions;
+    filters: ResultFilters;
+}
+
+// Query parameter names, in Spanish like the rest of what the user sees
+const PARAMS = {
+    term: 'q',
+    field: 'campo',
+    maxEdits: 'aproximada', // Present only for fuzzy searches
+    dateFrom: 'desde',
+    dateTo: 'hasta',
+    juzgados: 'juzgado', // Repeated, once per picked value
+    estados: 'estado',
+    sort: 'orden',
+} as const;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isQueryField = (value: unknown): value is QueryField => QUERY_FIELDS.some(f => f.field === value);
+const isResultSort = (value: unknown): value is ResultSort => RESULT_SORTS.some(s => s.sort === value);
+
+// Edit distances the fuzzy setting offers
+const MIN_EDITS = 1;
+const MAX_EDITS = 3;
+
+const clampEdits = (value: number) => Math.min(Math.max(Math.round(value), MIN_EDITS), MAX_EDITS);
+
+/**
+ * Query string for a search typed in the search box ('' when there is none). Watchlist and
+ * client-list searches run one term per entry and would not fit a link; those are shared as a
+ * session file instead. Defaults are left out so a plain search gives a short link.
+ */
+export function searchStateToQuery({ terms, searchField, matchOptions, filters }: SearchState) {
+    if (terms.length !== 1) return '';
+    const params = new URLSearchParams({ [PARAMS.term]: terms[0] });
+    if (searchField) params.set(PARAMS.field, searchField);
+    if (matchOptions.fuzzy) params.set(PARAMS.maxEdits, String(matchOptions.maxEdits));
+    if (filters.dateFrom) params.set(PARAMS.dateFrom, filters.dateFrom);
+    if (filters.dateTo) params.set(PARAMS.dateTo, filters.dateTo);
+    filters.juzgados.forEach(value => params.append(PARAMS.juzgados, value));
+    filters.estados.forEach(value => params.append(PARAMS.estados, value));
+    if (filters.sort !== DEFAULT_RESULT_FILTERS.sort) params.set(PARAMS.sort, filters.sort);
+    return `?${params}`;
+}
+
+// Search of a shared link, null when the link has none. Values the app does not know are dropped.
+export function searchStateFromQuery(query: string): SearchState | null {
+    const params = new URLSearchParams(query);
+    const term = params.get(PARAMS.term)?.trim();
+    if (!term) return null;
+
+    const field = params.get(PARAMS.field);
+    const maxEdits = Number(params.get(PARAMS.maxEdits));
+    const date = (name: string) => {
+        const value = params.get(name) ?? '';
+        return ISO_DATE.test(value) ? value : '';
+    };
+    const sort = params.get(PARAMS.sort);
+    return {
+        terms: [term],
+        searchField: isQueryField(field) ? field : null,
+        matchOptions: maxEdits >= MIN_EDITS ? { fuzzy: true, maxEdits: clampEdits(maxEdits) } : DEFAULT_MATCH_OPTIONS,
+        filters: {
+            dateFrom: date(PARAMS.dateFrom),
+            dateTo: date(PARAMS.dateTo),
+            juzgados: params.getAll(PARAMS.juzgados),
+            estados: params.getAll(PARAMS.estados),
+            sort: isResultSort(sort) ? sort : DEFAULT_RESULT_FILTERS.sort,
+        },
+    };
+}
+
+// Marks a JSON file as a session of this app, so any other JSON is rejected on open
+const SESSION_FORMAT = 'buscador-procesos/sesion';
+const SESSION_VERSION = 1;
+
+export interface SearchSession {
+    format: typeof SESSION_FORMAT;
+    version: number;
+    savedAt: string; // ISO date-time
+    bulletins: string[]; // Names of the files that were searched
+    search: SearchState;
+    processes: SearchResult[]; // Selected rows, each with its juzgado, estado and file name
+    notes: ProcessNotes; // Notes of those processes only, by processKey
+}
+
+/**
+ * Everything needed to see the selection and build its report on another computer, without
+ * the bulletins: the rows travel whole, so the juzgado and estado they were listed under and
+ * the match highlights come with them.
+ */
+export function createSession(search: SearchState, bulletins: string[], processes: SearchResult[], notes: ProcessNotes): SearchSession {
+    const keys = new Set(processes.map(processKey));
+    return {
+        format: SESSION_FORMAT,
+        version: SESSION_VERSION,
+        savedAt: new Date().toISOString(),
+        bulletins,
+        search,
+        processes,
+        notes: Object.fromEntries(Object.entries(notes).filter(([key, note]) => keys.has(key) && note.trim())),
+    };
+}
+
+export function saveSession(session: SearchSession) {
+    const json = JSON.stringify(session, null, 2);
+    saveAs(new Blob([json], { type: 'application/json' }), `sesion_procesos_${todayISO()}.json`);
+}
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Match options of a session file: the defaults unless `fuzzy` is a boolean, edits kept in range
+function readMatchOptions(value: unknown): MatchOptions {
+    const options = (value && typeof value === 'object' ? value : {}) as Partial<MatchOptions>;
+    if (typeof options.fuzzy !== 'boolean') return DEFAULT_MATCH_OPTIONS;
+    const maxEdits = typeof options.maxEdits === 'number' && Number.isFinite(options.maxEdits)
+        ? clampEdits(options.maxEdits)
+        : DEFAULT_MATCH_OPTIONS.maxEdits;
+    return { fuzzy: options.fuzzy, maxEdits };
+}
+
+// Opens a file written by saveSession; throws with a message for the user when it is not one
+export async function readSession(file: File): Promise<SearchSession> {
+    let value: Partial<SearchSession>;
+    try {
+        value = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`${file.name} no es un archivo JSON válido`);
+    }
+    if (value?.format !== SESSION_FORMAT || !Array.isArray(value.processes)) {
+        throw new Error(`${file.name} no es una sesión guardada del buscador`);
+    }
+    if (typeof value.version !== 'number' || value.version > SESSION_VERSION) {
+        throw new Error(`${file.name} fue guardada con una versión más reciente del buscador`);
+    }
+
+    const search: Partial<SearchState> = value.search ?? {};
+    const filters: Partial<ResultFilters> = search.filters ?? {};
+    const notes = value.notes && typeof value.notes === 'object' ? value.notes : {};
+    return {
+        format: SESSION_FORMAT,
+        version: value.version,
+        savedAt: typeof value.savedAt === 'string' && !Number.isNaN(Date.parse(value.savedAt)) ? value.savedAt : '',
+        bulletins: isStringArray(value.bulletins) ? value.bulletins : [],
+        search: {
+            terms: isStringArray(search.terms) ? search.terms : [],
+            searchField: isQueryField(search.searchField) ? search.searchField : null,
+            matchOptions: readMatchOptions(search.matchOptions),
+            filters: {
+                dateFrom: typeof filters.dateFrom === 'string' && ISO_DATE.test(filters.dateFrom) ? filters.dateFrom : '',
+                dateTo: typeof filters.dateTo === 'string' && ISO_DATE.test(filters.dateTo) ? filters.dateTo : '',
+                juzgados: isStringArray(filters.juzgados) ? filters.juzgados : [],
+                estados: isStringArray(filters.estados) ? filters.estados : [],
+                sort: isResultSort(filters.sort) ? filters.sort : DEFAULT_RESULT_FILTERS.sort,
+            },
+        },
+        // Same check as the stored selection
+        processes: value.processes.filter(r => r && Array.isArray(r.data) && r.columns),
+        notes: Object.fromEntries(Object.entries(notes).filter(([, note]) => typeof note === 'string')),
+    };
+}
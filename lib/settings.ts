@@ -0,0 +1,29 @@
+import { DEFAULT_MATCH_OPTIONS, type MatchOptions } from './matcher';
+import type { QueryField } from './query';
+import type { ResultSort } from './results';
+import { createLocalStore } from './storage';
+
+// Full cards, or one line per result for long lists
+export type ResultView = 'cards' | 'table';
+
+// Search and display preferences that carry over to the next visit
+export interface UserSettings {
+    matchOptions: MatchOptions;
+    searchField: QueryField | null; // null = every field
+    sort: ResultSort;
+    view: ResultView;
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+    matchOptions: DEFAULT_MATCH_OPTIONS,
+    searchField: null,
+    sort: 'sheet-order',
+    view: 'cards',
+};
+
+export const settingsStore = createLocalStore<UserSettings>(
+    'buscador-procesos:settings',
+    DEFAULT_SETTINGS,
+    // Settings added later get their default
+    value => value && typeof value === 'object' ? { ...DEFAULT_SETTINGS, ...value } : DEFAULT_SETTINGS
+);
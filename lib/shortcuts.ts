@@ -0,0 +1,17 @@
+// Keyboard shortcuts of the results page, listed under the results header
+export const SHORTCUTS: { keys: string[]; label: string }[] = [
+    { keys: ['/'], label: 'Ir a la búsqueda' },
+    { keys: ['j', 'k'], label: 'Siguiente / anterior resultado' },
+    { keys: ['Espacio', 'x'], label: 'Seleccionar' },
+    { keys: ['Enter'], label: 'Ver la fila en el boletín' },
+    { keys: ['e'], label: 'Exportar la selección' },
+];
+
+const TEXT_INPUTS = new Set(['text', 'search', 'email', 'number', 'tel', 'url', 'password', 'date']);
+
+// Letters typed into a field are text, not shortcuts
+export function isTypingTarget(target: EventTarget | null) {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target instanceof HTMLInputElement) return TEXT_INPUTS.has(target.type);
+    return target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement || target.isContentEditable;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { ContextRow } from './bulletin/parser';
+import type { LoadedBulletin } from './bulletin/files';
+import type { SheetSummary } from './worker/messages';
+import { DEFAULT_MAPPING } from './columns';
+import { bulletinStats, sheetStats } from './stats';
+
+const CIVIL = 'JUZGADO PRIMERO CIVIL MUNICIPAL';
+const LABORAL = 'JUZGADO CUARTO LABORAL DEL CIRCUITO';
+
+const row = (context: string, fecha: string | null, demandante: string, demandado: string): ContextRow => ({
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName: 'Hoja1',
+    rowIndex: 0,
+    data: ['11001400300120230012300', demandante, demandado, 'AUTO ADMITE DEMANDA'],
+    context,
+    stateContext: '',
+    estado: fecha ? { numero: 18, fecha } : null,
+    columns: DEFAULT_MAPPING,
+});
+
+describe('bulletinStats', () => {
+    const stats = bulletinStats([
+        row(LABORAL, '2026-02-12', 'BANCO X S.A.', 'ANA RUIZ'),
+        row(CIVIL, '2026-02-10', 'Banco X', 'LUIS MORA'),
+        row(CIVIL, null, 'LUIS MORA', 'BANCO X'),
+        row('', '2026-02-10', 'SOBUSA S.A.S.', ''),
+    ]);
+
+    it('counts rows per juzgado, most first, and those without one', () => {
+        expect(stats.rowCount).toBe(4);
+        expect(stats.unattributed).toBe(1);
+        expect(stats.byJuzgado).toEqual([
+            { label: CIVIL, count: 2 },
+            { label: '', count: 1 },
+            { label: LABORAL, count: 1 },
+        ]);
+    });
+
+    it('counts rows per estado date, oldest first and undated last', () => {
+        expect(stats.byEstadoDate).toEqual([
+            { label: '2026-02-10', count: 2 },
+            { label: '2026-02-12', count: 1 },
+            { label: '', count: 1 },
+        ]);
+    });
+
+    it('groups parties by normalized name, shown as first written, with their roles', () => {
+        expect(stats.topParties).toEqual([
+            { label: 'BANCO X S.A.', count: 3, demandante: 2, demandado: 1 },
+            { label: 'LUIS MORA', count: 2, demandante: 1, demandado: 1 },
+            { label: 'ANA RUIZ', count: 1, demandante: 0, demandado: 1 },
+            { label: 'SOBUSA S.A.S.', count: 1, demandante: 1, demandado: 0 },
+        ]);
+    });
+});
+
+describe('sheetStats', () => {
+    it('lists the sheets of the enabled files and whether their column titles were found', () => {
+        const sheet = (name: string, detected: boolean): SheetSummary =>
+            ({ name, rowCount: 10, columns: DEFAULT_MAPPING, detected: detected ? DEFAULT_MAPPING : null, headerRow: null, sample: null });
+        const bulletin = (fileName: string, enabled: boolean, sheets: SheetSummary[]): LoadedBulletin =>
+            ({ id: fileName, fileName, size: 0, lastModified: 0, enabled, sheets, rowCount: 10, juzgados: [] });
+
+        expect(sheetStats([
+            bulletin('lunes.xlsx', true, [sheet('Civil', true), sheet('Laboral', false)]),
+            bulletin('martes.xlsx', false, [sheet('Civil', true)]),
+        ])).toEqual([
+            { fileName: 'lunes.xlsx', sheetName: 'Civil', rowCount: 10, detectedColumns: true },
+            { fileName: 'lunes.xlsx', sheetName: 'Laboral', rowCount: 10, detectedColumns: false },
+        ]);
+    });
+});
@@ -0,0 +1,79 @@
+import type { ContextRow } from './bulletin/parser';
+import type { LoadedBulletin } from './bulletin/files';
+import { fieldText } from './columns';
+import { normalizeTerm } from './normalize';
+
+export interface StatCount {
+    label: string; // Juzgado, ISO estado date or party name; '' for rows without one
+    count: number;
+}
+
+export interface PartyCount extends StatCount {
+    demandante: number; // Rows where the party is the plaintiff
+    demandado: number;
+}
+
+export interface BulletinStats {
+    rowCount: number;
+    unattributed: number; // Rows before any court header, shown as "Sin asignar"
+    byJuzgado: StatCount[]; // Most rows first
+    byEstadoDate: StatCount[]; // Oldest first, rows without an estado date last
+    topParties: PartyCount[];
+}
+
+export interface SheetStat {
+    fileName: string;
+    sheetName: string;
+    rowCount: number;
+    detectedColumns: boolean; // False when the sheet had no column titles and uses the default layout
+}
+
+// Parties listed in the overview
+const TOP_PARTIES = 20;
+
+const byCount = (a: StatCount, b: StatCount) => b.count - a.count || a.label.localeCompare(b.label, 'es');
+
+function tally(labels: string[]): StatCount[] {
+    const counts = new Map<string, number>();
+    labels.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1));
+    return Array.from(counts, ([label, count]) => ({ label, count }));
+}
+
+/**
+ * Aggregates of every row of the loaded bulletins, not just the ones a search found: rows per
+ * juzgado and per estado date, and the parties that appear most often. Parties are grouped by
+ * their normalized name ("BANCO X S.A." and "Banco X" are one party) and shown as first written.
+ */
+export function bulletinStats(rows: ContextRow[]): BulletinStats {
+    const parties = new Map<string, PartyCount>();
+    rows.forEach(row => {
+        (['demandante', 'demandado'] as const).forEach(role => {
+            const name = fieldText(row.data, row.columns, role);
+            const key = normalizeTerm(name).join(' ');
+            if (!key) return;
+            const party = parties.get(key) ?? { label: name, count: 0, demandante: 0, demandado: 0 };
+            party.count++;
+            party[role]++;
+            parties.set(key, party);
+        });
+    });
+
+    return {
+        rowCount: rows.length,
+        unattributed: rows.filter(row => !row.context).length,
+        byJuzgado: tally(rows.map(row => row.context)).sort(byCount),
+        byEstadoDate: tally(rows.map(row => row.estado?.fecha ?? ''))
+            .sort((a, b) => a.label === b.label ? 0 : !a.label ? 1 : !b.label ? -1 : a.label.localeCompare(b.label)),
+        topParties: Array.from(parties.values()).sort(byCount).slice(0, TOP_PARTIES),
+    };
+}
+
+// Sheets of the enabled bulletins as the parser read them
+export function sheetStats(bulletins: LoadedBulletin[]): SheetStat[] {
+    return bulletins.filter(b => b.enabled).flatMap(b => b.sheets.map(sheet => ({
+        fileName: b.fileName,
+        sheetName: sheet.name,
+        rowCount: sheet.rowCount,
+        detectedColumns: sheet.detected !== null,
+    })));
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalStore } from './storage';
+
+// localStorage whose writes can be made to fail, as when the quota is used up
+function fakeStorage() {
+    const items = new Map<string, string>();
+    return {
+        full: false,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem(key: string, value: string) {
+            if (this.full) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+            items.set(key, value);
+        },
+    };
+}
+
+describe('createLocalStore', () => {
+    let storage: ReturnType<typeof fakeStorage>;
+
+    beforeEach(() => {
+        storage = fakeStorage();
+        vi.stubGlobal('window', { localStorage: storage, addEventListener: vi.fn(), removeEventListener: vi.fn() });
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('returns the same snapshot until the stored value changes', () => {
+        const store = createLocalStore('test', { count: 0 });
+        const first = store.get();
+        expect(store.get()).toBe(first);
+        store.set({ count: 1 });
+        expect(store.get()).toEqual({ count: 1 });
+        expect(store.get()).toBe(store.get());
+    });
+
+    it('validates what it reads and falls back on unreadable values', () => {
+        storage.setItem('test', '{ roto');
+        const store = createLocalStore('test', { count: 0 }, value => value as { count: number });
+        expect(store.get()).toEqual({ count: 0 });
+        storage.setItem('test', '{ "count": 5 }');
+        expect(store.get()).toEqual({ count: 5 });
+    });
+
+    it('keeps a value it could not save instead of the older stored one', () => {
+        const store = createLocalStore('test', { count: 0 });
+        const listener = vi.fn();
+        store.subscribe(listener);
+        store.set({ count: 1 });
+
+        storage.full = true;
+        store.set({ count: 2 });
+        expect(store.get()).toEqual({ count: 2 });
+        expect(store.get()).toEqual({ count: 2 });
+        expect(listener).toHaveBeenCalledTimes(2);
+
+        // A later change to storage (another tab) wins again
+        storage.full = false;
+        storage.setItem('test', '{ "count": 3 }');
+        expect(store.get()).toEqual({ count: 3 });
+    });
+});
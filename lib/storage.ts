@@ -0,0 +1,74 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+export interface LocalStore<T> {
+    get: () => T;
+    getServerSnapshot: () => T;
+    set: (value: T) => void;
+    subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * A JSON value in localStorage that components can subscribe to. Snapshots are cached by the
+ * raw string so React sees a stable reference until the value actually changes, and the
+ * static export render gets `fallback` since there is no localStorage there.
+ */
+export function createLocalStore<T>(key: string, fallback: T, validate: (value: unknown) => T = v => v as T): LocalStore<T> {
+    let cache: { raw: string | null; value: T } | null = null;
+    const listeners = new Set<() => void>();
+
+    const readRaw = () => {
+        try {
+            return window.localStorage.getItem(key);
+        } catch {
+            // Storage disabled (private mode, blocked cookies): behave as empty
+            return null;
+        }
+    };
+
+    const get = () => {
+        const raw = readRaw();
+        if (cache && cache.raw === raw) return cache.value;
+
+        let value = fallback;
+        try {
+            value = raw === null ? fallback : validate(JSON.parse(raw));
+        } catch (err) {
+            console.error(`Error leyendo ${key}:`, err);
+        }
+        cache = { raw, value };
+        return value;
+    };
+
+    const set = (value: T) => {
+        try {
+            window.localStorage.setItem(key, JSON.stringify(value));
+        } catch (err) {
+            console.error(`Error guardando ${key}:`, err);
+            // Storage full or disabled: the value lives in memory, tied to what storage still holds so
+            // reads return it instead of that older copy (until another tab changes it)
+            cache = { raw: readRaw(), value };
+        }
+        listeners.forEach(listener => listener());
+    };
+
+    const subscribe = (listener: () => void) => {
+        listeners.add(listener);
+        // Keep several open tabs in sync
+        const onStorage = (e: StorageEvent) => {
+            if (e.key === key) listener();
+        };
+        window.addEventListener('storage', onStorage);
+        return () => {
+            listeners.delete(listener);
+            window.removeEventListener('storage', onStorage);
+        };
+    };
+
+    return { get, getServerSnapshot: () => fallback, set, subscribe };
+}
+
+export function useLocalStore<T>(store: LocalStore<T>): [T, (value: T) => void] {
+    const value = useSyncExternalStore(store.subscribe, store.get, store.getServerSnapshot);
+    const setValue = useCallback((next: T) => store.set(next), [store]);
+    return [value, setValue];
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from './types';
+import { DEFAULT_MAPPING } from './columns';
+import { parseRadicado } from './radicado';
+import { applyCaseFilters, DEFAULT_CASE_FILTERS, DEFAULT_TRACKING_SETTINGS, termDate, trackResults, type TrackedCase } from './tracking';
+
+const result = (radicado: string, fecha: string | null, juzgado = 'JUZGADO PRIMERO CIVIL MUNICIPAL'): SearchResult => ({
+    fileId: 'f1',
+    fileName: 'estados.xlsx',
+    sheetName: 'Hoja1',
+    rowIndex: 1,
+    data: [radicado, 'BANCO', 'PEREZ', 'AUTO ADMITE DEMANDA'],
+    id: `f1:${radicado}`,
+    context: juzgado,
+    estado: fecha ? { numero: 18, fecha } : null,
+    matches: [],
+    radicado: parseRadicado(radicado),
+    columns: DEFAULT_MAPPING,
+});
+
+const tracked = (fecha: string | null, changes: Partial<TrackedCase> = {}): TrackedCase =>
+    ({ ...trackResults([], [result('11001400300120230012300', fecha)])[0], ...changes });
+
+describe('termDate', () => {
+    it('counts the business days from the day after the estado was fixed', () => {
+        expect(termDate(tracked('2026-02-13'), DEFAULT_TRACKING_SETTINGS)).toBe('2026-02-18');
+        expect(termDate(tracked('2026-02-13', { termDays: 10 }), DEFAULT_TRACKING_SETTINGS)).toBe('2026-02-27');
+        expect(termDate(tracked(null), DEFAULT_TRACKING_SETTINGS)).toBeNull();
+    });
+
+    it('stops during the judicial vacancy unless it is turned off', () => {
+        // Fixed the Friday before the December vacancy (2026-12-20 to 2027-01-10)
+        expect(termDate(tracked('2026-12-18'), DEFAULT_TRACKING_SETTINGS)).toBe('2027-01-14');
+        expect(termDate(tracked('2026-12-18'), { ...DEFAULT_TRACKING_SETTINGS, judicialVacancy: false })).toBe('2026-12-23');
+        // Holy Week 2026: Monday to Wednesday of vacancy, then Thursday and Friday holidays
+        expect(termDate(tracked('2026-03-27'), DEFAULT_TRACKING_SETTINGS)).toBe('2026-04-08');
+    });
+});
+
+describe('applyCaseFilters', () => {
+    const cases = [
+        tracked('2026-02-13', { key: 'vencido' }),
+        tracked('2026-02-20', { key: 'proximo' }),
+        tracked(null, { key: 'sin-fecha' }),
+        tracked('2026-02-17', { key: 'terminado', status: 'terminado' }),
+    ];
+    // Terms: vencido 2026-02-18, proximo 2026-02-25
+    const keys = (filters: Partial<typeof DEFAULT_CASE_FILTERS>) =>
+        applyCaseFilters(cases, { ...DEFAULT_CASE_FILTERS, ...filters }, DEFAULT_TRACKING_SETTINGS, '2026-02-20').map(row => row.trackedCase.key);
+
+    it('sorts open cases by term, those without one last', () => {
+        expect(keys({})).toEqual(['vencido', 'proximo', 'sin-fecha']);
+        expect(keys({ sort: 'deadline-desc' })).toEqual(['proximo', 'vencido', 'sin-fecha']);
+    });
+
+    it('filters by deadline and status', () => {
+        expect(keys({ deadline: 'overdue' })).toEqual(['vencido']);
+        expect(keys({ deadline: 'upcoming', withinDays: 5 })).toEqual(['proximo']);
+        expect(keys({ deadline: 'upcoming', withinDays: 4 })).toEqual([]);
+        expect(keys({ deadline: 'no-date' })).toEqual(['sin-fecha']);
+        expect(keys({ status: 'terminado' })).toEqual(['terminado']);
+    });
+});
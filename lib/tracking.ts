@@ -0,0 +1,125 @@
+import type { SearchResult } from './types';
+import { daysBetween } from './dates';
+import { addBusinessDays, type BusinessDayOptions } from './holidays';
+import { processKey } from './selection';
+import { createLocalStore } from './storage';
+
+// Internal status of a case in "Mis procesos", independent of what the bulletin says
+export type CaseStatus = 'pendiente' | 'en-tramite' | 'en-espera' | 'terminado';
+
+export const CASE_STATUSES: { status: CaseStatus; label: string }[] = [
+    { status: 'pendiente', label: 'Pendiente' },
+    { status: 'en-tramite', label: 'En trámite' },
+    { status: 'en-espera', label: 'En espera' },
+    { status: 'terminado', label: 'Terminado' },
+];
+
+export interface TrackedCase {
+    key: string; // processKey: radicado + juzgado
+    result: SearchResult; // Latest row the case was added from; its estado starts the term
+    status: CaseStatus;
+    lawyer: string;
+    notes: string;
+    termDays: number | null; // Business days of the term; null = the default in the settings
+    addedAt: number;
+}
+
+export interface TrackingSettings extends BusinessDayOptions {
+    termDays: number; // Default term, 3 days = ejecutoria of an auto
+}
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+    termDays: 3,
+    judicialVacancy: true,
+};
+
+const NO_CASES: TrackedCase[] = [];
+
+export const trackedCasesStore = createLocalStore<TrackedCase[]>(
+    'buscador-procesos:tracked-cases',
+    NO_CASES,
+    value => Array.isArray(value) ? value.filter(c => c && typeof c.key === 'string' && c.result) : NO_CASES
+);
+
+export const trackingSettingsStore = createLocalStore<TrackingSettings>(
+    'buscador-procesos:tracking-settings',
+    DEFAULT_TRACKING_SETTINGS,
+    value => value && typeof value === 'object' ? { ...DEFAULT_TRACKING_SETTINGS, ...value } : DEFAULT_TRACKING_SETTINGS
+);
+
+/**
+ * Adds results as tracked cases. A process that is already tracked keeps its status, lawyer
+ * and notes but takes the new row, so adding it again from a later bulletin moves its term to
+ * the new estado.
+ */
+export function trackResults(cases: TrackedCase[], results: SearchResult[]): TrackedCase[] {
+    const byKey = new Map(cases.map(c => [c.key, c]));
+    results.forEach(result => {
+        const key = processKey(result);
+        const existing = byKey.get(key);
+        byKey.set(key, existing
+            ? { ...existing, result }
+            : { key, result, status: 'pendiente', lawyer: '', notes: '', termDays: null, addedAt: Date.now() });
+    });
+    return Array.from(byKey.values());
+}
+
+// Last day of the term: estado fixation date plus the case's business days; null without an estado date
+export function termDate(trackedCase: TrackedCase, settings: TrackingSettings) {
+    const fixation = trackedCase.result.estado?.fecha;
+    if (!fixation) return null;
+    return addBusinessDays(fixation, trackedCase.termDays ?? settings.termDays, settings);
+}
+
+export type DeadlineFilter = 'all' | 'overdue' | 'upcoming' | 'no-date';
+
+export type CaseSort = 'deadline-asc' | 'deadline-desc' | 'juzgado' | 'added';
+
+export interface CaseFilters {
+    status: CaseStatus | 'open' | 'all'; // 'open' = everything but terminado
+    lawyer: string; // '' = any
+    deadline: DeadlineFilter;
+    withinDays: number; // Window of 'upcoming', in calendar days from today
+    sort: CaseSort;
+}
+
+export const DEFAULT_CASE_FILTERS: CaseFilters = {
+    status: 'open',
+    lawyer: '',
+    deadline: 'all',
+    withinDays: 7,
+    sort: 'deadline-asc',
+};
+
+export interface CaseRow {
+    trackedCase: TrackedCase;
+    term: string | null;
+    daysLeft: number | null; // Calendar days from today to the term, negative when overdue
+}
+
+export function applyCaseFilters(cases: TrackedCase[], filters: CaseFilters, settings: TrackingSettings, today: string): CaseRow[] {
+    const rows: CaseRow[] = cases.map(trackedCase => {
+        const term = termDate(trackedCase, settings);
+        return { trackedCase, term, daysLeft: term ? daysBetween(today, term) : null };
+    });
+
+    const filtered = rows.filter(({ trackedCase, daysLeft }) => {
+        if (filters.status === 'open' ? trackedCase.status === 'terminado' : filters.status !== 'all' && trackedCase.status !== filters.status) return false;
+        if (filters.lawyer && trackedCase.lawyer !== filters.lawyer) return false;
+        switch (filters.deadline) {
+            case 'overdue': return daysLeft !== null && daysLeft < 0;
+            case 'upcoming': return daysLeft !== null && daysLeft >= 0 && daysLeft <= filters.withinDays;
+            case 'no-date': return daysLeft === null;
+            default: return true;
+        }
+    });
+
+    // Cases without a term go last whichever way the deadline is sorted
+    const byTerm = (a: CaseRow, b: CaseRow) => a.term === b.term ? 0 : a.term === null ? 1 : b.term === null ? -1 : a.term.localeCompare(b.term);
+    switch (filters.sort) {
+        case 'deadline-asc': return filtered.sort(byTerm);
+        case 'deadline-desc': return filtered.sort((a, b) => a.term === null || b.term === null ? byTerm(a, b) : -byTerm(a, b));
+        case 'juzgado': return filtered.sort((a, b) => (a.trackedCase.result.context ?? '').localeCompare(b.trackedCase.result.context ?? '', 'es') || byTerm(a, b));
+        case 'added': return filtered.sort((a, b) => b.trackedCase.addedAt - a.trackedCase.addedAt);
+    }
+}
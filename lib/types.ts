@@ -0,0 +1,33 @@
+import type { ParsedRadicado } from './radicado';
+import type { ParsedEstado } from './bulletin/estado';
+import type { ColumnMapping } from './columns';
+
+export type CellValue = string | number | boolean | null;
+
+export interface MatchRange {
+    column: number; // Index in `data`, or CONTEXT_COLUMN / ESTADO_COLUMN for the headers
+    start: number; // Matched range inside that cell's text
+    end: number;
+}
+
+export interface TermMatch {
+    term: string; // Search / watchlist term as typed
+    score: number; // 1 = exact after normalization, lower for fuzzy matches
+    ranges: MatchRange[]; // One range for a phrase match, one per word when the words are spread out
+}
+
+export interface SearchResult {
+    fileId: string; // Loaded bulletin the row comes from
+    fileName: string;
+    sheetName: string;
+    rowIndex: number;
+    data: CellValue[];
+    id: string; // Position of the row in its bulletin; selections use processKey instead
+    context?: string; // Juzgado / Header context
+    stateContext?: string; // Estado / Fecha context (e.g., "ESTADO 18 DEL 10 FEBRERO 2026")
+    estado?: ParsedEstado | null; // Estado number and ISO fixation date parsed from stateContext
+    matches: TermMatch[]; // Best match per search / watchlist term
+    radicado?: ParsedRadicado | null; // Parsed from the radicado column
+    columns: ColumnMapping; // Field -> column of the sheet the row comes from
+    mergedRows?: number[]; // 0-based rows of continuation text folded into `data`
+}
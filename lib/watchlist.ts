@@ -0,0 +1,30 @@
+import { createLocalStore } from './storage';
+
+export interface WatchlistEntry {
+    id: string;
+    term: string; // Name, NIT or radicado as typed by the user
+}
+
+const EMPTY: WatchlistEntry[] = [];
+
+export const watchlistStore = createLocalStore<WatchlistEntry[]>(
+    'buscador-procesos:watchlist',
+    EMPTY,
+    value => Array.isArray(value) ? value.filter(e => e && typeof e.term === 'string') : EMPTY
+);
+
+// Accepts one term per line (or separated by ";") so a client list can be pasted at once.
+// Terms already present in `existing` (case-insensitive) are skipped.
+export function addWatchlistTerms(existing: WatchlistEntry[], input: string): WatchlistEntry[] {
+    const seen = new Set(existing.map(e => e.term.toLowerCase()));
+    const added: WatchlistEntry[] = [];
+
+    input.split(/[\n;]+/).forEach(part => {
+        const term = part.replace(/\s+/g, ' ').trim();
+        if (!term || seen.has(term.toLowerCase())) return;
+        seen.add(term.toLowerCase());
+        added.push({ id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, term });
+    });
+
+    return [...existing, ...added];
+}
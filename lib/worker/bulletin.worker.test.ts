@@ -0,0 +1,65 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import type { WorkerRequest, WorkerResponse } from './messages';
+
+const FIXTURES = 'fixtures/bulletins';
+
+// Every way a script can reach the network; the worker must not touch any of them
+const network = {
+    fetch: vi.fn(),
+    XMLHttpRequest: vi.fn(),
+    WebSocket: vi.fn(),
+    EventSource: vi.fn(),
+    sendBeacon: vi.fn(),
+};
+
+const worker = {
+    onmessage: null as ((e: MessageEvent<WorkerRequest>) => Promise<void>) | null,
+    posted: [] as WorkerResponse[],
+    postMessage(message: WorkerResponse) {
+        this.posted.push(message);
+    },
+};
+
+async function send(request: WorkerRequest) {
+    if (!worker.onmessage) {
+        vi.stubGlobal('self', worker);
+        vi.stubGlobal('fetch', network.fetch);
+        vi.stubGlobal('XMLHttpRequest', network.XMLHttpRequest);
+        vi.stubGlobal('WebSocket', network.WebSocket);
+        vi.stubGlobal('EventSource', network.EventSource);
+        vi.stubGlobal('navigator', { sendBeacon: network.sendBeacon });
+        await import('./bulletin.worker');
+    }
+    await worker.onmessage!({ data: request } as MessageEvent<WorkerRequest>);
+    return worker.posted.at(-1);
+}
+
+describe('bulletin worker', () => {
+    afterAll(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('reads and searches every fixture without using the network', async () => {
+        const files = readdirSync(FIXTURES).filter(name => name.startsWith('estado-ejemplo.'));
+        let requestId = 0;
+        for (const fileName of files) {
+            const { buffer, byteOffset, byteLength } = readFileSync(`${FIXTURES}/${fileName}`);
+            const loaded = await send({ type: 'load', requestId: ++requestId, fileId: fileName, fileName, buffer: buffer.slice(byteOffset, byteOffset + byteLength), dictionary: {} });
+            expect(loaded).toMatchObject({ type: 'loaded', summary: { rowCount: 4 } });
+        }
+
+        const found = await send({ type: 'search', requestId: ++requestId, terms: ['sobusa'], options: { fuzzy: false, maxEdits: 1 }, field: null, fileIds: files });
+        expect(found?.type === 'results' && found.results.length).toBe(files.length * 2);
+        Object.values(network).forEach(spy => expect(spy).not.toHaveBeenCalled());
+    });
+
+    it('drops cancels for searches that are not running', async () => {
+        const search: WorkerRequest = { type: 'search', requestId: 100, terms: ['sobusa'], options: { fuzzy: false, maxEdits: 1 }, field: null, fileIds: ['estado-ejemplo.csv'] };
+
+        // Sent after the results (the file loaded above): it must not stay behind and stop a later search with that id
+        expect(await send(search)).toMatchObject({ type: 'results', requestId: 100 });
+        await send({ type: 'cancel', requestId: 100 });
+        expect(await send(search)).toMatchObject({ type: 'results', requestId: 100 });
+    });
+});
@@ -0,0 +1,176 @@
+import type { SearchResult } from '../types';
+import { parseBulletin, contextRows, type BulletinDocument, type ContextRow, type RawSheet } from '../bulletin/parser';
+import { mergeContinuation, sheetRegion } from '../bulletin/region';
+import { bulletinStats } from '../stats';
+import { adapterFor } from '../bulletin/adapters';
+import { compileQuery, createRowMatcher } from '../search';
+import { buildIndex, queryCandidates, type SearchIndex } from '../searchIndex';
+import { parseQuery } from '../query';
+import { DEFAULT_MAPPING, type ColumnMapping } from '../columns';
+import { DEFAULT_DICTIONARY, extendDictionary, type BulletinDictionary } from '../bulletin/dictionary';
+import type { SheetSummary, WorkerRequest, WorkerResponse } from './messages';
+
+// Parsed bulletins stay here for the life of the page so searches never convert sheets again
+interface CachedBulletin {
+    fileName: string;
+    sheets: RawSheet[]; // As read, for the rows around a result
+    dictionary: BulletinDictionary; // The one the file was parsed with, user words included
+    document: BulletinDocument;
+    rows: ContextRow[];
+    index: SearchIndex;
+}
+
+const ctx = self as unknown as Worker;
+const cache = new Map<string, CachedBulletin>();
+const searching = new Set<number>(); // Searches in progress; a cancel takes its id out
+
+// Rows checked between two looks at the message queue, so "cancel" gets through
+const SEARCH_CHUNK = 2000;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+// Lets queued messages (cancellations) run before continuing
+const yieldToQueue = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function load(requestId: number, fileId: string, fileName: string, buffer: ArrayBuffer, words: Partial<BulletinDictionary>) {
+    // Excel, CSV, HTML, Word or PDF: every format comes out as the same raw sheets
+    const sheets = await adapterFor(fileName).read(buffer, fileName, async (step, done, total) => {
+        post({ type: 'progress', requestId, progress: { phase: 'parse', fileName, sheetName: step, done, total } });
+        await yieldToQueue();
+    });
+
+    const dictionary = extendDictionary(DEFAULT_DICTIONARY, words);
+    const document = parseBulletin(sheets, dictionary);
+    const rows = contextRows(document, { fileId, fileName });
+    cache.set(fileId, { fileName, sheets, dictionary, document, rows, index: buildIndex(rows) });
+
+    const summaries: SheetSummary[] = document.sheets.map(sheet => {
+        const sheetRows = rows.filter(row => row.sheetName === sheet.name);
+        return {
+            name: sheet.name,
+            rowCount: sheetRows.length,
+            columns: sheet.columns ?? DEFAULT_MAPPING,
+            detected: sheet.columns,
+            headerRow: sheet.headerRow,
+            sample: sheetRows[0]?.data ?? null,
+        };
+    });
+    const juzgados = Array.from(new Set(document.sheets.flatMap(sheet => sheet.courts.flatMap(court => court.name ? [court.name] : []))));
+    post({ type: 'loaded', requestId, summary: { sheets: summaries, rowCount: rows.length, juzgados } });
+}
+
+// A mapping chosen by hand replaces the detected one; radicado keys depend on it, so the index is rebuilt
+function setColumns(fileId: string, sheetName: string, columns: ColumnMapping) {
+    const source = cache.get(fileId);
+    if (!source) return;
+    source.rows = source.rows.map(row => row.sheetName === sheetName ? { ...row, columns } : row);
+    source.index = buildIndex(source.rows);
+}
+
+function region(request: Extract<WorkerRequest, { type: 'region' }>) {
+    const source = cache.get(request.fileId);
+    const sheet = source?.sheets.find(s => s.name === request.sheetName);
+    if (!source || !sheet) throw new Error('El boletín ya no está cargado');
+    const row = source.rows.find(r => r.sheetName === request.sheetName && r.rowIndex === request.rowIndex);
+    post({ type: 'region', requestId: request.requestId, region: sheetRegion(sheet, request.rowIndex, row?.columns ?? DEFAULT_MAPPING, source.dictionary) });
+}
+
+// The continuation rows become part of the record, so its text is searched as one and they no longer show up alone
+function merge(fileId: string, sheetName: string, rowIndex: number, continuation: number[]) {
+    const source = cache.get(fileId);
+    const sheet = source?.sheets.find(s => s.name === sheetName);
+    const position = source?.rows.findIndex(r => r.sheetName === sheetName && r.rowIndex === rowIndex) ?? -1;
+    if (!source || !sheet || position < 0 || source.rows[position].mergedRows) return;
+
+    const row = source.rows[position];
+    const merged = { ...row, data: mergeContinuation(row.data, continuation.map(i => sheet.rows[i])), mergedRows: continuation };
+    const folded = new Set(continuation);
+    source.rows = source.rows.flatMap((r, i) => i === position ? [merged] : r.sheetName === sheetName && folded.has(r.rowIndex) ? [] : [r]);
+    source.index = buildIndex(source.rows);
+}
+
+// Rows of a bulletin that can match any of the terms, in sheet order
+function candidateRows(source: CachedBulletin, request: Extract<WorkerRequest, { type: 'search' }>) {
+    const positions = new Set<number>();
+    for (const term of request.terms) {
+        const query = parseQuery(term, request.field);
+        if (!query) continue;
+        const rows = queryCandidates(source.index, compileQuery(query), request.options);
+        if (!rows) return source.rows; // Only negations: every row has to be checked
+        rows.forEach(p => positions.add(p));
+    }
+    return Array.from(positions).sort((a, b) => a - b).map(p => source.rows[p]);
+}
+
+async function search(requestId: number, request: Extract<WorkerRequest, { type: 'search' }>) {
+    const matchRow = createRowMatcher(request.terms, request.options, request.field);
+    const sources = request.fileIds.flatMap(id => {
+        const source = cache.get(id);
+        return source ? [{ fileName: source.fileName, rows: candidateRows(source, request) }] : [];
+    });
+    const total = sources.reduce((sum, source) => sum + source.rows.length, 0);
+    const results: SearchResult[] = [];
+    let done = 0;
+
+    for (const source of sources) {
+        for (let start = 0; start < source.rows.length; start += SEARCH_CHUNK) {
+            if (!searching.has(requestId)) {
+                post({ type: 'cancelled', requestId });
+                return;
+            }
+            const chunk = source.rows.slice(start, start + SEARCH_CHUNK);
+            chunk.forEach(row => {
+                const result = matchRow(row);
+                if (result) results.push(result);
+            });
+            done += chunk.length;
+            // Index lookups usually leave a handful of rows; only long scans report progress
+            if (total > SEARCH_CHUNK) {
+                post({ type: 'progress', requestId, progress: { phase: 'search', fileName: source.fileName, sheetName: chunk[chunk.length - 1].sheetName, done, total } });
+            }
+            await yieldToQueue();
+        }
+    }
+
+    post({ type: 'results', requestId, results });
+}
+
+ctx.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+    const request = e.data;
+    switch (request.type) {
+        case 'cancel':
+            // Cancels for searches that already finished are dropped here, so nothing is kept for them
+            searching.delete(request.requestId);
+            return;
+        case 'remove':
+            cache.delete(request.fileId);
+            return;
+        case 'columns':
+            setColumns(request.fileId, request.sheetName, request.columns);
+            return;
+        case 'merge':
+            merge(request.fileId, request.sheetName, request.rowIndex, request.rows);
+            return;
+    }
+
+    try {
+        if (request.type === 'load') {
+            await load(request.requestId, request.fileId, request.fileName, request.buffer, request.dictionary);
+        } else if (request.type === 'region') {
+            region(request);
+        } else if (request.type === 'stats') {
+            const rows = request.fileIds.flatMap(id => cache.get(id)?.rows ?? []);
+            post({ type: 'stats', requestId: request.requestId, stats: bulletinStats(rows) });
+        } else {
+            searching.add(request.requestId);
+            try {
+                await search(request.requestId, request);
+            } finally {
+                searching.delete(request.requestId);
+            }
+        }
+    } catch (err) {
+        console.error('Error en el procesamiento del boletín:', err);
+        post({ type: 'error', requestId: request.requestId, message: err instanceof Error ? err.message : String(err) });
+    }
+};
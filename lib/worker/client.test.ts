@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBulletinClient } from './client';
+import type { WorkerRequest, WorkerResponse } from './messages';
+
+// Stands in for the bulletin worker: records what it is sent and lets the test answer or crash it
+class FakeWorker {
+    static created: FakeWorker[] = [];
+    onmessage: ((e: MessageEvent<WorkerResponse>) => void) | null = null;
+    onerror: ((e: ErrorEvent) => void) | null = null;
+    onmessageerror: (() => void) | null = null;
+    sent: WorkerRequest[] = [];
+    terminated = false;
+
+    constructor() {
+        FakeWorker.created.push(this);
+    }
+
+    postMessage(message: WorkerRequest) {
+        this.sent.push(message);
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+
+    answer(response: WorkerResponse) {
+        this.onmessage?.({ data: response } as MessageEvent<WorkerResponse>);
+    }
+
+    crash(message: string) {
+        this.onerror?.({ message, preventDefault: () => {} } as ErrorEvent);
+    }
+}
+
+const requestId = (worker: FakeWorker, type: WorkerRequest['type']) => {
+    const message = worker.sent.find(m => m.type === type);
+    return message && 'requestId' in message ? message.requestId : -1;
+};
+
+describe('createBulletinClient', () => {
+    beforeEach(() => {
+        FakeWorker.created = [];
+        vi.stubGlobal('Worker', FakeWorker);
+    });
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('routes answers to the request that asked', async () => {
+        const client = createBulletinClient();
+        const [worker] = FakeWorker.created;
+        const stats = client.stats(['f1']);
+        const { done } = client.search(['sobusa'], { fuzzy: false, maxEdits: 1 }, null, ['f1']);
+
+        worker.answer({ type: 'results', requestId: requestId(worker, 'search'), results: [] });
+        worker.answer({ type: 'error', requestId: requestId(worker, 'stats'), message: 'sin archivos' });
+
+        await expect(done).resolves.toEqual([]);
+        await expect(stats).rejects.toThrow('sin archivos');
+    });
+
+    it('fails every waiting request and starts a new worker when the worker crashes', async () => {
+        const onCrash = vi.fn();
+        const client = createBulletinClient(onCrash);
+        const [first] = FakeWorker.created;
+        const search = client.search(['sobusa'], { fuzzy: false, maxEdits: 1 }, null, ['f1']).done;
+        const region = client.region('f1', 'Hoja1', 3);
+        const stats = client.stats(['f1']);
+
+        first.crash('Out of memory');
+
+        await expect(search).rejects.toThrow('El procesador de boletines se detuvo: Out of memory');
+        await expect(region).rejects.toThrow('se detuvo');
+        await expect(stats).rejects.toThrow('se detuvo');
+        expect(first.terminated).toBe(true);
+        expect(onCrash).toHaveBeenCalledOnce();
+
+        // Later requests go to the replacement
+        expect(FakeWorker.created).toHaveLength(2);
+        const second = FakeWorker.created[1];
+        const again = client.stats([]);
+        second.answer({ type: 'stats', requestId: requestId(second, 'stats'), stats: { rowCount: 0, unattributed: 0, byJuzgado: [], byEstadoDate: [], topParties: [] } });
+        await expect(again).resolves.toMatchObject({ rowCount: 0 });
+    });
+
+    it('fails waiting requests when an answer cannot be read', async () => {
+        const client = createBulletinClient();
+        const [worker] = FakeWorker.created;
+        const stats = client.stats(['f1']);
+
+        worker.onmessageerror?.();
+
+        await expect(stats).rejects.toThrow('No se pudo leer');
+        expect(FakeWorker.created).toHaveLength(1);
+    });
+});
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { SearchResult } from '../types';
+import type { MatchOptions } from '../matcher';
+import type { ColumnMapping } from '../columns';
+import type { QueryField } from '../query';
+import type { SheetRegion } from '../bulletin/region';
+import type { BulletinStats } from '../stats';
+import type { BulletinDictionary } from '../bulletin/dictionary';
+import type { BulletinSummary, WorkProgress, WorkerRequest, WorkerResponse } from './messages';
+
+type ProgressHandler = (progress: WorkProgress) => void;
+
+interface Pending {
+    onProgress?: ProgressHandler;
+    resolve: (response: WorkerResponse) => void;
+    reject: (error: Error) => void;
+}
+
+export interface BulletinClient {
+    // `dictionary` holds the user's header words, added to the default ones
+    load: (fileId: string, file: File, onProgress?: ProgressHandler, dictionary?: Partial<BulletinDictionary>) => Promise<BulletinSummary>;
+    // Resolves with null when the search was cancelled
+    // `field` restricts the terms that do not name a field themselves
+    search: (terms: string[], options: MatchOptions, field: QueryField | null, fileIds: string[], onProgress?: ProgressHandler) => { requestId: number; done: Promise<SearchResult[] | null> };
+    cancel: (requestId: number) => void;
+    remove: (fileId: string) => void;
+    // Messages are handled in order, so searches sent afterwards already use the new mapping
+    setColumns: (fileId: string, sheetName: string, columns: ColumnMapping) => void;
+    // Rows around a result, `rowIndex` 0-based as in the sheet
+    region: (fileId: string, sheetName: string, rowIndex: number) => Promise<SheetRegion>;
+    // Folds continuation rows into a row for later searches; the rows stop being results of their own
+    merge: (fileId: string, sheetName: string, rowIndex: number, rows: number[]) => void;
+    // Aggregates over every row of the files, not only search results
+    stats: (fileIds: string[]) => Promise<BulletinStats>;
+    terminate: () => void;
+}
+
+/**
+ * Promise-based wrapper around the bulletin worker. Each request gets an id so progress and
+ * answers for overlapping requests (a search started while a file loads) are routed correctly.
+ * If the worker dies (out of memory on a huge workbook, a chunk that failed to load), every
+ * request still waiting fails and a fresh worker takes over; it starts with no files, so
+ * `onCrash` tells the page to have them loaded again.
+ */
+export function createBulletinClient(onCrash?: (error: Error) => void): BulletinClient {
+    const pending = new Map<number, Pending>();
+    let nextId = 1;
+
+    const rejectPending = (error: Error) => {
+        const entries = Array.from(pending.values());
+        pending.clear();
+        entries.forEach(entry => entry.reject(error));
+    };
+
+    const handleMessage = (e: MessageEvent<WorkerResponse>) => {
+        const response = e.data;
+        const entry = pending.get(response.requestId);
+        if (!entry) return;
+        if (response.type === 'progress') {
+            entry.onProgress?.(response.progress);
+            return;
+        }
+        pending.delete(response.requestId);
+        entry.resolve(response);
+    };
+
+    const spawn = () => {
+        const created = new Worker(new URL('./bulletin.worker.ts', import.meta.url));
+        created.onmessage = handleMessage;
+        // An answer that could not be read: its request cannot be told apart, so none will be answered
+        created.onmessageerror = () => rejectPending(new Error('No se pudo leer la respuesta del procesador de boletines'));
+        created.onerror = (e: ErrorEvent) => {
+            e.preventDefault();
+            const error = new Error(`El procesador de boletines se detuvo${e.message ? `: ${e.message}` : ''}`);
+            created.terminate();
+            worker = spawn();
+            rejectPending(error);
+            onCrash?.(error);
+        };
+        return created;
+    };
+    let worker = spawn();
+
+    const request = (message: WorkerRequest, onProgress?: ProgressHandler, transfer: Transferable[] = []) =>
+        new Promise<WorkerResponse>((resolve, reject) => {
+            if ('requestId' in message) pending.set(message.requestId, { onProgress, resolve, reject });
+            worker.postMessage(message, transfer);
+        });
+
+    return {
+        async load(fileId, file, onProgress, dictionary = {}) {
+            const buffer = await file.arrayBuffer();
+            const response = await request({ type: 'load', requestId: nextId++, fileId, fileName: file.name, buffer, dictionary }, onProgress, [buffer]);
+            if (response.type === 'error') throw new Error(response.message);
+            if (response.type !== 'loaded') throw new Error(`Respuesta inesperada: ${response.type}`);
+            return response.summary;
+        },
+        search(terms, options, field, fileIds, onProgress) {
+            const requestId = nextId++;
+            const done = request({ type: 'search', requestId, terms, options, field, fileIds }, onProgress).then(response => {
+                if (response.type === 'error') throw new Error(response.message);
+                return response.type === 'results' ? response.results : null;
+            });
+            return { requestId, done };
+        },
+        cancel(requestId) {
+            worker.postMessage({ type: 'cancel', requestId } satisfies WorkerRequest);
+        },
+        remove(fileId) {
+            worker.postMessage({ type: 'remove', fileId } satisfies WorkerRequest);
+        },
+        setColumns(fileId, sheetName, columns) {
+            worker.postMessage({ type: 'columns', fileId, sheetName, columns } satisfies WorkerRequest);
+        },
+        async region(fileId, sheetName, rowIndex) {
+            const response = await request({ type: 'region', requestId: nextId++, fileId, sheetName, rowIndex });
+            if (response.type === 'error') throw new Error(response.message);
+            if (response.type !== 'region') throw new Error(`Respuesta inesperada: ${response.type}`);
+            return response.region;
+        },
+        merge(fileId, sheetName, rowIndex, rows) {
+            worker.postMessage({ type: 'merge', fileId, sheetName, rowIndex, rows } satisfies WorkerRequest);
+        },
+        async stats(fileIds) {
+            const response = await request({ type: 'stats', requestId: nextId++, fileIds });
+            if (response.type === 'error') throw new Error(response.message);
+            if (response.type !== 'stats') throw new Error(`Respuesta inesperada: ${response.type}`);
+            return response.stats;
+        },
+        terminate() {
+            worker.terminate();
+            rejectPending(new Error('El procesador de boletines se cerró'));
+        },
+    };
+}
+
+// One worker per page, created on first use (there is no Worker during the static export render)
+export function useBulletinClient(onCrash?: (error: Error) => void) {
+    const clientRef = useRef<BulletinClient | null>(null);
+    const crashRef = useRef(onCrash);
+    useEffect(() => {
+        crashRef.current = onCrash;
+    });
+
+    useEffect(() => () => {
+        clientRef.current?.terminate();
+        clientRef.current = null;
+    }, []);
+
+    return useCallback(() => {
+        if (!clientRef.current) clientRef.current = createBulletinClient(error => crashRef.current?.(error));
+        return clientRef.current;
+    }, []);
+}
@@ -0,0 +1,49 @@
+import type { CellValue, SearchResult } from '../types';
+import type { MatchOptions } from '../matcher';
+import type { ColumnMapping } from '../columns';
+import type { QueryField } from '../query';
+import type { SheetRegion } from '../bulletin/region';
+import type { BulletinStats } from '../stats';
+import type { BulletinDictionary } from '../bulletin/dictionary';
+
+export interface SheetSummary {
+    name: string;
+    rowCount: number;
+    columns: ColumnMapping; // Mapping in use for the sheet
+    detected: ColumnMapping | null; // Mapping read from the column titles, if the sheet has them
+    headerRow: CellValue[] | null;
+    sample: CellValue[] | null; // First data row, to preview a mapping
+}
+
+export interface BulletinSummary {
+    sheets: SheetSummary[];
+    rowCount: number;
+    juzgados: string[]; // Court names the bulletin lists, to tell which despachos it covers
+}
+
+export interface WorkProgress {
+    phase: 'parse' | 'search';
+    fileName: string;
+    sheetName: string; // Searched sheet; while parsing, the step label ("hoja X", "página 3")
+    done: number; // Sheets (PDF pages) converted while parsing, rows checked while searching
+    total: number;
+}
+
+export type WorkerRequest =
+    | { type: 'load'; requestId: number; fileId: string; fileName: string; buffer: ArrayBuffer; dictionary: Partial<BulletinDictionary> }
+    | { type: 'remove'; fileId: string }
+    | { type: 'columns'; fileId: string; sheetName: string; columns: ColumnMapping }
+    | { type: 'region'; requestId: number; fileId: string; sheetName: string; rowIndex: number }
+    | { type: 'merge'; fileId: string; sheetName: string; rowIndex: number; rows: number[] }
+    | { type: 'stats'; requestId: number; fileIds: string[] }
+    | { type: 'search'; requestId: number; terms: string[]; options: MatchOptions; field: QueryField | null; fileIds: string[] }
+    | { type: 'cancel'; requestId: number };
+
+export type WorkerResponse =
+    | { type: 'progress'; requestId: number; progress: WorkProgress }
+    | { type: 'loaded'; requestId: number; summary: BulletinSummary }
+    | { type: 'results'; requestId: number; results: SearchResult[] }
+    | { type: 'region'; requestId: number; region: SheetRegion }
+    | { type: 'stats'; requestId: number; stats: BulletinStats }
+    | { type: 'cancelled'; requestId: number }
+    | { type: 'error'; requestId: number; message: string };
@@ -1,6 +1,9 @@
 import type { NextConfig } from "next";
 
 const isProd = process.env.NODE_ENV === 'production';
+const basePath = isProd ? '/buscador-procesos' : '';
+// Names the service worker cache, so each deploy replaces the app shell cached by the last one
+const buildId = process.env.GITHUB_SHA?.slice(0, 12) ?? Date.now().toString(36);
 
 const nextConfig: NextConfig = {
   output: 'export',
@@ -9,8 +12,13 @@ const nextConfig: NextConfig = {
   },
   // IMPORTANT: The basePath must match your repository name.
   // If your repo is https://github.com/vimasaba44/buscador-procesos, then use '/buscador-procesos'
-  basePath: isProd ? '/buscador-procesos' : '',
+  basePath,
   assetPrefix: isProd ? '/buscador-procesos/' : '',
+  // The manifest and the service worker registration build their URLs from it
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,75 @@
+// Service worker of the installed app: keeps the app shell available offline.
+// It only ever caches GET requests to this origin; bulletins are read in the page from local
+// files and are never requested over the network, so they never pass through here.
+
+// One cache per build: the registration passes the build id (?v=), and activate drops the
+// caches of earlier builds. Other apps on the same github.io origin keep theirs.
+const CACHE_PREFIX = 'buscador-procesos-';
+const CACHE = CACHE_PREFIX + (new URL(self.location.href).searchParams.get('v') ?? 'dev');
+
+// Resolved against the registration scope, so the same file works under the GitHub Pages basePath.
+// The export writes mis-procesos.html (no trailingSlash), which is served at ./mis-procesos only;
+// addAll fails whole when one entry is missing, and the worker would never install.
+const SHELL = ['./', './mis-procesos', './manifest.webmanifest', './icons/icon-192.png', './icons/icon-512.png'];
+
+const scoped = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(CACHE)
+            .then(cache => cache.addAll(SHELL.map(scoped)))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE).map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+// Scripts and styles the page loaded before the worker took control, sent by the registration
+self.addEventListener('message', (event) => {
+    if (event.data?.type !== 'cache-urls') return;
+    const urls = event.data.urls.filter(url => url.startsWith(self.registration.scope));
+    event.waitUntil(caches.open(CACHE).then(cache => Promise.all(urls.map(url => cache.add(url).catch(() => undefined)))));
+});
+
+const isSameOrigin = (url) => url.origin === self.location.origin;
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || !isSameOrigin(url) || !request.url.startsWith(self.registration.scope)) return;
+
+    // Build output under _next/static is content-hashed: once cached it never changes
+    if (url.pathname.includes('/_next/static/')) {
+        event.respondWith(
+            caches.match(request).then(cached => cached ?? fetch(request).then(response => {
+                if (response.ok) {
+                    const copy = response.clone();
+                    caches.open(CACHE).then(cache => cache.put(request, copy));
+                }
+                return response;
+            }))
+        );
+        return;
+    }
+
+    // Pages and everything else: the network when there is one, so a new deploy shows up at once
+    event.respondWith(
+        fetch(request)
+            .then(response => {
+                if (response.ok) {
+                    const copy = response.clone();
+                    caches.open(CACHE).then(cache => cache.put(request, copy));
+                }
+                return response;
+            })
+            .catch(() => caches.match(request, { ignoreSearch: true })
+                .then(cached => cached ?? (request.mode === 'navigate' ? caches.match(scoped('./')) : undefined))
+                .then(cached => cached ?? Response.error()))
+    );
+});